@@ -0,0 +1,37 @@
+import type { BridgeDefinition } from "../../types";
+import { CHAINS } from "../../utils/chains";
+import { xrplAdapter } from "./axelar.xrpl.adapter";
+import { evmAdapter } from "./axelar.xrpl-evm.adapter";
+
+/** Axelar (through Squid) between XRPL and the XRPL EVM Sidechain */
+export const axelarBridge = {
+    id: "axelar",
+    displayName: "Axelar",
+    description: "Cross-chain communication protocol",
+    routes: [
+        {
+            direction: "xrpl_to_xrpl_evm" as const,
+            description: "XRPL to XRPL EVM Sidechain",
+            source: CHAINS.xrpl,
+            target: CHAINS.xrplEvm,
+            sourceAdapter: xrplAdapter,
+            targetAdapter: evmAdapter,
+            amountUnit: "XRP",
+            defaults: { amount: 5, runs: 1 },
+            constraints: { minAmount: 2 },
+            prepareTargetFirst: true,
+        },
+        {
+            direction: "xrpl_evm_to_xrpl" as const,
+            description: "XRPL EVM Sidechain to XRPL",
+            source: CHAINS.xrplEvm,
+            target: CHAINS.xrpl,
+            sourceAdapter: evmAdapter,
+            targetAdapter: xrplAdapter,
+            amountUnit: "XRP",
+            defaults: { amount: 5, runs: 1 },
+            constraints: { minAmount: 2 },
+            prepareTargetFirst: true,
+        },
+    ],
+} satisfies BridgeDefinition<string>;
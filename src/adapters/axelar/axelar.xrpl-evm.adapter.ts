@@ -1,8 +1,14 @@
 import chalk from "chalk";
 import { Address, createPublicClient, createWalletClient, erc20Abi, formatEther, http, parseEther } from "viem";
-import { BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
+import { ArrivalCorrelation, BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
 import { xrplevm } from "../../utils/chains";
 import { getEvmAccount, SQUID_INTEGRATOR_ID } from "../../utils/environment";
+import { createArrivalCorrelator } from "../../utils/correlation";
+import { expectedArrivalFromRoute, fetchSquidDeliveryTxHashes } from "./squid";
+import { trackGmpStatus } from "./gmp";
+import { backoffDelayMs, resolveTimings } from "../../utils/timing";
+import { EVM_NATIVE_DECIMALS, rawAmount, rawToNumber } from "../../utils/amounts";
+import { evmBlockTimeMs } from "../../utils/time";
 
 // Helper to get token address format
 function getTokenAddress(chainId: string, tokenAddress: string): string {
@@ -35,7 +41,7 @@ export const evmAdapter: ChainAdapter = {
             transport: http(rpcUrl)
         });
 
-        const account = getEvmAccount();
+        const account = getEvmAccount(ctx.accountIndex);
 
         ctx.cache.evm = { publicClient, walletClient, account, chain };
 
@@ -66,8 +72,9 @@ export const evmAdapter: ChainAdapter = {
 
         console.log(chalk.cyan('🔍 Getting Squid route...'));
 
-        // Retry logic for getting Squid route (max 3 attempts)
-        const maxRetries = 3;
+        // Retry logic for getting Squid route (timings.retries attempts)
+        const timings = resolveTimings(ctx);
+        const maxRetries = timings.retries;
         let lastError;
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -109,7 +116,7 @@ export const evmAdapter: ChainAdapter = {
                 console.log(chalk.red(`❌ Route attempt ${attempt}/${maxRetries} failed (${statusCode}): ${errorMsg}`));
 
                 if (attempt < maxRetries) {
-                    const waitTime = attempt * 2000; // Exponential backoff: 2s, 4s
+                    const waitTime = backoffDelayMs(timings, attempt, 2000); // Default: 2s, 4s
                     console.log(chalk.yellow(`⏳ Waiting ${waitTime/1000}s before retry...`));
                     await delay(waitTime);
                 } else {
@@ -155,11 +162,13 @@ export const evmAdapter: ChainAdapter = {
 
     async submit(ctx: RunContext): Promise<SourceOutput> {
         const { account, walletClient, publicClient } = ctx.cache.evm!;
-        const { route } = ctx.cache.squid!;
+        const { route, requestId } = ctx.cache.squid!;
 
         if (!walletClient || !account || !publicClient) throw new Error("EVM not prepared");
         if (!route) throw new Error("Squid route not prepared");
 
+        ctx.expected = expectedArrivalFromRoute(route, requestId);
+
         const target = route.transactionRequest.target;
         const data = route.transactionRequest.data;
         const value = route.transactionRequest.value;
@@ -205,9 +214,20 @@ export const evmAdapter: ChainAdapter = {
         const gasUsed = receipt.gasUsed;
         const effectiveGasPrice = receipt.effectiveGasPrice || 0n;
         const gasFeeWei = gasUsed * effectiveGasPrice;
-        const txFee = Number(formatEther(gasFeeWei));
+        const txFeeRaw = rawAmount(gasFeeWei, EVM_NATIVE_DECIMALS);
+        const xrpAmountRaw = rawAmount(parseEther(ctx.cfg.xrpAmount.toString()), EVM_NATIVE_DECIMALS);
+        const blockTimestamp = await evmBlockTimeMs(publicClient, receipt.blockNumber);
 
-        return { xrpAmount: ctx.cfg.xrpAmount, txHash, submittedAt, txFee, currency: 'XRP' };
+        return {
+            xrpAmount: rawToNumber(xrpAmountRaw),
+            txHash,
+            submittedAt,
+            txFee: rawToNumber(txFeeRaw),
+            xrpAmountRaw,
+            txFeeRaw,
+            currency: 'XRP',
+            blockTimestamp,
+        };
     },
 
     /**
@@ -219,16 +239,29 @@ export const evmAdapter: ChainAdapter = {
 
         if (!publicClient || !account) throw new Error("EVM not prepared");
 
-        const timeoutMs = 10 * 60_000;
+        const timeoutMs = resolveTimings(ctx).observeTimeoutMs;
 
         // There's already a 10s wait between runs in index.ts, so no need to skip blocks
+        // Start from the block recorded before submit when available
         const currentBlock = await publicClient.getBlockNumber();
-        const startBlock = currentBlock;
+        const startBlock = ctx.observeFrom?.evmBlock ?? currentBlock;
 
         console.log(chalk.cyan(`🔍 Watching for XRP token transfers to ${account.address} on XRPL-EVM (from block ${startBlock})`));
-        console.log(chalk.dim(`   Starting from current block ${currentBlock}`));
+        if (ctx.observeFrom?.evmBlock !== undefined) {
+            console.log(chalk.dim(`   Starting from block before submit: ${startBlock}`));
+        } else {
+            console.log(chalk.dim(`   Starting from current block ${currentBlock}`));
+        }
+
+        // Squid reports the delivery tx of the transfer, otherwise the quoted amount is checked
+        const correlator = createArrivalCorrelator(ctx, () =>
+            fetchSquidDeliveryTxHashes(ctx.txs.sourceTxHash, ctx.expected?.reference, 'xrpl-mainnet', '1440000')
+        );
+
+        // Axelar message id and hop milestones, recorded while the arrival is observed
+        const gmp = trackGmpStatus(ctx);
 
-        return await new Promise<TargetOutput>((resolve, reject) => {
+        return await gmp.until(new Promise<TargetOutput>((resolve, reject) => {
             let finished = false;
             let unwatch: (() => void) | undefined;
 
@@ -258,6 +291,7 @@ export const evmAdapter: ChainAdapter = {
                 try {
                     // Watch for ANY ERC-20 Transfer events to our account
                     // We don't specify the token address since we don't know which wrapped XRP token Squid uses
+                    // The correlator checks the token when the Squid route names a non-native one
                     const logs = await publicClient.getLogs({
                         event: {
                             type: "event",
@@ -267,7 +301,7 @@ export const evmAdapter: ChainAdapter = {
                                 { indexed: true, name: "to", type: "address" },
                                 { indexed: false, name: "value", type: "uint256" },
                             ],
-                        },
+                        } as const,
                         fromBlock: startBlock,
                         toBlock: toBlock,
                         args: { to: account.address },
@@ -286,32 +320,59 @@ export const evmAdapter: ChainAdapter = {
                         return true;
                     });
 
-                    // Take the first incoming transfer
-                    const log = filteredLogs.length > 0 ? filteredLogs[0] : undefined;
+                    // Take the first incoming transfer that correlates with this run's transfer
+                    const foundAt = Date.now();
+                    let log: (typeof filteredLogs)[number] | undefined;
+                    let correlation: ArrivalCorrelation | null = null;
+                    for (const candidate of filteredLogs) {
+                        const candidateValue = candidate.args.value;
+                        correlation = await correlator.match({
+                            txHash: candidate.transactionHash as string,
+                            seenAt: foundAt,
+                            amount: candidateValue ? Number(formatEther(candidateValue)) : 0,
+                            token: candidate.address,
+                        });
+                        if (correlation) {
+                            log = candidate;
+                            break;
+                        }
+                    }
 
-                    if (log) {
-                        const from = (log as any).args?.from as string;
-                        const value = (log as any).args?.value as bigint | undefined;
-                        const xrpAmount = value ? Number(formatEther(value)) : 0;
+                    if (log && correlation) {
+                        const { from, value } = log.args;
+                        const xrpAmountRaw = rawAmount(value ?? 0n, EVM_NATIVE_DECIMALS);
+                        const xrpAmount = rawToNumber(xrpAmountRaw);
 
                         console.log(chalk.green(`✅ Found incoming XRP token transfer!`));
                         console.log(chalk.dim(`   Token: ${log.address}`));
                         console.log(chalk.dim(`   From: ${from}`));
                         console.log(chalk.dim(`   Amount: ${xrpAmount.toFixed(3)} XRP`));
                         console.log(chalk.dim(`   Tx: ${log.transactionHash}`));
+                        console.log(chalk.dim(`   Matched by: ${correlation.method}`));
 
                         const receipt = await publicClient.getTransactionReceipt({ hash: log.transactionHash as Address });
                         const gasUsed = receipt.gasUsed;
                         const effectiveGasPrice = receipt.effectiveGasPrice || 0n;
                         const gasFeeWei = gasUsed * effectiveGasPrice;
-                        const txFee = Number(formatEther(gasFeeWei));
+                        const txFeeRaw = rawAmount(gasFeeWei, EVM_NATIVE_DECIMALS);
+
+                        // On-chain time of the arrival, a recovered transfer is dated by it rather than by when it is found
+                        const blockTimestamp = Number((await publicClient.getBlock({ blockNumber: log.blockNumber ?? undefined })).timestamp) * 1000;
+                        const finalizedAt = ctx.recovered ? blockTimestamp : foundAt;
+                        // The transfer may have been seen, and rejected, on an earlier poll
+                        const includedAt = ctx.recovered ? blockTimestamp : correlator.firstSeenAt(log.transactionHash as string);
 
                         resolveOnce({
                             xrpAmount,
                             txHash: log.transactionHash as Address,
-                            finalizedAt: Date.now(),
-                            txFee,
+                            includedAt,
+                            finalizedAt,
+                            blockTimestamp,
+                            txFee: rawToNumber(txFeeRaw),
+                            xrpAmountRaw,
+                            txFeeRaw,
                             currency: 'XRP',
+                            correlation,
                         });
                     }
                 } catch (err) {
@@ -343,7 +404,7 @@ export const evmAdapter: ChainAdapter = {
             });
 
             ctx.cleaner.trackViemUnwatch(unwatch);
-        });
+        }));
     },
 
     /**
@@ -358,7 +419,7 @@ export const evmAdapter: ChainAdapter = {
         const url = `${ctx.cache.evm?.chain.blockExplorers?.default.apiUrl}/addresses/${account.address}/internal-transactions?filter=to`;
 
         const recentBlocks = 10;
-        const timeoutMs = 10 * 60_000; // 10 minutes timeout
+        const timeoutMs = resolveTimings(ctx).gasRefundTimeoutMs ?? 10 * 60_000;
 
         return await new Promise<GasRefundOutput>((resolve, reject) => {
             let done = false;
@@ -395,12 +456,13 @@ export const evmAdapter: ChainAdapter = {
                         });
 
                         if (gasRefundTx) {
-                            const refundAmount = Number(formatEther(gasRefundTx.value));
+                            const refundRaw = rawAmount(gasRefundTx.value, EVM_NATIVE_DECIMALS);
 
                             finish(() =>
                                 resolve({
-                                    xrpAmount: refundAmount,
-                                    txHash: gasRefundTx.transaction_hash
+                                    xrpAmount: rawToNumber(refundRaw),
+                                    txHash: gasRefundTx.transaction_hash,
+                                    xrpAmountRaw: refundRaw,
                                 })
                             );
                         }
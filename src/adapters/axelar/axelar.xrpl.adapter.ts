@@ -1,7 +1,14 @@
 import chalk from "chalk";
 import { Client, dropsToXrp, xrpToDrops } from "xrpl";
-import type { BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
+import type { ArrivalCorrelation, BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
 import { SQUID_INTEGRATOR_ID, getXrplWallet } from "../../utils/environment";
+import { createAccountTxFeed } from "../../utils/xrpl-history";
+import { xrplCloseTimeMs } from "../../utils/time";
+import { ArrivalCandidate, createArrivalCorrelator, decodeXrplMemos, RECHECK_INTERVAL_MS } from "../../utils/correlation";
+import { expectedArrivalFromRoute, fetchSquidDeliveryTxHashes } from "./squid";
+import { trackGmpStatus } from "./gmp";
+import { backoffDelayMs, resolveTimings } from "../../utils/timing";
+import { rawAmount, rawToNumber, XRP_DECIMALS } from "../../utils/amounts";
 
 // Helper to get token address format
 function getTokenAddress(chainId: string, tokenAddress: string): string {
@@ -17,6 +24,9 @@ async function delay(ms: number) {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/** Incoming payment, resolved as the arrival of the run once it is matched */
+type PaymentCandidate = ArrivalCandidate & { onMatch: (correlation: ArrivalCorrelation, matchedAt: number) => void };
+
 export const xrplAdapter: ChainAdapter = {
 
     /** Prepare the client, wallet, and Squid route */
@@ -24,7 +34,7 @@ export const xrplAdapter: ChainAdapter = {
         const client = new Client(ctx.cfg.networks.xrpl.wsUrl);
         await client.connect();
 
-        const wallet = getXrplWallet();
+        const wallet = getXrplWallet(ctx.accountIndex);
         ctx.cache.xrpl = { client, wallet };
         ctx.cleaner.trackXrpl(client, wallet.address);
 
@@ -55,8 +65,9 @@ export const xrplAdapter: ChainAdapter = {
 
         console.log(chalk.cyan('🔍 Getting Squid route...'));
 
-        // Retry logic for getting Squid route (max 3 attempts)
-        const maxRetries = 3;
+        // Retry logic for getting Squid route (timings.retries attempts)
+        const timings = resolveTimings(ctx);
+        const maxRetries = timings.retries;
         let lastError;
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -98,7 +109,7 @@ export const xrplAdapter: ChainAdapter = {
                 console.log(chalk.red(`❌ Route attempt ${attempt}/${maxRetries} failed (${statusCode}): ${errorMsg}`));
 
                 if (attempt < maxRetries) {
-                    const waitTime = attempt * 2000; // Exponential backoff: 2s, 4s
+                    const waitTime = backoffDelayMs(timings, attempt, 2000); // Default: 2s, 4s
                     console.log(chalk.yellow(`⏳ Waiting ${waitTime/1000}s before retry...`));
                     await delay(waitTime);
                 } else {
@@ -147,11 +158,13 @@ export const xrplAdapter: ChainAdapter = {
     /** Submit XRPL Payment using Squid route */
     async submit(ctx: RunContext): Promise<SourceOutput> {
         const { client, wallet } = ctx.cache.xrpl!;
-        const { route } = ctx.cache.squid!;
+        const { route, requestId } = ctx.cache.squid!;
 
         if (!client || !wallet) throw new Error("XRPL not prepared");
         if (!route) throw new Error("Squid route not prepared");
 
+        ctx.expected = expectedArrivalFromRoute(route, requestId);
+
         // Get the payment transaction from Squid route
         const payment = route.transactionRequest.data;
 
@@ -181,13 +194,23 @@ export const xrplAdapter: ChainAdapter = {
         }
 
         const txHash = res.result.hash!;
-        const txFee = Number(dropsToXrp(res.result.tx_json.Fee || "0"));
+        const txFeeRaw = rawAmount(res.result.tx_json.Fee || "0", XRP_DECIMALS);
+        const xrpAmountRaw = rawAmount(xrpToDrops(ctx.cfg.xrpAmount), XRP_DECIMALS);
 
         console.log(chalk.green(`✓ XRPL transaction submitted`));
         console.log(chalk.dim(`TX Hash: ${txHash}`));
         console.log(chalk.dim(`Explorer: https://livenet.xrpl.org/transactions/${txHash}`));
 
-        return { xrpAmount: ctx.cfg.xrpAmount, txHash, submittedAt, txFee, currency: 'XRP' };
+        return {
+            xrpAmount: rawToNumber(xrpAmountRaw),
+            txHash,
+            submittedAt,
+            txFee: rawToNumber(txFeeRaw),
+            xrpAmountRaw,
+            txFeeRaw,
+            currency: 'XRP',
+            blockTimestamp: xrplCloseTimeMs(res.result),
+        };
     },
 
     /** Monitor the incoming transaction on the blockchain */
@@ -197,19 +220,29 @@ export const xrplAdapter: ChainAdapter = {
 
         // Record when observation starts - only accept transactions AFTER this time
         // Start monitoring immediately (there's already a 10s wait between runs in index.ts)
-        const observeStartTime = Date.now();
+        // The cutoff is the time recorded before submit when available (history is backfilled from there)
+        const observeStartTime = ctx.observeFrom?.timestamp ?? Date.now();
 
         console.log(`🔍 Monitoring transactions for ${wallet.address}`);
         console.log(chalk.dim(`   Only accepting transactions after ${new Date(observeStartTime).toISOString()}`));
 
-        return await new Promise<TargetOutput>((resolve, reject) => {
+        // Squid reports the delivery tx of the transfer, otherwise memo and quoted amount are checked
+        const correlator = createArrivalCorrelator<PaymentCandidate>(ctx, () =>
+            fetchSquidDeliveryTxHashes(ctx.txs.sourceTxHash, ctx.expected?.reference, '1440000', 'xrpl-mainnet')
+        );
+
+        // Axelar message id and hop milestones, recorded while the arrival is observed
+        const gmp = trackGmpStatus(ctx);
+
+        return await gmp.until(new Promise<TargetOutput>((resolve, reject) => {
             let finished = false;
 
             const resolveOnce = (v: TargetOutput) => {
                 if (finished) return;
                 finished = true;
                 try { clearTimeout(timeoutId); } catch { }
-                try { client.off("transaction", onTx); } catch { }
+                try { clearInterval(recheckId); } catch { }
+                try { client.off("transaction", feed.onStream); } catch { }
                 resolve(v);
             };
 
@@ -217,15 +250,25 @@ export const xrplAdapter: ChainAdapter = {
                 if (finished) return;
                 finished = true;
                 try { clearTimeout(timeoutId); } catch { }
-                try { client.off("transaction", onTx); } catch { }
+                try { clearInterval(recheckId); } catch { }
+                try { client.off("transaction", feed.onStream); } catch { }
                 reject(e instanceof Error ? e : new Error(String(e)));
             };
 
             const timeoutId = setTimeout(() => {
                 rejectOnce(new Error("⌛️ Timeout: no matching payment on XRPL"));
-            }, 10 * 60_000);
+            }, resolveTimings(ctx).observeTimeoutMs);
             ctx.cleaner.trackTimer(timeoutId);
 
+            // A payment rejected before Squid indexed the transfer is matched again on every status poll
+            const recheckId = setInterval(() => {
+                const matchedAt = Date.now();
+                correlator.recheck()
+                    .then(found => found?.candidate.onMatch(found.correlation, matchedAt))
+                    .catch(rejectOnce);
+            }, resolveTimings(ctx).pollIntervalMs ?? RECHECK_INTERVAL_MS);
+            ctx.cleaner.trackTimer(recheckId);
+
             const onTx = (data: any) => {
                 try {
                     if (!data?.validated) return;
@@ -252,9 +295,11 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    const deliveredXrp = Number(dropsToXrp(meta?.delivered_amount));
-                    const txFeeXrp = Number(dropsToXrp(tx.Fee));
-                    const finalizedAt = Date.now();
+                    const deliveredRaw = rawAmount(meta?.delivered_amount, XRP_DECIMALS);
+                    const txFeeRaw = rawAmount(tx.Fee, XRP_DECIMALS);
+                    const deliveredXrp = rawToNumber(deliveredRaw);
+                    // Backfilled payments are dated by their ledger close time
+                    const seenAt = data.backfilled ? txTimestamp : Date.now();
 
                     // Skip small gas return transactions (< 0.001 XRP)
                     if (deliveredXrp < 0.001) {
@@ -262,34 +307,58 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    resolveOnce({
-                        xrpAmount: deliveredXrp,
+                    const candidate: PaymentCandidate = {
                         txHash: data.hash,
-                        finalizedAt,
-                        txFee: txFeeXrp,
-                        currency: 'XRP',
-                    } as TargetOutput);
+                        seenAt,
+                        amount: deliveredXrp,
+                        memos: decodeXrplMemos(tx),
+                        onMatch: (correlation, matchedAt) => {
+                            resolveOnce({
+                                xrpAmount: deliveredXrp,
+                                txHash: data.hash,
+                                includedAt: seenAt,
+                                finalizedAt: matchedAt,
+                                blockTimestamp: xrplCloseTimeMs(data),
+                                txFee: rawToNumber(txFeeRaw),
+                                xrpAmountRaw: deliveredRaw,
+                                txFeeRaw,
+                                currency: 'XRP',
+                                correlation,
+                            });
+                        },
+                    };
+                    correlator.match(candidate).then(correlation => {
+                        if (correlation) candidate.onMatch(correlation, seenAt);
+                    }).catch(rejectOnce);
                 } catch (err) {
                     rejectOnce(err);
                 }
             };
 
-            client.on("transaction", onTx);
+            const feed = createAccountTxFeed(client, wallet.address, onTx, () => finished);
+            client.on("transaction", feed.onStream);
 
             client.request({ command: "subscribe", accounts: [wallet.address] })
                 .then(() => {
                     console.log(chalk.dim(`   ✓ Subscribed to real-time transaction stream`));
                     ctx.cleaner.add(async () => {
-                        try { client.off("transaction", onTx); } catch { }
+                        try { client.off("transaction", feed.onStream); } catch { }
                         try {
                             await client.request({ command: "unsubscribe", accounts: [wallet.address] });
                         } catch { }
                     });
+
+                    // Replay the payments validated since the ledger recorded before submit, then go live
+                    const fromLedger = ctx.observeFrom?.xrplLedger;
+                    if (fromLedger !== undefined) {
+                        console.log(chalk.dim(`   Backfilling account history from ledger ${fromLedger}`));
+                    }
+                    return feed.start(fromLedger);
                 })
                 .catch((err: unknown) => {
                     rejectOnce(err);
                 });
-        });
+        }));
     },
 
     /**
@@ -328,7 +397,7 @@ export const xrplAdapter: ChainAdapter = {
 
             const timeoutId = setTimeout(() => {
                 rejectOnce(new Error("Gas refund timeout"));
-            }, 5 * 60_000);
+            }, resolveTimings(ctx).gasRefundTimeoutMs ?? 5 * 60_000);
             ctx.cleaner.trackTimer(timeoutId);
 
             const onRefundTx = (data: any) => {
@@ -352,11 +421,12 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    const refundXrp = Number(dropsToXrp(meta?.delivered_amount));
+                    const refundRaw = rawAmount(meta?.delivered_amount, XRP_DECIMALS);
 
                     resolveOnce({
-                        xrpAmount: refundXrp,
+                        xrpAmount: rawToNumber(refundRaw),
                         txHash: data.hash,
+                        xrpAmountRaw: refundRaw,
                     });
                 } catch (err) {
                     rejectOnce(err);
@@ -0,0 +1,128 @@
+import chalk from "chalk";
+import type { RunContext } from "../../types";
+import { resolveTimings } from "../../utils/timing";
+
+const AXELARSCAN_API_BASE = process.env.AXELAR_GMP_API_URL || "https://api.axelarscan.io"; // Point to a local mock to replay statuses
+const GMP_POLL_INTERVAL_MS = 10_000; // Default, see RouteTimings.pollIntervalMs
+const GMP_FINAL_POLLS = 3; // Polls after the arrival, the indexer can lag behind the target chain
+
+/** Lifecycle of an Axelar GMP message, milestone times in ms */
+export interface GmpStatus {
+    messageId?: string;
+    status: string;          // Axelarscan status (called, confirmed, approved, executed, error...)
+    confirmedAt?: number;    // Source tx confirmed by the Axelar validators
+    approvedAt?: number;     // Message approved on the destination gateway
+    executedAt?: number;     // Message executed on the destination chain
+    executedTxHash?: string;
+}
+
+/** Source of GMP statuses, swappable so that a local mock can stand in for Axelarscan */
+export interface AxelarGmpClient {
+    /** Status of the message sent by a source tx, or undefined while it is not indexed */
+    getStatus(sourceTxHash: string): Promise<GmpStatus | undefined>;
+}
+
+/**
+ * Axelarscan searchGMP API (block timestamps are in seconds)
+ */
+export function createAxelarscanClient(baseUrl: string = AXELARSCAN_API_BASE): AxelarGmpClient {
+    const toMs = (seconds: unknown) => typeof seconds === "number" ? seconds * 1000 : undefined;
+
+    return {
+        async getStatus(sourceTxHash: string): Promise<GmpStatus | undefined> {
+            const res = await fetch(`${baseUrl}/gmp/searchGMP`, {
+                method: "POST",
+                headers: { "content-type": "application/json", accept: "application/json" },
+                body: JSON.stringify({ txHash: sourceTxHash }),
+            });
+            if (!res.ok) throw new Error(`Axelarscan HTTP ${res.status}`);
+
+            const json = await res.json();
+            const gmp = json?.data?.[0];
+            if (!gmp) return undefined;
+
+            return {
+                messageId: gmp.message_id ?? gmp.call?.returnValues?.messageId ?? gmp.call?.id,
+                status: gmp.status ?? "unknown",
+                confirmedAt: toMs(gmp.confirm?.block_timestamp),
+                approvedAt: toMs(gmp.approved?.block_timestamp),
+                executedAt: toMs(gmp.executed?.block_timestamp),
+                executedTxHash: gmp.executed?.transactionHash,
+            };
+        },
+    };
+}
+
+let gmpClient: AxelarGmpClient = createAxelarscanClient();
+
+/** Replace the GMP status client (e.g. with a mock) */
+export function setAxelarGmpClient(client: AxelarGmpClient) {
+    gmpClient = client;
+}
+
+export interface GmpTracker {
+    /**
+     * Wait for the arrival, then poll until the message is executed (a few polls at most)
+     * and settle with the arrival outcome
+     */
+    until<T>(arrival: Promise<T>): Promise<T>;
+}
+
+/**
+ * Poll the GMP status of the run's source tx while the arrival is observed.
+ * The message id is stored in ctx.txs.bridgeMessageId and the milestones in ctx.ts.
+ * Status errors are only logged: the tracking never fails the run.
+ */
+export function trackGmpStatus(ctx: RunContext, client: AxelarGmpClient = gmpClient): GmpTracker {
+    const pollIntervalMs = resolveTimings(ctx).pollIntervalMs ?? GMP_POLL_INTERVAL_MS;
+    let last: GmpStatus | undefined;
+
+    const poll = async () => {
+        const sourceTxHash = ctx.txs.sourceTxHash;
+        if (!sourceTxHash) return;
+
+        try {
+            const status = await client.getStatus(sourceTxHash);
+            if (!status) return;
+
+            if (status.messageId && !ctx.txs.bridgeMessageId) {
+                ctx.txs.bridgeMessageId = status.messageId;
+                console.log(chalk.dim(`   GMP message: ${status.messageId}`));
+            }
+            if (status.confirmedAt) ctx.ts.t_bridge_confirmed = status.confirmedAt;
+            if (status.approvedAt) ctx.ts.t_bridge_approved = status.approvedAt;
+            if (status.executedAt) ctx.ts.t_bridge_executed = status.executedAt;
+
+            if (status.status !== last?.status) {
+                (ctx.bridgePhases ??= []).push({ status: status.status, at: Date.now() });
+                console.log(chalk.dim(`   GMP status: ${status.status}`));
+            }
+            last = status;
+        } catch (err) {
+            console.log(chalk.dim(`   GMP status lookup failed: ${err instanceof Error ? err.message : String(err)}`));
+        }
+    };
+
+    let polling = poll();
+    const interval = setInterval(() => {
+        polling = polling.then(poll);
+    }, pollIntervalMs);
+
+    return {
+        async until<T>(arrival: Promise<T>): Promise<T> {
+            let result: T;
+            try {
+                result = await arrival;
+            } finally {
+                clearInterval(interval);
+                await polling;
+            }
+            // A timed-out or failed observation settles right away, without the final polls
+            for (let i = 0; i < GMP_FINAL_POLLS && !last?.executedAt; i++) {
+                await new Promise(r => setTimeout(r, i === 0 ? 0 : pollIntervalMs / 2));
+                await poll();
+            }
+            return result;
+        },
+    };
+}
@@ -0,0 +1,51 @@
+import { formatUnits } from "viem";
+import type { ExpectedArrival } from "../../types";
+import { SQUID_INTEGRATOR_ID } from "../../utils/environment";
+import { NATIVE_TOKEN_ADDRESS } from "../../utils/constants";
+
+/**
+ * Amount and token the Squid route promises on the destination chain
+ */
+export function expectedArrivalFromRoute(route: any, requestId: string): ExpectedArrival {
+    const estimate = route?.estimate;
+    const decimals: number = estimate?.toToken?.decimals ?? 18;
+    const toTokenAddress: string | undefined = estimate?.toToken?.address;
+
+    const toUnits = (raw: string | undefined) => raw ? Number(formatUnits(BigInt(raw), decimals)) : undefined;
+
+    return {
+        amount: toUnits(estimate?.toAmount),
+        minAmount: toUnits(estimate?.toAmountMin),
+        token: toTokenAddress && toTokenAddress.toLowerCase() !== NATIVE_TOKEN_ADDRESS.toLowerCase() && toTokenAddress !== "xrp"
+            ? toTokenAddress
+            : undefined,
+        reference: requestId || undefined,
+    };
+}
+
+/**
+ * Destination tx hash of a Squid transfer from the Squid status API (undefined until it is delivered)
+ */
+export async function fetchSquidDeliveryTxHashes(
+    transactionId: string | undefined,
+    requestId: string | undefined,
+    fromChainId: string,
+    toChainId: string
+): Promise<string[] | undefined> {
+    if (!transactionId) return undefined;
+
+    const params = new URLSearchParams({ transactionId, fromChainId, toChainId });
+    if (requestId) params.set("requestId", requestId);
+
+    const res = await fetch(`https://v2.api.squidrouter.com/v2/status?${params}`, {
+        headers: { "x-integrator-id": SQUID_INTEGRATOR_ID },
+    });
+
+    // Not indexed yet
+    if (res.status === 404) return undefined;
+    if (!res.ok) throw new Error(`Squid status HTTP ${res.status}`);
+
+    const data = await res.json();
+    const deliveryTxHash: string | undefined = data?.toChain?.transactionId;
+    return deliveryTxHash ? [deliveryTxHash] : undefined;
+}
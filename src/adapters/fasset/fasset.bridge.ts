@@ -0,0 +1,39 @@
+import type { BridgeDefinition } from "../../types";
+import { CHAINS } from "../../utils/chains";
+import { xrplAdapter } from "./fasset.xrpl.adapter";
+import { flareAdapter } from "./fasset.flare.adapter";
+
+/** FAsset (FXRP) between XRPL and Flare - transfers are performed manually in the FAsset UI */
+export const fassetBridge = {
+    id: "fasset",
+    displayName: "FAsset",
+    description: "Flare Asset bridge",
+    routes: [
+        {
+            direction: "xrpl_to_flare" as const,
+            description: "XRPL to Flare - Manual bridge",
+            source: CHAINS.xrpl,
+            target: CHAINS.flare,
+            sourceAdapter: xrplAdapter,
+            targetAdapter: flareAdapter,
+            amountUnit: "XRP",
+            defaults: { amount: 10, runs: 1 },
+            constraints: { fixedAmount: true, fixedRuns: true, manual: true },
+            // Reservation, XRPL payment and FDC proof of the minting: usually 5-10 min, longer when the UI is slow
+            timings: { observeTimeoutMs: 30 * 60_000, pollIntervalMs: 3000 },
+        },
+        {
+            direction: "flare_to_xrpl" as const,
+            description: "Flare to XRPL - Manual bridge",
+            source: CHAINS.flare,
+            target: CHAINS.xrpl,
+            sourceAdapter: flareAdapter,
+            targetAdapter: xrplAdapter,
+            amountUnit: "FXRP",
+            defaults: { amount: 10, runs: 1 },
+            constraints: { fixedAmount: true, fixedRuns: true, manual: true },
+            // The agent pays the redemption on XRPL within its payment window, which can exceed 30 min
+            timings: { observeTimeoutMs: 60 * 60_000, pollIntervalMs: 3000 },
+        },
+    ],
+} satisfies BridgeDefinition<string>;
@@ -1,8 +1,11 @@
 import chalk from "chalk";
-import { Address, createPublicClient, createWalletClient, erc20Abi, formatEther, formatUnits, http } from "viem";
+import { Address, createPublicClient, createWalletClient, erc20Abi, formatEther, formatUnits, http, parseEventLogs } from "viem";
 import { flare } from "viem/chains";
-import { BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
+import { ArrivalCorrelation, BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
 import { getEvmAccount } from "../../utils/environment";
+import { createArrivalCorrelator } from "../../utils/correlation";
+import { backoffDelayMs, resolveTimings } from "../../utils/timing";
+import { EVM_NATIVE_DECIMALS, rawAmount, rawToNumber } from "../../utils/amounts";
 
 // FXRP Token Address on Flare
 const FXRP_TOKEN_ADDRESS: Address = "0xAd552A648C74D49E10027AB8a618A3ad4901c5bE";
@@ -63,15 +66,15 @@ export const flareAdapter: ChainAdapter = {
     async prepare(ctx: RunContext) {
         const publicClient = createPublicClient({
             chain: flare,
-            transport: http()
+            transport: http(ctx.cfg.networks.evmRpcUrls?.flare)
         });
 
         const walletClient = createWalletClient({
             chain: flare,
-            transport: http()
+            transport: http(ctx.cfg.networks.evmRpcUrls?.flare)
         });
 
-        const account = getEvmAccount();
+        const account = getEvmAccount(ctx.accountIndex);
         ctx.cache.evm = { publicClient, walletClient, account, chain: flare };
 
         console.log(chalk.cyan(`\n🔧 Flare Adapter prepared`));
@@ -159,7 +162,8 @@ export const flareAdapter: ChainAdapter = {
         console.log(chalk.bold.cyan('🔗 Use FSwap to bridge: ') + chalk.blue.underline('https://fswap.luminite.app/'));
         console.log(chalk.cyan('═'.repeat(60)));
 
-        const timeoutMs = 10 * 60_000; // 10 minutes
+        const timings = resolveTimings(ctx);
+        const timeoutMs = timings.observeTimeoutMs;
 
         // Get FXRP token decimals for correct amount formatting
         let fxrpDecimals = 18;
@@ -195,7 +199,7 @@ export const flareAdapter: ChainAdapter = {
                     if (!finished) {
                         finished = true;
                         clearInterval(pollInterval);
-                        reject(new Error("Timeout: No FXRP approval detected within 10 minutes"));
+                        reject(new Error(`Timeout: No FXRP approval detected within ${timeoutMs / 60_000} minutes`));
                     }
                 }, timeoutMs);
 
@@ -253,10 +257,10 @@ export const flareAdapter: ChainAdapter = {
                     }
                 };
 
-                // Poll every 3 seconds
-                const pollInterval = setInterval(checkForApprovals, 3000);
+                // Poll every 3 seconds by default
+                const pollInterval = setInterval(checkForApprovals, timings.pollIntervalMs ?? 3000);
 
-                // Check immediately (don't wait 3 seconds for first check)
+                // Check immediately (don't wait for the first interval)
                 checkForApprovals();
             });
 
@@ -293,7 +297,7 @@ export const flareAdapter: ChainAdapter = {
             };
 
             const timeoutId = setTimeout(() => {
-                rejectOnce(new Error("Timeout: No outgoing FXRP transfer detected within 10 minutes"));
+                rejectOnce(new Error(`Timeout: No outgoing FXRP transfer detected within ${timeoutMs / 60_000} minutes`));
             }, timeoutMs);
             ctx.cleaner.trackTimer(timeoutId);
 
@@ -301,7 +305,7 @@ export const flareAdapter: ChainAdapter = {
             const maxConsecutiveErrors = 10;
 
             const checkForTransfers = async (toBlock: bigint) => {
-                const maxRetries = 3;
+                const maxRetries = timings.retries;
 
                 for (let attempt = 1; attempt <= maxRetries; attempt++) {
                     try {
@@ -359,7 +363,8 @@ export const flareAdapter: ChainAdapter = {
                             const to = (log as any).args?.to as string;
                             const value = (log as any).args?.value as bigint | undefined;
 
-                            const transferAmount = value ? Number(formatUnits(value, fxrpDecimals)) : 0;
+                            const transferAmountRaw = rawAmount(value ?? 0n, fxrpDecimals);
+                            const transferAmount = rawToNumber(transferAmountRaw);
 
                             console.log(chalk.green(`\n✅ Found OUTGOING FXRP transfer!`));
                             console.log(chalk.dim(`   To: ${to}`));
@@ -371,8 +376,9 @@ export const flareAdapter: ChainAdapter = {
                             const gasUsed = receipt.gasUsed;
                             const effectiveGasPrice = receipt.effectiveGasPrice || 0n;
                             const gasFeeWei = gasUsed * effectiveGasPrice;
-                            const txFee = Number(formatEther(gasFeeWei));
+                            const txFeeRaw = rawAmount(gasFeeWei, EVM_NATIVE_DECIMALS);
                             const submittedAt = Date.now();
+                            const blockTimestamp = Number((await publicClient.getBlock({ blockNumber: log.blockNumber ?? undefined })).timestamp) * 1000;
 
                             // Store deposit address for potential filtering in observe
                             if (ctx.cache.evm) {
@@ -383,9 +389,13 @@ export const flareAdapter: ChainAdapter = {
                                 xrpAmount: transferAmount,
                                 txHash: log.transactionHash as Address,
                                 submittedAt,
-                                txFee,
+                                txFee: rawToNumber(txFeeRaw),
+                                xrpAmountRaw: transferAmountRaw,
+                                txFeeRaw,
                                 currency: 'XRP',
+                                blockTimestamp,
                                 approvalFee: approvalFee > 0 ? approvalFee : undefined,
+                                approvalFeeRaw: approvalFee > 0 ? rawAmount(approvalFeeWei, EVM_NATIVE_DECIMALS) : undefined,
                                 approvalTxHash: approvalTxHash,
                             });
                         }
@@ -398,7 +408,7 @@ export const flareAdapter: ChainAdapter = {
                         const errorMsg = err?.details || err?.message || 'Unknown error';
 
                         if (attempt < maxRetries) {
-                            const waitTime = attempt * 1000; // 1s, 2s
+                            const waitTime = backoffDelayMs(timings, attempt, 1000); // Default: 1s, 2s
                             console.warn(chalk.yellow(`⚠️  RPC error (attempt ${attempt}/${maxRetries}, status ${statusCode}): ${errorMsg.substring(0, 100)}`));
                             console.warn(chalk.yellow(`   Retrying in ${waitTime/1000}s...`));
                             await new Promise(resolve => setTimeout(resolve, waitTime));
@@ -448,7 +458,8 @@ export const flareAdapter: ChainAdapter = {
         const { publicClient, account } = ctx.cache.evm!;
         if (!publicClient || !account) throw new Error("EVM not prepared");
 
-        const timeoutMs = 10 * 60_000;
+        const timings = resolveTimings(ctx);
+        const timeoutMs = timings.observeTimeoutMs;
         const depositAddress = (ctx.cache.evm as any).depositAddress;
 
         // Get FXRP token decimals for correct amount formatting
@@ -465,8 +476,9 @@ export const flareAdapter: ChainAdapter = {
         }
 
         // There's already a 10s wait between runs in index.ts, so no need to skip blocks
+        // Start from the block recorded before submit when available
         const currentBlock = await publicClient.getBlockNumber();
-        const startBlock = currentBlock;
+        const startBlock = ctx.observeFrom?.evmBlock ?? currentBlock;
 
         console.log(chalk.cyan(`\n🔍 Watching for INCOMING FXRP transfer to ${account.address}...`));
         console.log(chalk.dim(`   Starting from block ${startBlock}`));
@@ -474,6 +486,9 @@ export const flareAdapter: ChainAdapter = {
             console.log(chalk.dim(`   Excluding transfers FROM deposit address: ${depositAddress}`));
         }
 
+        // Manual bridge: no quote to check against, the match is recorded as unverified
+        const correlator = createArrivalCorrelator(ctx);
+
         return await new Promise<TargetOutput>((resolve, reject) => {
             let finished = false;
             let unwatch: (() => void) | undefined;
@@ -495,7 +510,7 @@ export const flareAdapter: ChainAdapter = {
             };
 
             const timeoutId = setTimeout(() => {
-                rejectOnce(new Error("Timeout: No incoming FXRP transfer received within 10 minutes"));
+                rejectOnce(new Error(`Timeout: No incoming FXRP transfer received within ${timeoutMs / 60_000} minutes`));
             }, timeoutMs);
             ctx.cleaner.trackTimer(timeoutId);
 
@@ -503,26 +518,30 @@ export const flareAdapter: ChainAdapter = {
             const maxConsecutiveErrors = 10;
 
             const checkForTransfers = async (toBlock: bigint) => {
-                const maxRetries = 3;
+                const maxRetries = timings.retries;
 
                 for (let attempt = 1; attempt <= maxRetries; attempt++) {
                     try {
                         // Watch for INCOMING transfers (to = our account)
                         // Use chunked queries to avoid Flare's 30-block limit
-                        const logs = await getLogsInChunks(publicClient, {
-                            address: FXRP_TOKEN_ADDRESS,
-                            event: {
-                                type: "event",
-                                name: "Transfer",
-                                inputs: [
-                                    { indexed: true, name: "from", type: "address" },
-                                    { indexed: true, name: "to", type: "address" },
-                                    { indexed: false, name: "value", type: "uint256" },
-                                ],
-                            },
-                            fromBlock: startBlock,
-                            toBlock: toBlock,
-                            args: { to: account.address }, // INCOMING transfers to our account
+                        const logs = parseEventLogs({
+                            abi: erc20Abi,
+                            eventName: "Transfer",
+                            logs: await getLogsInChunks(publicClient, {
+                                address: FXRP_TOKEN_ADDRESS,
+                                event: {
+                                    type: "event",
+                                    name: "Transfer",
+                                    inputs: [
+                                        { indexed: true, name: "from", type: "address" },
+                                        { indexed: true, name: "to", type: "address" },
+                                        { indexed: false, name: "value", type: "uint256" },
+                                    ],
+                                },
+                                fromBlock: startBlock,
+                                toBlock: toBlock,
+                                args: { to: account.address }, // INCOMING transfers to our account
+                            }),
                         });
 
                         consecutiveErrors = 0;
@@ -534,10 +553,9 @@ export const flareAdapter: ChainAdapter = {
                         // For FAsset manual bridge, accept ANY transfer (no amount filtering)
                         // Amount validation issues due to token decimals/wrapping - just take first transfer
                         const incomingLogs = logs.filter((log) => {
-                            const from = (log as any).args?.from as string | undefined;
-                            const fromLower = from?.toLowerCase();
+                            const { from, value } = log.args;
+                            const fromLower = from.toLowerCase();
                             const depositLower = depositAddress?.toLowerCase();
-                            const value = (log as any).args?.value as bigint | undefined;
 
                             // Log transfer for visibility
                             if (value) {
@@ -567,13 +585,28 @@ export const flareAdapter: ChainAdapter = {
                             return true;
                         });
 
-                        // Take the first incoming transfer
-                        const log = incomingLogs.length > 0 ? incomingLogs[0] : undefined;
+                        // Take the first incoming transfer that correlates with this run's transfer
+                        const foundAt = Date.now();
+                        let log: (typeof incomingLogs)[number] | undefined;
+                        let correlation: ArrivalCorrelation | null = null;
+                        for (const candidate of incomingLogs) {
+                            const candidateValue = candidate.args.value;
+                            correlation = await correlator.match({
+                                txHash: candidate.transactionHash as string,
+                                seenAt: foundAt,
+                                amount: candidateValue ? Number(formatUnits(candidateValue, fxrpDecimals)) : 0,
+                                token: candidate.address,
+                            });
+                            if (correlation) {
+                                log = candidate;
+                                break;
+                            }
+                        }
 
-                        if (log) {
-                            const from = (log as any).args?.from as string;
-                            const value = (log as any).args?.value as bigint | undefined;
-                            const transferAmount = value ? Number(formatUnits(value, fxrpDecimals)) : 0;
+                        if (log && correlation) {
+                            const { from, value } = log.args;
+                            const transferAmountRaw = rawAmount(value, fxrpDecimals);
+                            const transferAmount = rawToNumber(transferAmountRaw);
 
                             console.log(chalk.green(`\n✅ Found INCOMING FXRP transfer!`));
                             console.log(chalk.dim(`   From: ${from}`));
@@ -585,14 +618,25 @@ export const flareAdapter: ChainAdapter = {
                             const gasUsed = receipt.gasUsed;
                             const effectiveGasPrice = receipt.effectiveGasPrice || 0n;
                             const gasFeeWei = gasUsed * effectiveGasPrice;
-                            const txFee = Number(formatEther(gasFeeWei));
+                            const txFeeRaw = rawAmount(gasFeeWei, EVM_NATIVE_DECIMALS);
+
+                            // On-chain time of the arrival, a recovered transfer is dated by it rather than by when it is found
+                            const blockTimestamp = Number((await publicClient.getBlock({ blockNumber: log.blockNumber ?? undefined })).timestamp) * 1000;
+                            const finalizedAt = ctx.recovered ? blockTimestamp : foundAt;
+                            // The transfer may have been seen, and rejected, on an earlier poll
+                            const includedAt = ctx.recovered ? blockTimestamp : correlator.firstSeenAt(log.transactionHash as string);
 
                             resolveOnce({
                                 xrpAmount: transferAmount,
                                 txHash: log.transactionHash as Address,
-                                finalizedAt: Date.now(),
-                                txFee,
+                                includedAt,
+                                finalizedAt,
+                                blockTimestamp,
+                                txFee: rawToNumber(txFeeRaw),
+                                xrpAmountRaw: transferAmountRaw,
+                                txFeeRaw,
                                 currency: 'XRP',
+                                correlation,
                             });
                         }
 
@@ -604,7 +648,7 @@ export const flareAdapter: ChainAdapter = {
                         const errorMsg = err?.details || err?.message || 'Unknown error';
 
                         if (attempt < maxRetries) {
-                            const waitTime = attempt * 1000;
+                            const waitTime = backoffDelayMs(timings, attempt, 1000);
                             console.warn(chalk.yellow(`⚠️  RPC error (attempt ${attempt}/${maxRetries}, status ${statusCode}): ${errorMsg.substring(0, 100)}`));
                             console.warn(chalk.yellow(`   Retrying in ${waitTime/1000}s...`));
                             await new Promise(resolve => setTimeout(resolve, waitTime));
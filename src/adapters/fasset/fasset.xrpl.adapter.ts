@@ -1,6 +1,11 @@
-import { Client, dropsToXrp } from "xrpl";
+import { Client } from "xrpl";
 import type { BalanceCheckResult, ChainAdapter, RunContext, SourceOutput, TargetOutput, GasRefundOutput } from "../../types";
 import { getXrplWallet } from "../../utils/environment";
+import { createAccountTxFeed } from "../../utils/xrpl-history";
+import { xrplCloseTimeMs } from "../../utils/time";
+import { createArrivalCorrelator, decodeXrplMemos } from "../../utils/correlation";
+import { resolveTimings } from "../../utils/timing";
+import { EVM_NATIVE_DECIMALS, rawAmount, rawToNumber, XRP_DECIMALS } from "../../utils/amounts";
 import chalk from "chalk";
 import { Address, createPublicClient, erc20Abi, formatEther, http } from "viem";
 import { flare } from "viem/chains";
@@ -65,7 +70,7 @@ export const xrplAdapter: ChainAdapter = {
         const client = new Client(ctx.cfg.networks.xrpl.wsUrl);
         await client.connect();
 
-        const wallet = getXrplWallet();
+        const wallet = getXrplWallet(ctx.accountIndex);
         ctx.cache.xrpl = { client, wallet };
         ctx.cleaner.trackXrpl(client, wallet.address);
 
@@ -125,11 +130,12 @@ export const xrplAdapter: ChainAdapter = {
         // Create Flare EVM client for approval monitoring
         const publicClient = createPublicClient({
             chain: flare,
-            transport: http()
+            transport: http(ctx.cfg.networks.evmRpcUrls?.flare)
         });
-        const evmAccount = getEvmAccount();
+        const evmAccount = getEvmAccount(ctx.accountIndex);
 
-        const timeoutMs = 10 * 60_000; // 10 minutes
+        const timings = resolveTimings(ctx);
+        const timeoutMs = timings.observeTimeoutMs;
 
         // Get FXRP token decimals for correct amount formatting
         let fxrpDecimals = 18;
@@ -166,7 +172,7 @@ export const xrplAdapter: ChainAdapter = {
                     if (!finished) {
                         finished = true;
                         clearInterval(pollInterval);
-                        reject(new Error("Timeout: No reserveCollateral transaction detected within 10 minutes"));
+                        reject(new Error(`Timeout: No reserveCollateral transaction detected within ${timeoutMs / 60_000} minutes`));
                     }
                 }, timeoutMs);
 
@@ -234,10 +240,10 @@ export const xrplAdapter: ChainAdapter = {
                     }
                 };
 
-                // Poll every 3 seconds
-                const pollInterval = setInterval(checkForReserveCollateral, 3000);
+                // Poll every 3 seconds by default
+                const pollInterval = setInterval(checkForReserveCollateral, timings.pollIntervalMs ?? 3000);
 
-                // Check immediately (don't wait 3 seconds for first check)
+                // Check immediately (don't wait for the first interval)
                 checkForReserveCollateral();
             });
 
@@ -273,8 +279,8 @@ export const xrplAdapter: ChainAdapter = {
             };
 
             const timeoutId = setTimeout(() => {
-                rejectOnce(new Error("Timeout: No outgoing XRP payment detected within 10 minutes"));
-            }, 10 * 60_000); // 10 minute timeout
+                rejectOnce(new Error(`Timeout: No outgoing XRP payment detected within ${timeoutMs / 60_000} minutes`));
+            }, timeoutMs);
             ctx.cleaner.trackTimer(timeoutId);
 
             const onTx = (data: any) => {
@@ -296,8 +302,10 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    const deliveredXrp = Number(dropsToXrp(meta?.delivered_amount || tx.Amount));
-                    const txFeeXrp = Number(dropsToXrp(tx.Fee));
+                    const deliveredRaw = rawAmount(meta?.delivered_amount || tx.Amount, XRP_DECIMALS);
+                    const txFeeRaw = rawAmount(tx.Fee, XRP_DECIMALS);
+                    const deliveredXrp = rawToNumber(deliveredRaw);
+                    const txFeeXrp = rawToNumber(txFeeRaw);
                     const submittedAt = Date.now();
 
                     console.log(chalk.green(`\n✅ Found OUTGOING XRP payment!`));
@@ -324,8 +332,12 @@ export const xrplAdapter: ChainAdapter = {
                         txHash: data.hash,
                         submittedAt,
                         txFee: txFeeXrp,
+                        xrpAmountRaw: deliveredRaw,
+                        txFeeRaw,
                         currency: 'XRP',
+                        blockTimestamp: xrplCloseTimeMs(data),
                         approvalFee: reserveCollateralFee > 0 ? reserveCollateralFee : undefined,
+                        approvalFeeRaw: reserveCollateralFee > 0 ? rawAmount(reserveCollateralFeeWei, EVM_NATIVE_DECIMALS) : undefined,
                         approvalTxHash: reserveCollateralTxHash,
                     });
                 } catch (err) {
@@ -359,8 +371,10 @@ export const xrplAdapter: ChainAdapter = {
         const { client, wallet, depositAddress } = ctx.cache.xrpl!;
         if (!client || !wallet) throw new Error("XRPL not prepared");
 
-        // Record when observation starts
-        const observeStartTime = Date.now();
+        const timeoutMs = resolveTimings(ctx).observeTimeoutMs;
+
+        // Record when observation starts (or use the time recorded before submit)
+        const observeStartTime = ctx.observeFrom?.timestamp ?? Date.now();
 
         console.log(chalk.cyan(`\n🔍 Watching for INCOMING XRP payment to ${wallet.address}...`));
         console.log(chalk.dim(`   Only accepting transactions after ${new Date(observeStartTime).toISOString()}`));
@@ -368,6 +382,9 @@ export const xrplAdapter: ChainAdapter = {
             console.log(chalk.dim(`   Excluding payments FROM deposit address: ${depositAddress}`));
         }
 
+        // Manual bridge: no quote to check against, the match is recorded as unverified
+        const correlator = createArrivalCorrelator(ctx);
+
         return await new Promise<TargetOutput>((resolve, reject) => {
             let finished = false;
 
@@ -375,7 +392,7 @@ export const xrplAdapter: ChainAdapter = {
                 if (finished) return;
                 finished = true;
                 try { clearTimeout(timeoutId); } catch { }
-                try { client.off("transaction", onTx); } catch { }
+                try { client.off("transaction", feed.onStream); } catch { }
                 resolve(v);
             };
 
@@ -383,13 +400,13 @@ export const xrplAdapter: ChainAdapter = {
                 if (finished) return;
                 finished = true;
                 try { clearTimeout(timeoutId); } catch { }
-                try { client.off("transaction", onTx); } catch { }
+                try { client.off("transaction", feed.onStream); } catch { }
                 reject(e instanceof Error ? e : new Error(String(e)));
             };
 
             const timeoutId = setTimeout(() => {
-                rejectOnce(new Error("Timeout: No incoming XRP payment received within 10 minutes"));
-            }, 10 * 60_000);
+                rejectOnce(new Error(`Timeout: No incoming XRP payment received within ${timeoutMs / 60_000} minutes`));
+            }, timeoutMs);
             ctx.cleaner.trackTimer(timeoutId);
 
             const onTx = (data: any) => {
@@ -410,9 +427,14 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    const deliveredXrp = Number(dropsToXrp(meta?.delivered_amount || tx.Amount));
-                    const txFeeXrp = Number(dropsToXrp(tx.Fee));
-                    const finalizedAt = Date.now();
+                    const deliveredRaw = rawAmount(meta?.delivered_amount || tx.Amount, XRP_DECIMALS);
+                    const txFeeRaw = rawAmount(tx.Fee, XRP_DECIMALS);
+                    const deliveredXrp = rawToNumber(deliveredRaw);
+                    const txFeeXrp = rawToNumber(txFeeRaw);
+
+                    // Backfilled payments are dated by their ledger close time (XRPL uses Ripple epoch)
+                    const rippleEpochOffset = 946684800;
+                    const seenAt = data.backfilled && tx.date ? (tx.date + rippleEpochOffset) * 1000 : Date.now();
 
                     // Skip small gas return transactions (< 0.001 XRP)
                     if (deliveredXrp < 0.001) {
@@ -420,36 +442,58 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    console.log(chalk.green(`\n✅ Found INCOMING XRP payment!`));
-                    console.log(chalk.dim(`   From: ${tx.Account}`));
-                    console.log(chalk.dim(`   Amount: ${deliveredXrp.toFixed(3)} XRP`));
-                    console.log(chalk.dim(`   Fee: ${txFeeXrp.toFixed(3)} XRP`));
-                    console.log(chalk.dim(`   Tx: ${data.hash}`));
-                    console.log(chalk.dim(`   Explorer: https://livenet.xrpl.org/transactions/${data.hash}`));
-
-                    resolveOnce({
-                        xrpAmount: deliveredXrp,
+                    correlator.match({
                         txHash: data.hash,
-                        finalizedAt,
-                        txFee: txFeeXrp,
-                        currency: 'XRP',
-                    });
+                        seenAt,
+                        amount: deliveredXrp,
+                        memos: decodeXrplMemos(tx),
+                    }).then(correlation => {
+                        if (!correlation) return;
+
+                        console.log(chalk.green(`\n✅ Found INCOMING XRP payment!`));
+                        console.log(chalk.dim(`   From: ${tx.Account}`));
+                        console.log(chalk.dim(`   Amount: ${deliveredXrp.toFixed(3)} XRP`));
+                        console.log(chalk.dim(`   Fee: ${txFeeXrp.toFixed(3)} XRP`));
+                        console.log(chalk.dim(`   Tx: ${data.hash}`));
+                        console.log(chalk.dim(`   Explorer: https://livenet.xrpl.org/transactions/${data.hash}`));
+
+                        resolveOnce({
+                            xrpAmount: deliveredXrp,
+                            txHash: data.hash,
+                            includedAt: seenAt,
+                            finalizedAt: seenAt,
+                            blockTimestamp: xrplCloseTimeMs(data),
+                            txFee: txFeeXrp,
+                            xrpAmountRaw: deliveredRaw,
+                            txFeeRaw,
+                            currency: 'XRP',
+                            correlation,
+                        });
+                    }).catch(rejectOnce);
                 } catch (err) {
                     rejectOnce(err);
                 }
             };
 
-            client.on("transaction", onTx);
+            const feed = createAccountTxFeed(client, wallet.address, onTx, () => finished);
+            client.on("transaction", feed.onStream);
 
             client.request({ command: "subscribe", accounts: [wallet.address] })
                 .then(() => {
                     console.log(chalk.dim(`   ✓ Subscribed to real-time transaction stream`));
                     ctx.cleaner.add(async () => {
-                        try { client.off("transaction", onTx); } catch { }
+                        try { client.off("transaction", feed.onStream); } catch { }
                         try {
                             await client.request({ command: "unsubscribe", accounts: [wallet.address] });
                         } catch { }
                     });
+
+                    // Replay the payments validated since the ledger recorded before submit, then go live
+                    const fromLedger = ctx.observeFrom?.xrplLedger;
+                    if (fromLedger !== undefined) {
+                        console.log(chalk.dim(`   Backfilling account history from ledger ${fromLedger}`));
+                    }
+                    return feed.start(fromLedger);
                 })
                 .catch((err: unknown) => {
                     rejectOnce(err);
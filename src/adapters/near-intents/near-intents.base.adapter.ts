@@ -1,35 +1,44 @@
 import { Address, createPublicClient, createWalletClient, erc20Abi, formatEther, formatUnits, http, parseUnits } from "viem";
 import chalk from "chalk";
-import { BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
+import { ArrivalCorrelation, BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
 import { base } from "../../utils/chains";
 import { NEAR_INTENTS_TOKEN_IDS, USDC_BASE_ADDRESS } from "../../utils/constants";
 import { getEvmAccount, ONE_CLICK_JWT } from "../../utils/environment";
 import { OneClickService, OpenAPI, QuoteRequest } from "@defuse-protocol/one-click-sdk-typescript";
 import { convertToUsd } from "../../utils/price-converter";
-import { askPriceConversionAction, BatchAbortedException, RunIgnoredException } from "../../utils/data-integrity";
+import { priceSourceFor } from "../../utils/price-sources";
+import { BatchAbortedException, decidePriceConversionIssue, describeDecision, RunIgnoredException } from "../../utils/data-integrity";
+import { createArrivalCorrelator } from "../../utils/correlation";
+import { expectedArrivalFromQuote, fetchNearDeliveryTxHashes, trackSwapStatus } from "./near-intents.status";
+import { backoffDelayMs, resolveTimings } from "../../utils/timing";
+import { EVM_NATIVE_DECIMALS, rawAmount, rawToNumber } from "../../utils/amounts";
+import { evmBlockTimeMs } from "../../utils/time";
 
 /**
- * Helper function to fetch XRP price with retry logic and user prompts
+ * Helper function to fetch XRP price with retry logic, then a prompt or the integrity policy
  */
-async function fetchXrpPriceWithRetry(): Promise<number> {
+async function fetchXrpPriceWithRetry(ctx: RunContext): Promise<number> {
     let retries = 3;
+    let failedRounds = 0;
 
     while (true) {
         try {
-            const price = await convertToUsd(1, 'XRP');
+            const price = await convertToUsd(1, 'XRP', undefined, priceSourceFor(ctx.cfg));
             return price;
         } catch (error) {
             retries--;
             if (retries === 0) {
-                const action = await askPriceConversionAction('XRP', 1, error as Error);
+                const flag = await decidePriceConversionIssue(ctx.cfg, 'XRP', 1, error as Error, ++failedRounds);
+                (ctx.integrityFlags ??= []).push(flag);
 
-                if (action === 'retry') {
+                if (flag.action === 'retry') {
                     retries = 3; // Reset retries
                     continue;
-                } else if (action === 'ignore-run') {
-                    throw new RunIgnoredException('User chose to ignore run due to failed XRP price fetch');
-                } else if (action === 'abort-batch') {
-                    throw new BatchAbortedException('User chose to abort batch due to failed XRP price fetch');
+                } else if (flag.action === 'ignore-run' || flag.action === 'save-anyway') {
+                    // The USDC amount cannot be computed without the price, the run cannot go on
+                    throw new RunIgnoredException(`${describeDecision(flag)} to ignore run due to failed XRP price fetch`, flag);
+                } else if (flag.action === 'abort-batch') {
+                    throw new BatchAbortedException(`${describeDecision(flag)} to abort batch due to failed XRP price fetch`, flag);
                 }
             }
         }
@@ -42,15 +51,15 @@ export const baseAdapter: ChainAdapter = {
 
         const publicClient = createPublicClient({
             chain: base,
-            transport: http()
+            transport: http(ctx.cfg.networks.evmRpcUrls?.base)
         });
 
         const walletClient = createWalletClient({
             chain: base,
-            transport: http()
+            transport: http(ctx.cfg.networks.evmRpcUrls?.base)
         });
 
-        const account = getEvmAccount();
+        const account = getEvmAccount(ctx.accountIndex);
         ctx.cache.evm = { publicClient, walletClient, account, chain: base };
     },
 
@@ -61,7 +70,7 @@ export const baseAdapter: ChainAdapter = {
 
         // Fetch real XRP price to calculate accurate USDC amount needed
         console.log(chalk.cyan('💱 Fetching XRP price...'));
-        const xrpPriceUsd = await fetchXrpPriceWithRetry();
+        const xrpPriceUsd = await fetchXrpPriceWithRetry(ctx);
         console.log(chalk.dim(`   XRP price: $${xrpPriceUsd.toFixed(4)}`));
 
         // Calculate USDC needed: XRP amount * XRP price + 10% slippage buffer
@@ -123,7 +132,7 @@ export const baseAdapter: ChainAdapter = {
 
         // Fetch real XRP price to calculate accurate USDC amount needed
         console.log(chalk.cyan('💱 Fetching XRP price...'));
-        const xrpPriceUsd = await fetchXrpPriceWithRetry();
+        const xrpPriceUsd = await fetchXrpPriceWithRetry(ctx);
         console.log(chalk.dim(`   XRP price: $${xrpPriceUsd.toFixed(4)}`));
 
         // Calculate USDC needed: XRP amount * XRP price + 10% slippage buffer
@@ -156,10 +165,11 @@ export const baseAdapter: ChainAdapter = {
             quoteWaitingTimeMs: 3000,
         };
 
-        // Retry logic for getting quote (max 3 attempts)
+        // Retry logic for getting quote (timings.retries attempts)
         let quote;
         let lastError;
-        const maxRetries = 3;
+        const timings = resolveTimings(ctx);
+        const maxRetries = timings.retries;
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
@@ -172,7 +182,7 @@ export const baseAdapter: ChainAdapter = {
                 console.log(`❌ Quote attempt ${attempt}/${maxRetries} failed: ${error.message || error}`);
 
                 if (attempt < maxRetries) {
-                    const waitTime = attempt * 2000; // Exponential backoff: 2s, 4s
+                    const waitTime = backoffDelayMs(timings, attempt, 2000); // Default: 2s, 4s
                     console.log(`⏳ Waiting ${waitTime/1000}s before retry...`);
                     await new Promise(resolve => setTimeout(resolve, waitTime));
                 } else {
@@ -197,6 +207,7 @@ export const baseAdapter: ChainAdapter = {
         const depositAddress = quote.quote?.depositAddress;
         ctx.cache.evm.depositAddress = depositAddress;
         ctx.txs.depositAddress = depositAddress; // Save for explorer URL generation
+        ctx.expected = expectedArrivalFromQuote(quote);
 
         console.log(`\n✅ Near Intents Quote Received:`);
         console.log(`   Deposit Address: ${depositAddress}`);
@@ -227,7 +238,9 @@ export const baseAdapter: ChainAdapter = {
         const gasUsed = receipt.gasUsed;
         const effectiveGasPrice = receipt.effectiveGasPrice || 0n;
         const gasFeeWei = gasUsed * effectiveGasPrice;
-        const txFee = Number(formatEther(gasFeeWei));
+        const txFeeRaw = rawAmount(gasFeeWei, EVM_NATIVE_DECIMALS);
+        const xrpAmountRaw = rawAmount(usdcAmount, 6);
+        const blockTimestamp = await evmBlockTimeMs(publicClient, receipt.blockNumber);
 
         // Store the block number for the observe function to use as starting point
         if (ctx.cache.evm) {
@@ -237,23 +250,35 @@ export const baseAdapter: ChainAdapter = {
         // For near-intents Base→XRPL, we send USDC (native stablecoin on source chain)
         // Record the actual USDC amount sent (including slippage buffer)
         // The user receives XRP converted from this full amount
-        return { xrpAmount: usdcAmountFloat, txHash, submittedAt, txFee, currency: 'USDC' };
+        return {
+            xrpAmount: rawToNumber(xrpAmountRaw),
+            txHash,
+            submittedAt,
+            txFee: rawToNumber(txFeeRaw),
+            xrpAmountRaw,
+            txFeeRaw,
+            currency: 'USDC',
+            blockTimestamp,
+        };
     },
 
     async observe(ctx: RunContext): Promise<TargetOutput> {
         const { publicClient, account, depositAddress } = ctx.cache.evm!;
         if (!publicClient || !account) throw new Error("EVM not prepared");
 
-        const timeoutMs = 10 * 60_000; // 10 minutes timeout
+        const timings = resolveTimings(ctx);
+        const timeoutMs = timings.observeTimeoutMs;
 
         // There's already a 10s wait between runs in index.ts, so no need to skip blocks
         const submitBlockNumber = (ctx.cache.evm as any).submitBlockNumber;
         const currentBlock = await publicClient.getBlockNumber();
-        const startBlock = submitBlockNumber || currentBlock;
+        const startBlock = submitBlockNumber || ctx.observeFrom?.evmBlock || currentBlock;
 
         console.log(`🔍 Watching for USDC transfers to ${account.address} on Base (from block ${startBlock})`);
         if (submitBlockNumber) {
             console.log(chalk.dim(`   Starting from submit block: ${submitBlockNumber}`));
+        } else if (ctx.observeFrom?.evmBlock !== undefined) {
+            console.log(chalk.dim(`   Starting from block before submit: ${startBlock}`));
         } else {
             console.log(chalk.dim(`   Starting from current block ${currentBlock}`));
         }
@@ -261,7 +286,13 @@ export const baseAdapter: ChainAdapter = {
             console.log(chalk.dim(`   Excluding transfers FROM deposit address: ${depositAddress}`));
         }
 
-        return await new Promise<TargetOutput>((resolve, reject) => {
+        // 1Click reports the withdrawal tx of the deposit address, otherwise the quoted amount is checked
+        const correlator = createArrivalCorrelator(ctx, () => fetchNearDeliveryTxHashes(ctx.txs.depositAddress));
+
+        // Swap lifecycle from 1Click, recorded while the arrival is observed
+        const swap = trackSwapStatus(ctx);
+
+        return await swap.until(new Promise<TargetOutput>((resolve, reject) => {
             let finished = false;
             let unwatch: (() => void) | undefined;
 
@@ -281,6 +312,9 @@ export const baseAdapter: ChainAdapter = {
                 reject(e instanceof Error ? e : new Error(String(e)));
             };
 
+            // A refunded or failed swap will never arrive
+            swap.onFailure(rejectOnce);
+
             const timeoutId = setTimeout(() => {
                 rejectOnce(new Error("Timeout: Near Intents execution not completed"));
             }, timeoutMs);
@@ -292,7 +326,7 @@ export const baseAdapter: ChainAdapter = {
 
             // Function to check for transfers in a given block range with retry logic
             const checkForTransfers = async (toBlock: bigint) => {
-                const maxRetries = 3;
+                const maxRetries = timings.retries;
                 let lastError;
 
                 for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -307,7 +341,7 @@ export const baseAdapter: ChainAdapter = {
                                     { indexed: true, name: "to", type: "address" },
                                     { indexed: false, name: "value", type: "uint256" },
                                 ],
-                            },
+                            } as const,
                             fromBlock: startBlock,
                             toBlock: toBlock,
                             args: { to: account.address },
@@ -322,7 +356,7 @@ export const baseAdapter: ChainAdapter = {
 
                         // Filter out the outgoing transfer to deposit address
                         const incomingLogs = logs.filter((log) => {
-                            const from = (log as any).args?.from as string | undefined;
+                            const from = log.args.from;
                             const fromLower = from?.toLowerCase();
                             const depositLower = depositAddress?.toLowerCase();
 
@@ -347,32 +381,59 @@ export const baseAdapter: ChainAdapter = {
                             return true;
                         });
 
-                        // Take the first incoming transfer (not the last)
-                        const log = incomingLogs.length > 0 ? incomingLogs[0] : undefined;
+                        // Take the first incoming transfer (not the last) that correlates with this run's transfer
+                        const foundAt = Date.now();
+                        let log: (typeof incomingLogs)[number] | undefined;
+                        let correlation: ArrivalCorrelation | null = null;
+                        for (const candidate of incomingLogs) {
+                            const candidateValue = candidate.args.value;
+                            correlation = await correlator.match({
+                                txHash: candidate.transactionHash as string,
+                                seenAt: foundAt,
+                                amount: candidateValue ? Number(formatUnits(candidateValue, 6)) : 0,
+                                token: candidate.address,
+                            });
+                            if (correlation) {
+                                log = candidate;
+                                break;
+                            }
+                        }
 
-                        if (log) {
-                            const from = (log as any).args?.from as string;
-                            const value = (log as any).args?.value as bigint | undefined;
-                            const targetAmount = value ? Number(formatUnits(value, 6)) : 0;
+                        if (log && correlation) {
+                            const { from, value } = log.args;
+                            const targetAmountRaw = rawAmount(value ?? 0n, 6);
+                            const targetAmount = rawToNumber(targetAmountRaw);
 
                             console.log(`✅ Found incoming USDC transfer!`);
                             console.log(`   From: ${from}`);
                             console.log(`   Amount: ${targetAmount} USDC`);
                             console.log(`   Tx: ${log.transactionHash}`);
+                            console.log(`   Matched by: ${correlation.method}`);
 
                             const receipt = await publicClient.getTransactionReceipt({ hash: log.transactionHash as Address });
                             const gasUsed = receipt.gasUsed;
                             const effectiveGasPrice = receipt.effectiveGasPrice || 0n;
                             const gasFeeWei = gasUsed * effectiveGasPrice;
-                            const txFee = Number(formatEther(gasFeeWei));
+                            const txFeeRaw = rawAmount(gasFeeWei, EVM_NATIVE_DECIMALS);
+
+                            // On-chain time of the arrival, a recovered transfer is dated by it rather than by when it is found
+                            const blockTimestamp = Number((await publicClient.getBlock({ blockNumber: log.blockNumber ?? undefined })).timestamp) * 1000;
+                            const finalizedAt = ctx.recovered ? blockTimestamp : foundAt;
+                            // The transfer may have been seen, and rejected, on an earlier poll
+                            const includedAt = ctx.recovered ? blockTimestamp : correlator.firstSeenAt(log.transactionHash as string);
 
                             // For near-intents XRPL→Base, we receive USDC (stablecoin on target chain)
                             resolveOnce({
                                 xrpAmount: targetAmount,
                                 txHash: log.transactionHash as Address,
-                                finalizedAt: Date.now(),
-                                txFee,
+                                includedAt,
+                                finalizedAt,
+                                blockTimestamp,
+                                txFee: rawToNumber(txFeeRaw),
+                                xrpAmountRaw: targetAmountRaw,
+                                txFeeRaw,
                                 currency: 'USDC',
+                                correlation,
                             });
                         }
 
@@ -386,7 +447,7 @@ export const baseAdapter: ChainAdapter = {
                         const errorMsg = err?.details || err?.message || 'Unknown error';
 
                         if (attempt < maxRetries) {
-                            const waitTime = attempt * 1000; // 1s, 2s
+                            const waitTime = backoffDelayMs(timings, attempt, 1000); // Default: 1s, 2s
                             console.warn(`⚠️  RPC error (attempt ${attempt}/${maxRetries}, status ${statusCode}): ${errorMsg.substring(0, 100)}`);
                             console.warn(`   Retrying in ${waitTime/1000}s...`);
                             await new Promise(resolve => setTimeout(resolve, waitTime));
@@ -428,7 +489,7 @@ export const baseAdapter: ChainAdapter = {
             });
 
             ctx.cleaner.trackViemUnwatch(unwatch);
-        });
+        }));
     },
 
     async observeGasRefund(ctx: RunContext): Promise<GasRefundOutput> {
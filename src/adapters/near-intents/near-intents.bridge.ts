@@ -0,0 +1,35 @@
+import type { BridgeDefinition } from "../../types";
+import { CHAINS } from "../../utils/chains";
+import { xrplAdapter } from "./near-intents.xrpl.adapter";
+import { baseAdapter } from "./near-intents.base.adapter";
+
+/** Near Intents (1Click API) between XRPL and Base */
+export const nearIntentsBridge = {
+    id: "near-intents",
+    displayName: "Near Intents",
+    description: "Intent-based bridge",
+    routes: [
+        {
+            direction: "xrpl_to_base" as const,
+            description: "XRPL to Base L2",
+            source: CHAINS.xrpl,
+            target: CHAINS.base,
+            sourceAdapter: xrplAdapter,
+            targetAdapter: baseAdapter,
+            amountUnit: "XRP",
+            defaults: { amount: 5, runs: 1 },
+            constraints: { minAmount: 2 },
+        },
+        {
+            direction: "base_to_xrpl" as const,
+            description: "Base L2 to XRPL",
+            source: CHAINS.base,
+            target: CHAINS.xrpl,
+            sourceAdapter: baseAdapter,
+            targetAdapter: xrplAdapter,
+            amountUnit: "XRP",
+            defaults: { amount: 5, runs: 1 },
+            constraints: { minAmount: 2 },
+        },
+    ],
+} satisfies BridgeDefinition<string>;
@@ -0,0 +1,118 @@
+import chalk from "chalk";
+import { GetExecutionStatusResponse, OneClickService } from "@defuse-protocol/one-click-sdk-typescript";
+import type { QuoteResponse } from "@defuse-protocol/one-click-sdk-typescript";
+import type { ExpectedArrival, RunContext } from "../../types";
+import { resolveTimings } from "../../utils/timing";
+
+const STATUS_POLL_INTERVAL_MS = 5_000; // Default, see RouteTimings.pollIntervalMs
+const STATUS_FINAL_POLLS = 3; // Polls after the arrival, 1Click can report SUCCESS after the withdrawal lands
+
+/**
+ * Amount the 1Click quote promises on the destination chain, referenced by its deposit address
+ */
+export function expectedArrivalFromQuote(quote: QuoteResponse): ExpectedArrival {
+    const amount = Number(quote.quote.amountOutFormatted);
+    const amountOutRaw = Number(quote.quote.amountOut);
+    const minAmountOutRaw = Number(quote.quote.minAmountOut);
+
+    return {
+        amount,
+        // minAmountOut is in raw units, scale it like amountOut
+        minAmount: amountOutRaw > 0 ? amount * (minAmountOutRaw / amountOutRaw) : undefined,
+        reference: quote.quote.depositAddress,
+    };
+}
+
+/**
+ * Destination tx hashes reported by 1Click for a deposit address (undefined until the withdrawal is known)
+ */
+export async function fetchNearDeliveryTxHashes(depositAddress: string | undefined): Promise<string[] | undefined> {
+    if (!depositAddress) return undefined;
+
+    const status = await OneClickService.getExecutionStatus(depositAddress);
+    const hashes = status.swapDetails?.destinationChainTxHashes?.map(t => t.hash) ?? [];
+    return hashes.length > 0 ? hashes : undefined;
+}
+
+export interface SwapStatusTracker {
+    /** Reject the observation when 1Click reports the swap as refunded or failed */
+    onFailure(reject: (err: Error) => void): void;
+    /**
+     * Wait for the arrival, then poll until the swap is reported successful (a few polls at most)
+     * and settle with the arrival outcome
+     */
+    until<T>(arrival: Promise<T>): Promise<T>;
+}
+
+/**
+ * Poll the 1Click execution status of the run's deposit address while the arrival is observed.
+ * Every status change is appended to ctx.bridgePhases; PROCESSING and SUCCESS also set
+ * ctx.ts.t_bridge_confirmed and ctx.ts.t_bridge_executed.
+ * REFUNDED and FAILED end the observation with a bridge error instead of waiting for the timeout.
+ */
+export function trackSwapStatus(ctx: RunContext): SwapStatusTracker {
+    const pollIntervalMs = resolveTimings(ctx).pollIntervalMs ?? STATUS_POLL_INTERVAL_MS;
+    let lastStatus: GetExecutionStatusResponse.status | undefined;
+    let failure: Error | undefined;
+    let onFailure: ((err: Error) => void) | undefined;
+
+    const poll = async () => {
+        const depositAddress = ctx.txs.depositAddress;
+        if (!depositAddress || failure) return;
+
+        try {
+            const res = await OneClickService.getExecutionStatus(depositAddress);
+            if (res.status === lastStatus) return;
+            lastStatus = res.status;
+
+            const at = Date.now();
+            (ctx.bridgePhases ??= []).push({ status: res.status, at });
+            console.log(chalk.dim(`   1Click status: ${res.status}`));
+
+            if (res.status === GetExecutionStatusResponse.status.PROCESSING) {
+                ctx.ts.t_bridge_confirmed = at;
+            } else if (res.status === GetExecutionStatusResponse.status.SUCCESS) {
+                ctx.ts.t_bridge_confirmed ??= at;
+                ctx.ts.t_bridge_executed = at;
+            } else if (res.status === GetExecutionStatusResponse.status.REFUNDED) {
+                const refunded = res.swapDetails?.refundedAmountFormatted;
+                failure = new Error(`Near Intents swap refunded${refunded ? ` (${refunded} returned)` : ''} for deposit address ${depositAddress}`);
+            } else if (res.status === GetExecutionStatusResponse.status.FAILED) {
+                failure = new Error(`Near Intents swap failed for deposit address ${depositAddress}`);
+            }
+
+            if (failure) onFailure?.(failure);
+        } catch (err) {
+            console.log(chalk.dim(`   1Click status lookup failed: ${err instanceof Error ? err.message : String(err)}`));
+        }
+    };
+
+    let polling = poll();
+    const interval = setInterval(() => {
+        polling = polling.then(poll);
+    }, pollIntervalMs);
+
+    const isSettled = () => failure !== undefined || lastStatus === GetExecutionStatusResponse.status.SUCCESS;
+
+    return {
+        onFailure(reject: (err: Error) => void) {
+            onFailure = reject;
+            if (failure) reject(failure);
+        },
+        async until<T>(arrival: Promise<T>): Promise<T> {
+            let result: T;
+            try {
+                result = await arrival;
+            } finally {
+                clearInterval(interval);
+                await polling;
+            }
+            // Only once the arrival resolved: a rejected observation (e.g. timeout) is not delayed
+            for (let i = 0; i < STATUS_FINAL_POLLS && !isSettled(); i++) {
+                await new Promise(r => setTimeout(r, i === 0 ? 0 : pollIntervalMs));
+                await poll();
+            }
+            return result;
+        },
+    };
+}
@@ -1,9 +1,18 @@
 import { OneClickService, OpenAPI, QuoteRequest } from "@defuse-protocol/one-click-sdk-typescript";
 import chalk from "chalk";
-import { Client, Payment, dropsToXrp, xrpToDrops } from "xrpl";
-import type { BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
+import { Client, Payment, xrpToDrops } from "xrpl";
+import type { ArrivalCorrelation, BalanceCheckResult, ChainAdapter, GasRefundOutput, RunContext, SourceOutput, TargetOutput } from "../../types";
 import { NEAR_INTENTS_TOKEN_IDS } from "../../utils/constants";
 import { ONE_CLICK_JWT, getXrplWallet } from "../../utils/environment";
+import { createAccountTxFeed } from "../../utils/xrpl-history";
+import { xrplCloseTimeMs } from "../../utils/time";
+import { ArrivalCandidate, createArrivalCorrelator, decodeXrplMemos, RECHECK_INTERVAL_MS } from "../../utils/correlation";
+import { expectedArrivalFromQuote, fetchNearDeliveryTxHashes, trackSwapStatus } from "./near-intents.status";
+import { backoffDelayMs, resolveTimings } from "../../utils/timing";
+import { rawAmount, rawToNumber, XRP_DECIMALS } from "../../utils/amounts";
+
+/** Incoming payment, resolved as the arrival of the run once it is matched */
+type PaymentCandidate = ArrivalCandidate & { onMatch: (correlation: ArrivalCorrelation, matchedAt: number) => void };
 
 export const xrplAdapter: ChainAdapter = {
 
@@ -11,7 +20,7 @@ export const xrplAdapter: ChainAdapter = {
         const client = new Client(ctx.cfg.networks.xrpl.wsUrl);
         await client.connect();
 
-        const wallet = getXrplWallet();
+        const wallet = getXrplWallet(ctx.accountIndex);
         ctx.cache.xrpl = { client, wallet };
         ctx.cleaner.trackXrpl(client, wallet.address);
     },
@@ -80,10 +89,11 @@ export const xrplAdapter: ChainAdapter = {
             quoteWaitingTimeMs: 3000,
         };
 
-        // Retry logic for getting quote (max 3 attempts)
+        // Retry logic for getting quote (timings.retries attempts)
         let quote;
         let lastError;
-        const maxRetries = 3;
+        const timings = resolveTimings(ctx);
+        const maxRetries = timings.retries;
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
@@ -96,7 +106,7 @@ export const xrplAdapter: ChainAdapter = {
                 console.log(`❌ Quote attempt ${attempt}/${maxRetries} failed: ${error.message || error}`);
 
                 if (attempt < maxRetries) {
-                    const waitTime = attempt * 2000; // Exponential backoff: 2s, 4s
+                    const waitTime = backoffDelayMs(timings, attempt, 2000); // Default: 2s, 4s
                     console.log(`⏳ Waiting ${waitTime/1000}s before retry...`);
                     await new Promise(resolve => setTimeout(resolve, waitTime));
                 } else {
@@ -121,6 +131,7 @@ export const xrplAdapter: ChainAdapter = {
         const depositAddress = quote.quote?.depositAddress;
         ctx.cache.xrpl.depositAddress = depositAddress;
         ctx.txs.depositAddress = depositAddress; // Save for explorer URL generation
+        ctx.expected = expectedArrivalFromQuote(quote);
 
         console.log(`\n✅ Near Intents Quote Received:`);
         console.log(`   Deposit Address (XRPL): ${depositAddress}`);
@@ -147,10 +158,20 @@ export const xrplAdapter: ChainAdapter = {
         }
 
         const txHash = res.result.hash!;
-        const txFee = Number(dropsToXrp(res.result.tx_json.Fee || "0"));
+        const txFeeRaw = rawAmount(res.result.tx_json.Fee || "0", XRP_DECIMALS);
+        const xrpAmountRaw = rawAmount(xrpToDrops(ctx.cfg.xrpAmount), XRP_DECIMALS);
 
         // For near-intents XRPL→Base, we send XRP (native currency on source chain)
-        return { xrpAmount: ctx.cfg.xrpAmount, txHash, submittedAt, txFee, currency: 'XRP' };
+        return {
+            xrpAmount: rawToNumber(xrpAmountRaw),
+            txHash,
+            submittedAt,
+            txFee: rawToNumber(txFeeRaw),
+            xrpAmountRaw,
+            txFeeRaw,
+            currency: 'XRP',
+            blockTimestamp: xrplCloseTimeMs(res.result),
+        };
     },
 
     async observe(ctx: RunContext): Promise<TargetOutput> {
@@ -167,14 +188,21 @@ export const xrplAdapter: ChainAdapter = {
             console.log(chalk.dim(`   Excluding payments FROM deposit address: ${depositAddress}`));
         }
 
-        return await new Promise<TargetOutput>((resolve, reject) => {
+        // 1Click reports the withdrawal tx of the deposit address, otherwise the quoted amount is checked
+        const correlator = createArrivalCorrelator<PaymentCandidate>(ctx, () => fetchNearDeliveryTxHashes(ctx.txs.depositAddress));
+
+        // Swap lifecycle from 1Click, recorded while the arrival is observed
+        const swap = trackSwapStatus(ctx);
+
+        return await swap.until(new Promise<TargetOutput>((resolve, reject) => {
             let finished = false;
 
             const resolveOnce = (v: TargetOutput) => {
                 if (finished) return;
                 finished = true;
                 try { clearTimeout(timeoutId); } catch { }
-                try { client.off("transaction", onTx); } catch { }
+                try { clearInterval(recheckId); } catch { }
+                try { client.off("transaction", feed.onStream); } catch { }
                 resolve(v);
             };
 
@@ -182,15 +210,28 @@ export const xrplAdapter: ChainAdapter = {
                 if (finished) return;
                 finished = true;
                 try { clearTimeout(timeoutId); } catch { }
-                try { client.off("transaction", onTx); } catch { }
+                try { clearInterval(recheckId); } catch { }
+                try { client.off("transaction", feed.onStream); } catch { }
                 reject(e instanceof Error ? e : new Error(String(e)));
             };
 
+            // A refunded or failed swap will never arrive
+            swap.onFailure(rejectOnce);
+
             const timeoutId = setTimeout(() => {
                 rejectOnce(new Error("Timeout: Near Intents execution not completed"));
-            }, 10 * 60_000);
+            }, resolveTimings(ctx).observeTimeoutMs);
             ctx.cleaner.trackTimer(timeoutId);
 
+            // A payment rejected before 1Click indexed the transfer is matched again on every status poll
+            const recheckId = setInterval(() => {
+                const matchedAt = Date.now();
+                correlator.recheck()
+                    .then(found => found?.candidate.onMatch(found.correlation, matchedAt))
+                    .catch(rejectOnce);
+            }, resolveTimings(ctx).pollIntervalMs ?? RECHECK_INTERVAL_MS);
+            ctx.cleaner.trackTimer(recheckId);
+
             const onTx = (data: any) => {
                 try {
                     if (!data?.validated) return;
@@ -223,9 +264,11 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    const deliveredXrp = Number(dropsToXrp(meta?.delivered_amount));
-                    const txFeeXrp = Number(dropsToXrp(tx.Fee));
-                    const finalizedAt = Date.now();
+                    const deliveredRaw = rawAmount(meta?.delivered_amount, XRP_DECIMALS);
+                    const txFeeRaw = rawAmount(tx.Fee, XRP_DECIMALS);
+                    const deliveredXrp = rawToNumber(deliveredRaw);
+                    // Backfilled payments are dated by their ledger close time
+                    const seenAt = data.backfilled ? txTimestamp : Date.now();
 
                     // Skip small gas return transactions (< 0.001 XRP)
                     if (deliveredXrp < 0.001) {
@@ -233,40 +276,65 @@ export const xrplAdapter: ChainAdapter = {
                         return;
                     }
 
-                    console.log(chalk.green(`✅ Found incoming XRP payment!`));
-                    console.log(chalk.dim(`   From: ${tx.Account}`));
-                    console.log(chalk.dim(`   Amount: ${deliveredXrp.toFixed(3)} XRP`));
-                    console.log(chalk.dim(`   Tx: ${data.hash}`));
-
-                    // For near-intents Base→XRPL, we receive XRP (native currency on target chain)
-                    resolveOnce({
-                        xrpAmount: deliveredXrp,
+                    const candidate: PaymentCandidate = {
                         txHash: data.hash,
-                        finalizedAt,
-                        txFee: txFeeXrp,
-                        currency: 'XRP',
-                    } as TargetOutput);
+                        seenAt,
+                        amount: deliveredXrp,
+                        memos: decodeXrplMemos(tx),
+                        onMatch: (correlation, matchedAt) => {
+                            console.log(chalk.green(`✅ Found incoming XRP payment!`));
+                            console.log(chalk.dim(`   From: ${tx.Account}`));
+                            console.log(chalk.dim(`   Amount: ${deliveredXrp.toFixed(3)} XRP`));
+                            console.log(chalk.dim(`   Tx: ${data.hash}`));
+                            console.log(chalk.dim(`   Matched by: ${correlation.method}`));
+
+                            // For near-intents Base→XRPL, we receive XRP (native currency on target chain)
+                            resolveOnce({
+                                xrpAmount: deliveredXrp,
+                                txHash: data.hash,
+                                includedAt: seenAt,
+                                finalizedAt: matchedAt,
+                                blockTimestamp: xrplCloseTimeMs(data),
+                                txFee: rawToNumber(txFeeRaw),
+                                xrpAmountRaw: deliveredRaw,
+                                txFeeRaw,
+                                currency: 'XRP',
+                                correlation,
+                            });
+                        },
+                    };
+                    correlator.match(candidate).then(correlation => {
+                        if (correlation) candidate.onMatch(correlation, seenAt);
+                    }).catch(rejectOnce);
                 } catch (err) {
                     rejectOnce(err);
                 }
             };
 
-            client.on("transaction", onTx);
+            const feed = createAccountTxFeed(client, wallet.address, onTx, () => finished);
+            client.on("transaction", feed.onStream);
 
             client.request({ command: "subscribe", accounts: [wallet.address] })
                 .then(() => {
                     console.log(chalk.dim(`   ✓ Subscribed to real-time transaction stream`));
                     ctx.cleaner.add(async () => {
-                        try { client.off("transaction", onTx); } catch { }
+                        try { client.off("transaction", feed.onStream); } catch { }
                         try {
                             await client.request({ command: "unsubscribe", accounts: [wallet.address] });
                         } catch { }
                     });
+
+                    // Replay the payments validated since the ledger recorded before submit, then go live
+                    const fromLedger = ctx.observeFrom?.xrplLedger;
+                    if (fromLedger !== undefined) {
+                        console.log(chalk.dim(`   Backfilling account history from ledger ${fromLedger}`));
+                    }
+                    return feed.start(fromLedger);
                 })
                 .catch((err: unknown) => {
                     rejectOnce(err);
                 });
-        });
+        }));
     },
 
     async observeGasRefund(ctx: RunContext): Promise<GasRefundOutput> {
@@ -1,14 +1,18 @@
 import chalk from "chalk";
-import { createRunContext, createRunRecord, updateTimestamp, updateTxHash } from "./runners/context";
-import type { RunConfig, RunRecord } from "./types";
-import { saveBatchArtifacts } from "./utils/fsio";
-import { displayMetrics, logConfig, logError, logObserve, logPrepare, logRecord, logStep, logSubmit, showMenu, showMainMenu } from "./utils/logger";
-import { waitWithCountdown } from "./utils/time";
-import { computeMetrics } from "./utils/metrics";
-import { createRunner, BridgeType } from "./runners/runner.factory";
-import { parseCliArgs, validateCliArgs, displayHelp, displayValidationErrors } from "./utils/cli";
+import type { RunConfig } from "./types";
+import { findBatchManifest } from "./utils/fsio";
+import { confirm, logConfig, logError, logStep, showMenu, showMainMenu } from "./utils/logger";
+import { parseCliArgs, validateCliArgs, displayHelp, displayValidationErrors, CLI_COMMANDS } from "./utils/cli";
+import { parsePriceSourceSpec } from "./utils/price-sources";
 import { loadConfig } from "./runners/config";
-import { BatchAbortedException, RunIgnoredException } from "./utils/data-integrity";
+import { runBatch } from "./runners/batch";
+import { recoverPendingTransfers } from "./runners/recover";
+import { compareDirections } from "./runners/compare";
+import { reportAmountSweep, runAmountSweep } from "./runners/sweep";
+import { runCampaign } from "./runners/campaign";
+import { runExperiment } from "./runners/experiment";
+import { repriceResults } from "./runners/reprice";
+import { networkConfigFor } from "./runners/network";
 
 async function main() {
     // Parse CLI arguments
@@ -20,6 +24,58 @@ async function main() {
         return;
     }
 
+    // Positional commands
+    if (cliArgs.command === 'recover') {
+        await recoverPendingTransfers(cliArgs.commandArgs[0]);
+        return;
+    }
+    if (cliArgs.command === 'compare') {
+        compareDirections(cliArgs.commandArgs, cliArgs.out);
+        return;
+    }
+    if (cliArgs.command === 'sweep') {
+        if (!cliArgs.commandArgs[0]) {
+            console.log(chalk.red(`❌ Usage: npm start -- sweep <sweepId>`));
+            return;
+        }
+        reportAmountSweep(cliArgs.commandArgs[0]);
+        return;
+    }
+    if (cliArgs.command === 'campaign') {
+        if (!cliArgs.commandArgs[0]) {
+            console.log(chalk.red(`❌ Usage: npm start -- campaign <definition.json>`));
+            return;
+        }
+        await runCampaign(cliArgs.commandArgs[0], cliArgs.nonInteractive);
+        return;
+    }
+    if (cliArgs.command === 'reprice') {
+        const priceSource = cliArgs.commandArgs[0] ? parsePriceSourceSpec(cliArgs.commandArgs[0]) : null;
+        if (!priceSource) {
+            console.log(chalk.red(`❌ Usage: npm start -- reprice <coingecko|ohlc|ftso|file:<path>> [folder...]`));
+            return;
+        }
+        await repriceResults(priceSource, cliArgs.commandArgs.slice(1));
+        return;
+    }
+    if (cliArgs.command !== undefined) {
+        console.log(chalk.red(`❌ Unknown command "${cliArgs.command}". Available commands: ${CLI_COMMANDS.join(', ')}`));
+        displayHelp();
+        return;
+    }
+
+    // Resume an interrupted batch
+    if (cliArgs.resume) {
+        await resumeBatch(cliArgs.resume, cliArgs.nonInteractive);
+        return;
+    }
+
+    // Experiment config file
+    if (cliArgs.config) {
+        await runExperiment(cliArgs.config, cliArgs.nonInteractive);
+        return;
+    }
+
     // Validate CLI arguments
     const validation = validateCliArgs(cliArgs);
 
@@ -45,25 +101,32 @@ async function main() {
 
         // Display wallet addresses and balances, get user confirmation
         const { displayWalletInfoAndConfirm } = await import('./utils/logger');
-        const confirmed = await displayWalletInfoAndConfirm();
+        const confirmed = await displayWalletInfoAndConfirm(validation.accountIndex);
         if (!confirmed) {
             process.exit(0);
         }
 
         // Load configuration from CLI arguments
-        cfg = loadConfig(validation.direction, validation.amount, validation.runs, validation.bridgeType);
+        cfg = loadConfig(validation.direction, validation.amount, validation.runs, validation.bridgeType, {
+            concurrency: validation.concurrency,
+            accountIndex: validation.accountIndex,
+            nonInteractive: cliArgs.nonInteractive || undefined,
+        });
         bridgeType = validation.bridgeType;
 
         // Display configuration summary
         console.log(chalk.bold('📋 Configuration:'));
         console.log(`  ${chalk.bold('Bridge:')}     ${chalk.cyan(bridgeType)}`);
         console.log(`  ${chalk.bold('Direction:')} ${chalk.cyan(validation.direction)}`);
-        console.log(`  ${chalk.bold('Amount:')}    ${chalk.cyan(validation.amount)} XRP`);
+        console.log(`  ${chalk.bold('Amount:')}    ${chalk.cyan(validation.amounts ? validation.amounts.join(', ') : validation.amount)} XRP`);
         console.log(`  ${chalk.bold('Runs:')}      ${chalk.cyan(validation.runs)}`);
+        if (cfg.concurrency && cfg.concurrency > 1) {
+            console.log(`  ${chalk.bold('Concurrency:')} ${chalk.cyan(cfg.concurrency)}`);
+        }
         console.log('');
     } else {
         // Interactive menu mode
-        const result = await showMainMenu();
+        const result = await showMainMenu(cliArgs.accountIndex);
 
         if (result.action === 'metrics') {
             // Metrics management mode - handled in showMainMenu
@@ -71,7 +134,7 @@ async function main() {
         }
 
         // Bridge test mode - continue with bridge configuration
-        const menuResult = await showMenu();
+        const menuResult = await showMenu({ accountIndex: cliArgs.accountIndex });
         cfg = menuResult.config;
         bridgeType = menuResult.bridgeType;
     }
@@ -87,140 +150,66 @@ async function main() {
 
     console.log(chalk.cyan(`🌉 Using bridge: ${bridgeType}\n`));
 
-    const runner = createRunner(bridgeType as BridgeType, cfg.direction);
-
-    const records: RunRecord[] = [];
-    let successCount = 0;
-    let failureCount = 0;
-    const batchStartTime = Date.now();
-    const ctx = createRunContext(cfg);
-    let previousTargetTxHash: string | undefined;
-
     try {
-        logStep("prepare");
-        updateTimestamp(ctx, 't0_prepare');
-        await runner.prepare(ctx);
-        logPrepare(ctx);
-
-        for (let runIndex = 0; runIndex < cfg.runs; runIndex++) {
-            const runNumber = runIndex + 1;
-            const separator = chalk.bold('═'.repeat(60));
-
-            console.log(`\n${separator}`);
-            console.log(chalk.bold.cyan(`🔄 RUN ${runNumber}/${cfg.runs}`));
-            console.log(separator);
-
-            const runCtx = createRunContext(cfg);
-            runCtx.cache = ctx.cache;
-            runCtx.runId = `${cfg.tag}_run${runNumber}`;
-            runCtx.previousTargetTxHash = previousTargetTxHash;
-
-            try {
-                // Check balance before submitting
-                logStep("balance check");
-                const balanceCheck = await runner.checkBalance(runCtx);
-
-                console.log(chalk.cyan(`💰 ${balanceCheck.message}`));
-
-                if (!balanceCheck.sufficient) {
-                    console.log(chalk.red(`❌ Stopping batch at run ${runNumber}/${cfg.runs} due to insufficient balance`));
-                    console.log(chalk.yellow(`⚠️  Subsequent runs would fail with the same error, so stopping the entire batch.`));
-                    console.log(chalk.dim(`   This run will not be counted as a failure.`));
-                    break; // Stop the entire batch to avoid repeated failures
-                }
-
-                logStep("submit");
-                updateTimestamp(runCtx, 't1_submit');
-                const srcOutput = await runner.submit(runCtx);
-                updateTxHash(runCtx, 'sourceTxHash', srcOutput.txHash);
-                logSubmit(runCtx, srcOutput);
-
-                logStep(`observe`);
-                updateTimestamp(runCtx, 't2_observe', srcOutput.submittedAt);
-                const trgOutput = await runner.observe(runCtx);
-                updateTxHash(runCtx, 'targetTxHash', trgOutput.txHash);
-                updateTimestamp(runCtx, 't3_finalized', trgOutput.finalizedAt);
-                logObserve(runCtx, trgOutput);
-
-                // Save the target transaction hash to exclude from the next run
-                previousTargetTxHash = trgOutput.txHash;
-
-                // Gas refund observation removed - not applicable for mainnet
-                let gasRfdOutput;
-
-                logStep("record")
-                const record = await createRunRecord(runCtx, srcOutput, trgOutput, true, gasRfdOutput);
-                logRecord(record);
-
-                records.push(record);
-                successCount++;
-
-                console.log(chalk.green(`✅ Run ${runNumber}/${cfg.runs} completed successfully`));
-
-            } catch (err) {
-                // Handle data integrity exceptions
-                if (err instanceof BatchAbortedException) {
-                    console.log(chalk.red(`\n🛑 Batch aborted by user: ${err.message}`));
-                    console.log(chalk.yellow(`⚠️  No data will be saved for this batch.`));
-                    break; // Exit the run loop without saving any data
-                }
-
-                if (err instanceof RunIgnoredException) {
-                    console.log(chalk.yellow(`\n⚠️  Run ${runNumber}/${cfg.runs} ignored by user: ${err.message}`));
-                    console.log(chalk.dim(`   This run's data will not be saved.`));
-                    // Don't increment failureCount or add to records
-                    continue; // Skip to next run
-                }
-
-                // Handle regular errors
-                failureCount++;
-                const errorMessage = err instanceof Error ? err.message : String(err);
-
-                logError(`Run ${runNumber} failed`, "RUN_ERROR", err instanceof Error ? err : undefined);
-
-                try {
-                    const failedRecord = await createRunRecord(
-                        runCtx,
-                        { xrpAmount: 0, txHash: runCtx.txs.sourceTxHash || "N/A", submittedAt: ctx.ts.t1_submit || 0, txFee: 0 },
-                        { xrpAmount: 0, txHash: runCtx.txs.targetTxHash || "N/A", finalizedAt: ctx.ts.t3_finalized || 0, txFee: 0 },
-                        false
-                    );
-                    failedRecord.abort_reason = errorMessage;
-
-                    records.push(failedRecord);
-                } catch (recordErr) {
-                    // If creating the failed record also fails due to data integrity issues, handle it
-                    if (recordErr instanceof BatchAbortedException) {
-                        console.log(chalk.red(`\n🛑 Batch aborted by user while recording failure: ${(recordErr as Error).message}`));
-                        console.log(chalk.yellow(`⚠️  No data will be saved for this batch.`));
-                        break;
-                    }
-                    if (recordErr instanceof RunIgnoredException) {
-                        console.log(chalk.yellow(`\n⚠️  Failed run ${runNumber}/${cfg.runs} ignored by user`));
-                        continue;
-                    }
-                    // If it's some other error, rethrow
-                    throw recordErr;
-                }
-
-                console.log(chalk.red(`❌ Run ${runNumber}/${cfg.runs} failed: ${errorMessage}`));
-            }
+        if (validation.valid && validation.amounts) {
+            await runAmountSweep(cfg, validation.amounts);
+        } else {
+            await runBatch(batchId, cfg);
         }
+    } catch (err) {
+        logError("Fatal error during batch execution", "BATCH_ERROR", err instanceof Error ? err : undefined);
+        console.error(err);
+    }
+}
 
-        if (records.length > 0) {
-            logStep("Metrics");
-            const metricsReport = computeMetrics(cfg, records, (Date.now() - batchStartTime));
-            displayMetrics(metricsReport.summary);
+/**
+ * Continue the remaining runs of an interrupted batch and recompute its metrics
+ */
+async function resumeBatch(batchId: string, nonInteractive: boolean) {
+    const found = findBatchManifest(batchId);
+    if (!found) {
+        console.log(chalk.red(`❌ No manifest found for batch ${batchId} under data/results/`));
+        return;
+    }
 
-            console.log(chalk.bold('\n💾 Saving batch records...'));
-            saveBatchArtifacts(batchId, cfg, ctx, records, metricsReport);
-            console.log(chalk.green(`✅ Batch saved: ${batchId}`));
+    const { manifest } = found;
+    if (manifest.status === "completed") {
+        console.log(chalk.yellow(`⚠️  Batch ${batchId} is already completed (${manifest.completedRuns.length}/${manifest.runsPlanned} runs)`));
+        return;
+    }
+    if (manifest.status === "aborted") {
+        // A data integrity decision stopped the batch, its remaining runs would spend funds under the same conditions
+        const remaining = manifest.runsPlanned - manifest.completedRuns.length - manifest.ignoredRuns.length;
+        console.log(chalk.yellow(`⚠️  Batch ${batchId} was aborted by a data integrity decision (${remaining} runs remaining)`));
+        if (nonInteractive || manifest.cfg.nonInteractive || !process.stdin.isTTY) {
+            console.log(chalk.red(`❌ Aborted batches are not resumed without confirmation, run --resume from a terminal without --non-interactive`));
+            return;
         }
+        if (!(await confirm('Resume its remaining runs anyway?'))) {
+            return;
+        }
+    }
+
+    const cfg: RunConfig = {
+        ...manifest.cfg,
+        networks: networkConfigFor(manifest.cfg.rpcUrls),
+        nonInteractive: nonInteractive || manifest.cfg.nonInteractive,
+    };
+
+    const { displayWalletInfoAndConfirm } = await import('./utils/logger');
+    const confirmed = await displayWalletInfoAndConfirm(cfg.accountIndex);
+    if (!confirmed) {
+        return;
+    }
+
+    logStep("configuration");
+    logConfig(cfg);
+
+    try {
+        await runBatch(batchId, cfg, manifest);
     } catch (err) {
         logError("Fatal error during batch execution", "BATCH_ERROR", err instanceof Error ? err : undefined);
         console.error(err);
-    } finally {
-        await ctx.cleaner.run();
     }
 }
 
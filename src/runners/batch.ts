@@ -0,0 +1,412 @@
+import chalk from "chalk";
+import type { ExcludedRun, ObserveStart, RunConfig, RunContext, RunRecord, SourceOutput } from "../types";
+import { createExcludedRun, createRunContext, createRunRecord, updateTimestamp, updateTxHash } from "./context";
+import { Runner } from "./runner";
+import { createRunner } from "./runner.factory";
+import { displayMetrics, logError, logObserve, logPrepare, logRecord, logStep, logSubmit } from "../utils/logger";
+import { BatchAbortedException, RunIgnoredException } from "../utils/data-integrity";
+import { addPendingTransfer, appendExcludedRun, appendRunRecord, BatchManifest, createBatchManifest, makePaths, markPendingTransferFailed, readJsonl, readPendingTransfers, removePendingTransfer, saveBatchMetrics, saveExperimentFile, writeBatchManifest } from "../utils/fsio";
+import { computeMetrics } from "../utils/metrics";
+
+/** Result of a batch execution */
+export interface BatchOutcome {
+    records: RunRecord[];
+    successCount: number;
+    failureCount: number;
+    aborted: boolean;
+    durationMs: number;
+    /** Prepared context of each concurrency slot (slot 0 first) */
+    slots: RunContext[];
+}
+
+export type RunStatus = 'success' | 'failed' | 'ignored' | 'insufficient-balance' | 'aborted';
+
+export interface ExecuteBatchOptions {
+    /** Run numbers (1-based) to execute, all runs of cfg by default */
+    runNumbers?: number[];
+    /** Called right after the source transfer is submitted, before observing the target chain */
+    onRunSubmitted?: (runNumber: number, runCtx: RunContext, srcOutput: SourceOutput, observeStart: ObserveStart) => void;
+    /** Called as soon as a run is settled, before the next run of the slot starts (excluded: run dropped by a data integrity decision) */
+    onRunSettled?: (runNumber: number, status: RunStatus, record?: RunRecord, excluded?: ExcludedRun) => void;
+}
+
+/** State shared by the concurrent slots of a batch */
+interface BatchState {
+    runNumbers: number[];
+    nextRunIndex: number;
+    stopped: boolean;
+    aborted: boolean;
+    records: Array<RunRecord | undefined>;
+    successCount: number;
+    failureCount: number;
+    onRunSubmitted?: ExecuteBatchOptions['onRunSubmitted'];
+    onRunSettled?: ExecuteBatchOptions['onRunSettled'];
+}
+
+/**
+ * Run a batch, checkpointing every record and the batch manifest as soon as a run is settled,
+ * then compute and save the metrics of all records of the batch.
+ * Pass the manifest of an interrupted batch to execute only its remaining runs.
+ */
+export async function runBatch(batchId: string, cfg: RunConfig, previous?: BatchManifest): Promise<BatchManifest> {
+    const runner = createRunner(cfg.bridgeName, cfg.direction);
+    const paths = makePaths(batchId, cfg.direction, cfg.bridgeName);
+    const manifest = previous ?? createBatchManifest(batchId, cfg);
+
+    // Submitted runs that were never settled are left to `recover` (their funds are already in flight)
+    const pendingRuns = readPendingTransfers(paths).map(e => e.runNumber);
+    const settled = new Set([...manifest.completedRuns, ...manifest.ignoredRuns, ...pendingRuns]);
+    const runNumbers = Array.from({ length: cfg.runs }, (_, i) => i + 1).filter(n => !settled.has(n));
+
+    if (pendingRuns.length > 0) {
+        console.log(chalk.yellow(`⚠️  Skipping ${pendingRuns.length} submitted runs awaiting recovery. Recover them with: npm start -- recover ${batchId}`));
+    }
+
+    if (previous) {
+        manifest.resumedAt.push(new Date().toISOString());
+        console.log(chalk.cyan(`♻️  Resuming batch ${batchId}: ${runNumbers.length}/${cfg.runs} runs remaining`));
+    } else if (cfg.experiment && !saveExperimentFile(paths, cfg.experiment)) {
+        console.log(chalk.yellow(`⚠️  ${cfg.experiment.file} changed since the experiment started, it is not copied to the batch folder (sha256 ${cfg.experiment.sha256} in the manifest)`));
+    }
+    manifest.status = "running";
+    writeBatchManifest(paths, manifest);
+
+    let slots: RunContext[] = [];
+    if (runNumbers.length > 0) {
+        const outcome = await executeBatch(runner, cfg, {
+            runNumbers,
+            onRunSubmitted: (runNumber, runCtx, srcOutput, observeStart) => {
+                addPendingTransfer(paths, {
+                    runId: runCtx.runId,
+                    runNumber,
+                    slot: runCtx.slot,
+                    accountIndex: runCtx.accountIndex,
+                    recipient: runner.getTargetAddress(runCtx),
+                    source: srcOutput,
+                    txs: { ...runCtx.txs },
+                    ts: { ...runCtx.ts },
+                    expected: runCtx.expected,
+                    observeFrom: {
+                        timestamp: observeStart.timestamp,
+                        evmBlock: observeStart.evmBlock?.toString(),
+                        xrplLedger: observeStart.xrplLedger,
+                    },
+                });
+            },
+            onRunSettled: (runNumber, status, record, excluded) => {
+                if (status === 'failed' && record && isStillInFlight(record)) {
+                    markPendingTransferFailed(paths, runNumber);
+                } else {
+                    removePendingTransfer(paths, runNumber);
+                }
+                if (excluded) {
+                    appendExcludedRun(paths, excluded);
+                }
+                if (record) {
+                    appendRunRecord(paths, record);
+                    manifest.completedRuns.push(runNumber);
+                } else if (status === 'ignored' || status === 'failed' || status === 'aborted') {
+                    // Aborted runs were submitted and are kept in _excluded.jsonl: never run them again on resume
+                    manifest.ignoredRuns.push(runNumber);
+                } else {
+                    return;
+                }
+                writeBatchManifest(paths, manifest);
+            },
+        }).catch(err => {
+            // Settled runs are checkpointed, the others can be resumed (or recovered when submitted)
+            manifest.status = "interrupted";
+            writeBatchManifest(paths, manifest);
+            throw err;
+        });
+
+        slots = outcome.slots;
+        manifest.durationMs += outcome.durationMs;
+        const remaining = cfg.runs - manifest.completedRuns.length - manifest.ignoredRuns.length;
+        manifest.status = outcome.aborted ? "aborted" : remaining > 0 ? "interrupted" : "completed";
+    } else {
+        manifest.status = pendingRuns.length > 0 ? "interrupted" : "completed";
+    }
+    writeBatchManifest(paths, manifest);
+
+    saveRecordedBatchMetrics(batchId, cfg, manifest, slots, !!previous);
+
+    if (manifest.status === "interrupted") {
+        console.log(chalk.yellow(`⚠️  ${cfg.runs - manifest.completedRuns.length - manifest.ignoredRuns.length} runs remaining. Resume with: npm start -- --resume ${batchId}`));
+    }
+
+    return manifest;
+}
+
+/**
+ * A run that failed after its transfer left the source chain (e.g. observe timeout) may still arrive,
+ * unless the bridge itself reported the refund or the failure
+ */
+function isStillInFlight(record: RunRecord): boolean {
+    return !!record.txs.sourceTxHash && record.error_type !== 'BRIDGE_REFUNDED' && record.error_type !== 'BRIDGE_FAILED';
+}
+
+/**
+ * Compute, display and save the metrics of all records checkpointed for a batch
+ */
+export function saveRecordedBatchMetrics(
+    batchId: string,
+    cfg: RunConfig,
+    manifest: BatchManifest,
+    slots: RunContext[] = [],
+    rebuildSummaries: boolean = false
+): void {
+    const paths = makePaths(batchId, cfg.direction, cfg.bridgeName);
+    const records = readJsonl<RunRecord>(paths.jsonl);
+    const excluded = readJsonl<ExcludedRun>(paths.excluded);
+    if (records.length === 0 && excluded.length === 0) {
+        return;
+    }
+
+    logStep("Metrics");
+    const metricsReport = computeMetrics(cfg, records, manifest.durationMs, excluded);
+    displayMetrics(metricsReport.summary);
+
+    // Addresses of slot 0 (or of the first recorded run when nothing was executed)
+    const addresses = {
+        xrplAddress: slots[0]?.cache.xrpl?.wallet.address ?? records[0]?.wallet?.xrplAddress ?? "",
+        evmAddress: slots[0]?.cache.evm?.account.address ?? records[0]?.wallet?.evmAddress ?? "",
+    };
+
+    console.log(chalk.bold('\n💾 Saving batch metrics...'));
+    saveBatchMetrics(batchId, cfg, addresses, metricsReport, rebuildSummaries);
+    console.log(chalk.green(`✅ Batch saved: ${batchId}`));
+}
+
+/**
+ * Execute all runs of a batch.
+ * With cfg.concurrency > 1, each slot uses its own derived wallets (account index = cfg.accountIndex + slot)
+ * so that nonces/sequences never collide and every arrival lands on the address of its own run.
+ */
+export async function executeBatch(runner: Runner, cfg: RunConfig, options: ExecuteBatchOptions = {}): Promise<BatchOutcome> {
+    const runNumbers = options.runNumbers ?? Array.from({ length: cfg.runs }, (_, i) => i + 1);
+    const concurrency = Math.max(1, Math.min(cfg.concurrency ?? 1, runNumbers.length));
+    const batchStartTime = Date.now();
+    const slots: RunContext[] = [];
+    const state: BatchState = {
+        runNumbers,
+        nextRunIndex: 0,
+        stopped: false,
+        aborted: false,
+        records: new Array(runNumbers.length),
+        successCount: 0,
+        failureCount: 0,
+        onRunSubmitted: options.onRunSubmitted,
+        onRunSettled: options.onRunSettled,
+    };
+
+    try {
+        logStep("prepare");
+        for (let slot = 0; slot < concurrency; slot++) {
+            const slotCtx = createRunContext(cfg, runner.timings);
+            slotCtx.slot = slot;
+            slotCtx.accountIndex = (cfg.accountIndex ?? 0) + slot;
+            slots.push(slotCtx);
+
+            updateTimestamp(slotCtx, 't0_prepare');
+            await runner.prepare(slotCtx);
+            logPrepare(slotCtx);
+        }
+
+        if (concurrency > 1) {
+            console.log(chalk.cyan(`\n⚡ Running ${runNumbers.length} runs with ${concurrency} transfers in flight`));
+        }
+
+        // A failing slot stops the queue, the other slots finish their transfers in flight before the cleanup
+        const outcomes = await Promise.allSettled(slots.map(slotCtx => runSlot(runner, slotCtx, state).catch(err => {
+            state.stopped = true;
+            throw err;
+        })));
+        const failed = outcomes.find((o): o is PromiseRejectedResult => o.status === 'rejected');
+        if (failed) {
+            throw failed.reason;
+        }
+    } finally {
+        for (const slotCtx of slots) {
+            await slotCtx.cleaner.run();
+        }
+    }
+
+    return {
+        records: state.records.filter((r): r is RunRecord => r !== undefined),
+        successCount: state.successCount,
+        failureCount: state.failureCount,
+        aborted: state.aborted,
+        durationMs: Date.now() - batchStartTime,
+        slots,
+    };
+}
+
+/**
+ * Take runs from the shared queue until it is empty or the batch is stopped
+ */
+async function runSlot(runner: Runner, slotCtx: RunContext, state: BatchState): Promise<void> {
+    const { cfg } = slotCtx;
+    let previousTargetTxHash: string | undefined;
+
+    while (!state.stopped) {
+        const runIndex = state.nextRunIndex++;
+        if (runIndex >= state.runNumbers.length) {
+            return;
+        }
+        const runNumber = state.runNumbers[runIndex];
+
+        const runCtx = createRunContext(cfg, runner.timings);
+        runCtx.cache = slotCtx.cache;
+        runCtx.slot = slotCtx.slot;
+        runCtx.accountIndex = slotCtx.accountIndex;
+        runCtx.runId = `${cfg.tag}_run${runNumber}`;
+        runCtx.previousTargetTxHash = previousTargetTxHash;
+
+        const { status, record, excluded } = await executeRun(runner, runCtx, slotCtx, runNumber, state.onRunSubmitted);
+
+        if (record) {
+            state.records[runIndex] = record;
+        }
+        state.onRunSettled?.(runNumber, status, record, excluded);
+
+        if (status === 'success') {
+            state.successCount++;
+            previousTargetTxHash = record?.txs.targetTxHash;
+        } else if (status === 'failed') {
+            state.failureCount++;
+        } else if (status === 'insufficient-balance') {
+            state.stopped = true;
+        } else if (status === 'aborted') {
+            state.stopped = true;
+            state.aborted = true;
+        }
+
+        if (cfg.interRunDelayMs && !state.stopped && state.nextRunIndex < state.runNumbers.length) {
+            await new Promise(resolve => setTimeout(resolve, cfg.interRunDelayMs));
+        }
+    }
+}
+
+/**
+ * Execute a single run: balance check, submit, observe and record
+ */
+async function executeRun(
+    runner: Runner,
+    runCtx: RunContext,
+    slotCtx: RunContext,
+    runNumber: number,
+    onRunSubmitted?: ExecuteBatchOptions['onRunSubmitted']
+): Promise<{ status: RunStatus; record?: RunRecord; excluded?: ExcludedRun }> {
+    const { cfg } = runCtx;
+    const runLabel = `${runNumber}/${cfg.runs}`;
+    const separator = chalk.bold('═'.repeat(60));
+
+    console.log(`\n${separator}`);
+    console.log(chalk.bold.cyan(`🔄 RUN ${runLabel}${(cfg.concurrency ?? 1) > 1 ? ` (slot ${runCtx.slot})` : ''}`));
+    console.log(separator);
+
+    try {
+        // Check balance before submitting
+        logStep("balance check");
+        const balanceCheck = await runner.checkBalance(runCtx);
+
+        console.log(chalk.cyan(`💰 ${balanceCheck.message}`));
+
+        if (!balanceCheck.sufficient) {
+            console.log(chalk.red(`❌ Stopping batch at run ${runLabel} due to insufficient balance`));
+            console.log(chalk.yellow(`⚠️  Subsequent runs would fail with the same error, so stopping the entire batch.`));
+            console.log(chalk.dim(`   This run will not be counted as a failure.`));
+            return { status: 'insufficient-balance' }; // Stop the entire batch to avoid repeated failures
+        }
+
+        logStep("submit");
+        const observeStart = await captureObserveStart(runner, runCtx);
+        runCtx.observeFrom = observeStart; // Observe from the head before submit so that fast arrivals are not missed
+        updateTimestamp(runCtx, 't1_submit');
+        const srcOutput = await runner.submit(runCtx);
+        updateTimestamp(runCtx, 't_source_validated'); // Source adapters return once the tx is validated
+        if (srcOutput.blockTimestamp) updateTimestamp(runCtx, 't_source_block', srcOutput.blockTimestamp);
+        updateTxHash(runCtx, 'sourceTxHash', srcOutput.txHash);
+        logSubmit(runCtx, srcOutput);
+        onRunSubmitted?.(runNumber, runCtx, srcOutput, observeStart);
+
+        logStep(`observe`);
+        updateTimestamp(runCtx, 't2_observe', srcOutput.submittedAt);
+        const trgOutput = await runner.observe(runCtx);
+        updateTxHash(runCtx, 'targetTxHash', trgOutput.txHash);
+        updateTimestamp(runCtx, 't3_finalized', trgOutput.finalizedAt);
+        updateTimestamp(runCtx, 't_target_included', trgOutput.includedAt ?? trgOutput.finalizedAt);
+        if (trgOutput.blockTimestamp) updateTimestamp(runCtx, 't_target_block', trgOutput.blockTimestamp);
+        logObserve(runCtx, trgOutput);
+
+        // Gas refund observation removed - not applicable for mainnet
+        let gasRfdOutput;
+
+        logStep("record")
+        const record = await createRunRecord(runCtx, srcOutput, trgOutput, true, gasRfdOutput);
+        logRecord(record);
+
+        console.log(chalk.green(`✅ Run ${runLabel} completed successfully`));
+        return { status: 'success', record };
+
+    } catch (err) {
+        // Handle data integrity exceptions
+        if (err instanceof BatchAbortedException) {
+            console.log(chalk.red(`\n🛑 Batch aborted: ${err.message}`));
+            console.log(chalk.yellow(`⚠️  No more runs will be executed, this run is left out of the records (see the _excluded.jsonl of the batch).`));
+            return { status: 'aborted', excluded: createExcludedRun(runCtx, runNumber, err) }; // Exit the run loop
+        }
+
+        if (err instanceof RunIgnoredException) {
+            console.log(chalk.yellow(`\n⚠️  Run ${runLabel} ignored: ${err.message}`));
+            console.log(chalk.dim(`   This run is left out of the records (see the _excluded.jsonl of the batch).`));
+            // Don't increment failureCount or add to records
+            return { status: 'ignored', excluded: createExcludedRun(runCtx, runNumber, err) };
+        }
+
+        // Handle regular errors
+        const errorMessage = err instanceof Error ? err.message : String(err);
+
+        logError(`Run ${runNumber} failed`, "RUN_ERROR", err instanceof Error ? err : undefined);
+
+        try {
+            const failedRecord = await createRunRecord(
+                runCtx,
+                { xrpAmount: 0, txHash: runCtx.txs.sourceTxHash || "N/A", submittedAt: runCtx.ts.t1_submit || 0, txFee: 0 },
+                { xrpAmount: 0, txHash: runCtx.txs.targetTxHash || "N/A", finalizedAt: runCtx.ts.t3_finalized || 0, txFee: 0 },
+                false,
+                undefined,
+                errorMessage
+            );
+
+            console.log(chalk.red(`❌ Run ${runLabel} failed: ${errorMessage}`));
+            return { status: 'failed', record: failedRecord };
+        } catch (recordErr) {
+            // If creating the failed record also fails due to data integrity issues, handle it
+            if (recordErr instanceof BatchAbortedException) {
+                console.log(chalk.red(`\n🛑 Batch aborted while recording failure: ${(recordErr as Error).message}`));
+                return { status: 'aborted', excluded: createExcludedRun(runCtx, runNumber, recordErr, errorMessage) };
+            }
+            if (recordErr instanceof RunIgnoredException) {
+                console.log(chalk.yellow(`\n⚠️  Failed run ${runLabel} ignored`));
+                return { status: 'failed', excluded: createExcludedRun(runCtx, runNumber, recordErr, errorMessage) };
+            }
+            // If it's some other error, rethrow
+            throw recordErr;
+        }
+    }
+}
+
+/**
+ * Head of the target chain before submitting, recorded so that the arrival can be recovered later.
+ * Falls back to the timestamp only when the head cannot be read, the run itself is not affected.
+ */
+async function captureObserveStart(runner: Runner, runCtx: RunContext): Promise<ObserveStart> {
+    try {
+        return await runner.captureObserveStart(runCtx);
+    } catch (err) {
+        console.log(chalk.yellow(`⚠️  Could not read the target chain head: ${err instanceof Error ? err.message : String(err)}`));
+        return { timestamp: Date.now() };
+    }
+}
@@ -0,0 +1,328 @@
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import type { IntegrityPolicies, RunConfig, RunRecord } from "../types";
+import { loadConfig } from "./config";
+import { runBatch } from "./batch";
+import { networkConfigFor } from "./network";
+import { findRouteByChains } from "./registry";
+import { logError, logStep } from "../utils/logger";
+import { validateCliArgs } from "../utils/cli";
+import { findBatchManifest, makePaths, readJsonl, writeJsonAtomic } from "../utils/fsio";
+import { nextCronTime, parseCron } from "../utils/schedule";
+import { checkSchema, POLICIES_SCHEMA } from "./experiment";
+
+/** Campaign definition file (JSON) */
+export interface CampaignDefinition {
+    id: string;                 // Recorded on every batch (cfg.campaignId), names the state folder
+    routes: Array<{
+        src: string;            // Chain keys, as --src/--dst
+        dst: string;
+        amounts?: number[];     // Overrides the campaign amounts
+        runs?: number;          // Overrides the campaign runs
+    }>;
+    amounts?: number[];         // One batch per amount in every round (default: the amount of the route)
+    runs?: number;              // Runs per batch (default: the runs of the route)
+    schedule: {
+        intervalMinutes?: number; // A round every N minutes from the start...
+        cron?: string;            // ...or at the times of a cron expression (UTC)
+    };
+    durationHours: number;      // No round starts after startedAt + durationHours
+    budgetUsd?: number;         // No batch starts once the total bridge cost of the campaign reaches it (checked between batches only)
+    concurrency?: number;
+    accountIndex?: number;
+    policies?: IntegrityPolicies; // Decisions on data integrity issues when not prompting (see --non-interactive)
+}
+
+/** One batch of a campaign round */
+interface CampaignBatch {
+    round: number;
+    src: string;
+    dst: string;
+    amount: number;
+    runs: number;
+    batchId?: string;           // Set when the batch starts
+    startedAt?: string;
+    status?: string;            // Final status of the batch manifest
+    spentUsd?: number;          // Total bridge cost of its recorded runs
+}
+
+/** Persisted state, rewritten at every step so that a restarted campaign continues where it stopped */
+export interface CampaignState {
+    campaignId: string;
+    definition: CampaignDefinition;
+    status: "running" | "completed" | "budget-exhausted" | "aborted";
+    startedAt: string;
+    endsAt: string;
+    round: number;
+    nextRoundAt?: string;       // Set while waiting for the next round
+    queue: CampaignBatch[];     // Batches of the current round not finished yet (the first may be in progress)
+    batches: CampaignBatch[];   // Finished batches
+    spentUsd: number;
+    updatedAt: string;
+}
+
+function campaignPaths(campaignId: string) {
+    const dir = path.join("data", "campaigns", campaignId);
+    return {
+        state: path.join(dir, `${campaignId}_state.json`),
+        definition: path.join(dir, `${campaignId}_definition.json`),
+    };
+}
+
+/**
+ * Validate a campaign definition, returns the list of errors (empty if valid)
+ */
+export function validateCampaignDefinition(def: CampaignDefinition): string[] {
+    const errors: string[] = [];
+
+    if (typeof def.id !== "string" || !/^[\w-]+$/.test(def.id)) {
+        errors.push(`"id" must be a non-empty string of letters, digits, "_" or "-"`);
+    }
+    if (!Array.isArray(def.routes) || def.routes.length === 0) {
+        errors.push(`"routes" must list at least one route ({ "src": "xrpl", "dst": "base" })`);
+    }
+
+    const { intervalMinutes, cron } = def.schedule ?? {};
+    if ((intervalMinutes === undefined) === (cron === undefined)) {
+        errors.push(`"schedule" needs either "intervalMinutes" or "cron"`);
+    } else if (intervalMinutes !== undefined && !(intervalMinutes > 0)) {
+        errors.push(`"schedule.intervalMinutes" must be a positive number`);
+    } else if (cron !== undefined) {
+        try {
+            parseCron(cron);
+        } catch (err) {
+            errors.push(`"schedule.cron": ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+
+    if (!(def.durationHours > 0)) errors.push(`"durationHours" must be a positive number`);
+    if (def.budgetUsd !== undefined && !(def.budgetUsd > 0)) errors.push(`"budgetUsd" must be a positive number`);
+    if (def.policies !== undefined) checkSchema(def.policies, POLICIES_SCHEMA, "policies", errors);
+
+    for (const [i, route] of (def.routes ?? []).entries()) {
+        const registered = findRouteByChains(route.src, route.dst);
+        if (!registered) {
+            errors.push(`routes[${i}]: unknown route ${route.src} → ${route.dst}`);
+            continue;
+        }
+        if (registered.route.constraints?.manual) {
+            errors.push(`routes[${i}]: ${route.src} → ${route.dst} is a manual bridge and cannot run unattended`);
+            continue;
+        }
+        // Same checks as the CLI flags (amount constraints, runs)
+        for (const amount of route.amounts ?? def.amounts ?? [undefined]) {
+            const validation = validateCliArgs({
+                help: false,
+                commandArgs: [],
+                nonInteractive: true,
+                src: route.src,
+                dst: route.dst,
+                amount,
+                runs: route.runs ?? def.runs,
+                concurrency: def.concurrency,
+                accountIndex: def.accountIndex,
+            });
+            errors.push(...validation.errors.map(e => `routes[${i}]: ${e}`));
+        }
+    }
+
+    return errors;
+}
+
+/** Batches of one round: every route at every amount */
+function planRound(def: CampaignDefinition, round: number): CampaignBatch[] {
+    return def.routes.flatMap(route => {
+        const { route: registered } = findRouteByChains(route.src, route.dst)!;
+        const amounts = route.amounts ?? def.amounts ?? [registered.defaults.amount];
+        const runs = route.runs ?? def.runs ?? registered.defaults.runs;
+        return amounts.map(amount => ({ round, src: route.src, dst: route.dst, amount, runs }));
+    });
+}
+
+/** Start of the next round strictly after `after`, null if the schedule has no more slots */
+function nextRoundTime(state: CampaignState, after: number): number | null {
+    const { intervalMinutes, cron } = state.definition.schedule;
+    if (cron !== undefined) {
+        return nextCronTime(parseCron(cron), after);
+    }
+    // Rounds stay aligned on the start time, slots missed by a long round are skipped
+    const start = Date.parse(state.startedAt);
+    const interval = intervalMinutes! * 60_000;
+    return start + (Math.floor((after - start) / interval) + 1) * interval;
+}
+
+/**
+ * Run a campaign: rounds of batches (every route at every amount) on an interval or cron schedule,
+ * until its duration is over, its budget is spent or a batch is aborted.
+ * The state is persisted under data/campaigns/{id}/: running the same definition again after a crash
+ * or a restart continues the campaign (an interrupted batch is resumed first).
+ */
+export async function runCampaign(definitionFile: string, nonInteractive: boolean = false): Promise<CampaignState | null> {
+    let def: CampaignDefinition;
+    try {
+        def = JSON.parse(fs.readFileSync(definitionFile, "utf-8"));
+    } catch (err) {
+        console.log(chalk.red(`❌ Cannot read campaign definition ${definitionFile}: ${err instanceof Error ? err.message : String(err)}`));
+        return null;
+    }
+
+    const errors = validateCampaignDefinition(def);
+    if (errors.length > 0) {
+        console.log(chalk.red(`\n❌ Invalid campaign definition ${definitionFile}:\n`));
+        for (const error of errors) console.log(chalk.red(`  • ${error}`));
+        return null;
+    }
+
+    const paths = campaignPaths(def.id);
+    let state: CampaignState;
+    if (fs.existsSync(paths.state)) {
+        try {
+            state = JSON.parse(fs.readFileSync(paths.state, "utf-8"));
+        } catch (err) {
+            console.log(chalk.red(`❌ Cannot read the state of campaign ${def.id} (${paths.state}): ${err instanceof Error ? err.message : String(err)}`));
+            return null;
+        }
+        if (JSON.stringify(state.definition) !== JSON.stringify(def)) {
+            console.log(chalk.yellow(`⚠️  ${definitionFile} differs from the definition saved when campaign ${def.id} started, the saved one is used`));
+        }
+        if (state.status !== "running") {
+            console.log(chalk.yellow(`⚠️  Campaign ${def.id} is already ${state.status} (${state.batches.length} batches, $${state.spentUsd.toFixed(4)} spent)`));
+            return state;
+        }
+        console.log(chalk.cyan(`♻️  Continuing campaign ${def.id}: round ${state.round}, ${state.batches.length} batches done, $${state.spentUsd.toFixed(4)} spent`));
+    } else {
+        const now = Date.now();
+        state = {
+            campaignId: def.id,
+            definition: def,
+            status: "running",
+            startedAt: new Date(now).toISOString(),
+            endsAt: new Date(now + def.durationHours * 3_600_000).toISOString(),
+            round: 0,
+            queue: [],
+            batches: [],
+            spentUsd: 0,
+            updatedAt: new Date(now).toISOString(),
+        };
+        writeJsonAtomic(paths.definition, def);
+        console.log(chalk.cyan(`🗓️  Campaign ${def.id} started, ends at ${state.endsAt}`));
+    }
+
+    const save = () => {
+        state.updatedAt = new Date().toISOString();
+        writeJsonAtomic(paths.state, state);
+    };
+    save();
+
+    const endsAt = Date.parse(state.endsAt);
+    const budget = state.definition.budgetUsd;
+
+    while (state.status === "running") {
+        // The cost of a batch is known once it ends: a running batch is never stopped by the budget
+        if (budget !== undefined && state.spentUsd >= budget) {
+            state.status = "budget-exhausted";
+            break;
+        }
+
+        const next = state.queue[0];
+        if (next) {
+            await runCampaignBatch(state, next, save, nonInteractive);
+            if (next.status === "aborted") {
+                state.status = "aborted";
+            }
+            continue;
+        }
+
+        // Round done: wait for the next one
+        const nextRoundAt = state.nextRoundAt
+            ? Date.parse(state.nextRoundAt)
+            : state.round === 0 && state.definition.schedule.intervalMinutes !== undefined
+                ? Date.parse(state.startedAt)
+                : nextRoundTime(state, Date.now());
+        if (nextRoundAt === null || nextRoundAt >= endsAt) {
+            state.status = "completed";
+            break;
+        }
+
+        state.nextRoundAt = new Date(nextRoundAt).toISOString();
+        save();
+        if (nextRoundAt > Date.now()) {
+            console.log(chalk.cyan(`⏳ Round ${state.round + 1} starts at ${state.nextRoundAt}`));
+            // In steps: setTimeout cannot wait more than ~24 days
+            while (Date.now() < nextRoundAt) {
+                await new Promise(resolve => setTimeout(resolve, Math.min(nextRoundAt - Date.now(), 3_600_000)));
+            }
+        }
+
+        state.round++;
+        state.nextRoundAt = undefined;
+        state.queue = planRound(state.definition, state.round);
+        save();
+    }
+
+    state.nextRoundAt = undefined;
+    save();
+
+    const color = state.status === "completed" ? chalk.green : chalk.yellow;
+    console.log(color(`\n🗓️  Campaign ${state.campaignId} ${state.status}: ${state.round} round(s), ${state.batches.length} batches, $${state.spentUsd.toFixed(4)} spent`));
+    return state;
+}
+
+/**
+ * Run (or resume) the first batch of the queue, then move it to the finished batches
+ */
+async function runCampaignBatch(state: CampaignState, batch: CampaignBatch, save: () => void, nonInteractive: boolean): Promise<void> {
+    const found = batch.batchId ? findBatchManifest(batch.batchId) : null;
+
+    try {
+        if (found && found.manifest.status !== "completed" && found.manifest.status !== "aborted") {
+            logStep(`campaign round ${batch.round}: resume ${batch.batchId}`);
+            const cfg: RunConfig = {
+                ...found.manifest.cfg,
+                networks: networkConfigFor(found.manifest.cfg.rpcUrls),
+                nonInteractive: nonInteractive || found.manifest.cfg.nonInteractive,
+            };
+            batch.status = (await runBatch(batch.batchId!, cfg, found.manifest)).status;
+        } else if (found) {
+            batch.status = found.manifest.status;
+        } else {
+            const { bridge, route } = findRouteByChains(batch.src, batch.dst)!;
+            const cfg: RunConfig = {
+                ...loadConfig(route.direction, batch.amount, batch.runs, bridge.id, {
+                    concurrency: state.definition.concurrency,
+                    accountIndex: state.definition.accountIndex,
+                    nonInteractive: nonInteractive || undefined,
+                    integrityPolicies: state.definition.policies,
+                }),
+                campaignId: state.campaignId,
+            };
+            batch.batchId = [
+                new Date().toISOString().replace(/[:.]/g, "-"),
+                cfg.direction,
+                cfg.tag
+            ].join("_");
+            batch.startedAt = new Date().toISOString();
+            save();
+
+            logStep(`campaign round ${batch.round}: ${batch.src} → ${batch.dst}, ${batch.amount}`);
+            batch.status = (await runBatch(batch.batchId, cfg)).status;
+        }
+    } catch (err) {
+        logError(`Campaign batch ${batch.batchId ?? ''} failed`, "CAMPAIGN_ERROR", err instanceof Error ? err : undefined);
+        batch.status = "failed";
+    }
+
+    batch.spentUsd = batch.batchId ? batchSpentUsd(batch.batchId, batch.src, batch.dst) : 0;
+    state.spentUsd = state.batches.reduce((sum, b) => sum + (b.spentUsd ?? 0), 0) + batch.spentUsd;
+    state.batches.push(batch);
+    state.queue.shift();
+    save();
+}
+
+/** Total bridge cost (USD) of the recorded runs of a batch */
+function batchSpentUsd(batchId: string, src: string, dst: string): number {
+    const { bridge, route } = findRouteByChains(src, dst)!;
+    return readJsonl<RunRecord>(makePaths(batchId, route.direction, bridge.id).jsonl)
+        .reduce((sum, r) => sum + (r.costs?.totalBridgeCostUsd ?? 0), 0);
+}
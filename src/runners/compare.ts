@@ -0,0 +1,132 @@
+import path from "node:path";
+import chalk from "chalk";
+import type { RunRecord } from "../types";
+import { getDirectionFolders, readDirectionRecords, writeCsv, writeJsonAtomic } from "../utils/fsio";
+import { CONFIDENCE_LEVEL, onchainLatencyMs } from "../utils/metrics";
+import { compareSamples, SampleComparison } from "../utils/stats";
+import { displayComparison } from "../utils/logger";
+
+/** Per-run values compared between folders, taken from successful runs only */
+export const COMPARED_METRICS = {
+    latencyMs: (r: RunRecord) => r.timestamps.t1_submit && r.timestamps.t3_finalized ? r.timestamps.t3_finalized - r.timestamps.t1_submit : null,
+    latencyOnchainMs: onchainLatencyMs,
+    totalCostUsd: (r: RunRecord) => r.costs.totalCostUsd,
+    bridgeFeeUsd: (r: RunRecord) => r.costs.bridgeFeeUsd,
+} satisfies Record<string, (r: RunRecord) => number | null>;
+
+export type ComparedMetric = keyof typeof COMPARED_METRICS;
+
+export interface ComparedFolder {
+    folder: string;
+    bridgeName: string;
+    direction: string;
+    totalRuns: number;
+    successCount: number;
+}
+
+/** Comparison of folder B against folder A on one metric (differences are B - A) */
+export interface FolderComparison extends SampleComparison {
+    metric: ComparedMetric;
+    folderA: string;
+    folderB: string;
+}
+
+export interface ComparisonReport {
+    generatedAt: string;
+    confidenceLevel: number;
+    folders: ComparedFolder[];
+    comparisons: FolderComparison[];
+}
+
+/**
+ * Compare the run records of two or more direction folders (all of them by default), pair by pair:
+ * Mann-Whitney U and Kolmogorov-Smirnov tests, Cliff's delta, Hodges-Lehmann shift and bootstrap CIs
+ * of the latency and cost distributions. The report is written as JSON and CSV to outBase (without extension).
+ * P-values are not adjusted for multiple comparisons.
+ */
+export function compareDirections(folderNames: string[], outBase?: string): ComparisonReport | null {
+    const available = getDirectionFolders();
+    const unknown = folderNames.filter(name => !available.some(f => f.folder === name));
+    if (unknown.length > 0) {
+        console.log(chalk.red(`❌ Unknown direction folder(s): ${unknown.join(', ')}`));
+        console.log(chalk.dim(`   Available: ${available.map(f => f.folder).join(', ') || 'none'}`));
+        return null;
+    }
+
+    const selected = folderNames.length > 0
+        ? folderNames.map(name => available.find(f => f.folder === name)!)
+        : available;
+    if (selected.length < 2) {
+        console.log(chalk.red(`❌ At least two direction folders are needed to compare (found ${selected.length})`));
+        return null;
+    }
+
+    const folders: ComparedFolder[] = [];
+    const samples = new Map<string, Record<ComparedMetric, number[]>>();
+    for (const { folder, bridgeName, direction } of selected) {
+        const records = readDirectionRecords(folder);
+        const successes = records.filter(r => r.success);
+        folders.push({ folder, bridgeName, direction, totalRuns: records.length, successCount: successes.length });
+
+        const values = {} as Record<ComparedMetric, number[]>;
+        for (const metric of Object.keys(COMPARED_METRICS) as ComparedMetric[]) {
+            values[metric] = successes
+                .map(COMPARED_METRICS[metric])
+                .filter((v): v is number => typeof v === "number" && Number.isFinite(v));
+        }
+        samples.set(folder, values);
+    }
+
+    const comparisons: FolderComparison[] = [];
+    for (const metric of Object.keys(COMPARED_METRICS) as ComparedMetric[]) {
+        for (let i = 0; i < folders.length; i++) {
+            for (let j = i + 1; j < folders.length; j++) {
+                const folderA = folders[i].folder;
+                const folderB = folders[j].folder;
+                const result = compareSamples(samples.get(folderA)![metric], samples.get(folderB)![metric]);
+                if (result) comparisons.push({ metric, folderA, folderB, ...result });
+            }
+        }
+    }
+
+    const report: ComparisonReport = {
+        generatedAt: new Date().toISOString(),
+        confidenceLevel: CONFIDENCE_LEVEL,
+        folders,
+        comparisons,
+    };
+
+    displayComparison(report);
+
+    const base = outBase ?? path.join("data", "comparisons", `compare_${report.generatedAt.replace(/[:.]/g, "-")}`);
+    writeJsonAtomic(`${base}.json`, report);
+    writeCsv(`${base}.csv`, comparisons.map(comparisonToCsvRow));
+    console.log(chalk.green(`\n✅ Comparison saved to ${base}.json and ${base}.csv`));
+
+    return report;
+}
+
+function comparisonToCsvRow(c: FolderComparison): Record<string, unknown> {
+    return {
+        metric: c.metric,
+        folderA: c.folderA,
+        folderB: c.folderB,
+        nA: c.nA,
+        nB: c.nB,
+        medianA: c.medianA,
+        medianB: c.medianB,
+        medianDiff: c.medianDiff,
+        medianDiffCiLow: c.medianDiffCi?.[0] ?? "",
+        medianDiffCiHigh: c.medianDiffCi?.[1] ?? "",
+        hodgesLehmann: c.hodgesLehmann,
+        mannWhitneyU: c.mannWhitney.u,
+        mannWhitneyZ: c.mannWhitney.z,
+        mannWhitneyP: c.mannWhitney.pValue,
+        ksD: c.ks.d,
+        ksP: c.ks.pValue,
+        cliffsDelta: c.cliffsDelta,
+        cliffsDeltaCiLow: c.cliffsDeltaCi?.[0] ?? "",
+        cliffsDeltaCiHigh: c.cliffsDeltaCi?.[1] ?? "",
+        cliffsMagnitude: c.cliffsMagnitude,
+    };
+}
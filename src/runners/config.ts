@@ -1,14 +1,34 @@
-import { NETWORK_CONFIG } from "./network";
-import { RunConfig, NetworkDirection } from "../types";
+import { networkConfigFor } from "./network";
+import { IntegrityPolicies, PriceSourceConfig, RunConfig, NetworkDirection, RouteTimings, RpcUrls } from "../types";
 
-export function loadConfig(networkDirection: NetworkDirection, xrpAmount: number, nbRuns: number, bridgeName: string): RunConfig {
+/** Optional batch settings (CLI flags) */
+export interface LoadConfigOptions {
+  concurrency?: number;
+  accountIndex?: number;
+  rpcUrls?: RpcUrls;
+  interRunDelayMs?: number;
+  nonInteractive?: boolean;
+  integrityPolicies?: IntegrityPolicies;
+  timings?: RouteTimings;
+  priceSource?: PriceSourceConfig;
+}
+
+export function loadConfig(networkDirection: NetworkDirection, xrpAmount: number, nbRuns: number, bridgeName: string, options: LoadConfigOptions = {}): RunConfig {
   const cfg: RunConfig = {
-    networks: NETWORK_CONFIG,
+    networks: networkConfigFor(options.rpcUrls),
     tag: `mainnet_${networkDirection}_${Date.now()}`,
     runs: nbRuns,
     xrpAmount,
     direction: networkDirection,
     bridgeName,
+    concurrency: options.concurrency ?? 1,
+    accountIndex: options.accountIndex ?? 0,
+    rpcUrls: options.rpcUrls,
+    interRunDelayMs: options.interRunDelayMs,
+    nonInteractive: options.nonInteractive,
+    integrityPolicies: options.integrityPolicies,
+    timings: options.timings,
+    priceSource: options.priceSource,
   };
 
   sanityCheck(cfg);
@@ -19,4 +39,27 @@ export function loadConfig(networkDirection: NetworkDirection, xrpAmount: number
 function sanityCheck(cfg: RunConfig) {
   if (cfg.xrpAmount <= 0) throw new Error("The amount of XRP must be > 0");
   if (cfg.runs <= 0) throw new Error("The number of runs must be > 0");
+  if (cfg.concurrency !== undefined && (!Number.isInteger(cfg.concurrency) || cfg.concurrency <= 0)) {
+    throw new Error("The concurrency must be a positive integer");
+  }
+  if (cfg.accountIndex !== undefined && (!Number.isInteger(cfg.accountIndex) || cfg.accountIndex < 0)) {
+    throw new Error("The account index must be a non-negative integer");
+  }
+  if (cfg.interRunDelayMs !== undefined && !(cfg.interRunDelayMs >= 0)) {
+    throw new Error("The inter-run delay must be >= 0");
+  }
+  // Same bounds as the timings of the experiment files
+  const timings = cfg.timings ?? {};
+  for (const key of ["observeTimeoutMs", "gasRefundTimeoutMs", "pollIntervalMs"] as const) {
+    const value = timings[key];
+    if (value !== undefined && !(value > 0)) {
+      throw new Error(`The timing ${key} must be > 0`);
+    }
+  }
+  if (timings.retries !== undefined && !(Number.isInteger(timings.retries) && timings.retries >= 1)) {
+    throw new Error("The timing retries must be an integer >= 1");
+  }
+  if (timings.backoffBaseMs !== undefined && !(timings.backoffBaseMs >= 0)) {
+    throw new Error("The timing backoffBaseMs must be >= 0");
+  }
 }
@@ -1,8 +1,10 @@
 import chalk from "chalk";
-import { GasRefundOutput, RunConfig, RunContext, RunRecord, SourceOutput, TargetOutput } from "../types";
+import { ExcludedRun, GasRefundOutput, RawAmount, RouteTimings, RunConfig, RunContext, RunCosts, RunRecord, RunTimestamps, SourceOutput, TargetOutput, UsdConversion } from "../types";
 import { CleanupManager } from "../utils/cleanup";
-import { convertToUsd } from "../utils/price-converter";
-import { askPriceConversionAction, askNegativeCostAction, BatchAbortedException, RunIgnoredException } from "../utils/data-integrity";
+import { convertToUsdWithPrice } from "../utils/price-converter";
+import { priceSourceFor } from "../utils/price-sources";
+import { negateRaw, rawToNumber, sumRaw, ZERO_RAW } from "../utils/amounts";
+import { BatchAbortedException, decideNegativeCostIssue, decidePriceConversionIssue, describeDecision, RunIgnoredException } from "../utils/data-integrity";
 
 /**
  * Detect error type from error message
@@ -13,6 +15,14 @@ function detectErrorType(errorMessage?: string): string | undefined {
 
     const lowerError = errorMessage.toLowerCase();
 
+    // Bridge gave the funds back or gave up (reported by the bridge status API)
+    if (lowerError.includes('refunded')) {
+        return 'BRIDGE_REFUNDED';
+    }
+    if (lowerError.includes('swap failed')) {
+        return 'BRIDGE_FAILED';
+    }
+
     // Timeout errors
     if (lowerError.includes('timeout')) {
         return 'TIMEOUT';
@@ -57,13 +67,16 @@ function detectErrorType(errorMessage?: string): string | undefined {
 /**
  * Create a new RunContext with initialized empty state
  */
-export function createRunContext(cfg: RunConfig): RunContext {
+export function createRunContext(cfg: RunConfig, routeTimings?: RouteTimings): RunContext {
     
     const runId = `${cfg.tag}_run${cfg.runs}`;
 
     return {
         cfg,
         runId,
+        routeTimings,
+        accountIndex: 0,
+        slot: 0,
         ts: {
             t0_prepare: undefined,
             t1_submit: undefined,
@@ -104,26 +117,34 @@ export async function createRunRecord(
     // Check if source and target use different currencies (e.g., XRP vs USDC)
     const isCrossCurrency = srcOutput.currency !== trgOutput.currency;
 
+    // Every USD value of the record with the price it was computed with
+    const usdConversions: UsdConversion[] = [];
+
     // Helper function to convert with retry logic
     const convertWithRetry = async (amount: number, currency: string, timestamp: number, description: string): Promise<number | null> => {
         let maxRetries = 3;
+        let failedRounds = 0;
         while (maxRetries > 0) {
             try {
-                return await convertToUsd(amount, currency, timestamp);
+                const { usd, price } = await convertToUsdWithPrice(amount, currency, timestamp, priceSourceFor(ctx.cfg));
+                if (price) usdConversions.push({ label: description, currency, amount, usd, price });
+                return usd;
             } catch (error) {
                 maxRetries--;
                 if (maxRetries === 0) {
-                    // Ask user what to do
-                    const action = await askPriceConversionAction(currency, amount, error as Error);
+                    // Ask user (or apply the integrity policy) what to do
+                    const flag = await decidePriceConversionIssue(ctx.cfg, currency, amount, error as Error, ++failedRounds);
+                    (ctx.integrityFlags ??= []).push(flag);
 
-                    if (action === 'retry') {
+                    if (flag.action === 'retry') {
                         maxRetries = 3; // Reset retries
                         continue;
-                    } else if (action === 'ignore-run') {
-                        throw new RunIgnoredException(`User chose to ignore run due to failed price conversion for ${description}`);
-                    } else if (action === 'abort-batch') {
-                        throw new BatchAbortedException(`User chose to abort batch due to failed price conversion for ${description}`);
+                    } else if (flag.action === 'ignore-run') {
+                        throw new RunIgnoredException(`${describeDecision(flag)} to ignore run due to failed price conversion for ${description}`, flag, costsSoFar());
+                    } else if (flag.action === 'abort-batch') {
+                        throw new BatchAbortedException(`${describeDecision(flag)} to abort batch due to failed price conversion for ${description}`, flag, costsSoFar());
                     }
+                    // save-anyway: the USD value is left null
                 }
             }
         }
@@ -136,11 +157,37 @@ export async function createRunRecord(
     let bridgeFee: number | null = null;
     let totalBridgeCost: number | null = null;
     let totalCost: number | null = null;
+    let sourceFeeRaw: RawAmount | null = null;
+    let targetFeeRaw: RawAmount | null = null;
+    let bridgeFeeRaw: RawAmount | null = null;
+    let totalBridgeCostRaw: RawAmount | null = null;
+    let totalCostRaw: RawAmount | null = null;
     let sourceFeeUsd: number | null = null;
     let targetFeeUsd: number | null = null;
     let bridgeFeeUsd: number | null = null;
     let totalBridgeCostUsd: number | null = null;
     let totalCostUsd: number | null = null;
+    let transferAmountUsd: number | null = null;
+
+    // Costs computed so far, kept with the run if a data integrity decision excludes it
+    const costsSoFar = (): RunCosts => ({
+        sourceFee,
+        targetFee,
+        bridgeFee,
+        totalBridgeCost,
+        totalCost,
+        sourceFeeRaw,
+        targetFeeRaw,
+        bridgeFeeRaw,
+        totalBridgeCostRaw,
+        totalCostRaw,
+        sourceFeeUsd,
+        targetFeeUsd,
+        bridgeFeeUsd,
+        totalBridgeCostUsd,
+        totalCostUsd,
+        transferAmountUsd,
+    });
 
     // Calculate fees based on currency type
     if (isCrossCurrency || isFasset) {
@@ -213,6 +260,7 @@ export async function createRunRecord(
             totalBridgeCostUsd = sourceAmountUsd + (sourceFeeUsd || 0) - gasRefundUsd - targetAmountUsd;
             totalCostUsd = sourceAmountUsd + (sourceFeeUsd || 0) - gasRefundUsd;
         }
+        transferAmountUsd = sourceAmountUsd;
 
         // For cross-currency bridges, assign USD values to native currency fields as well
         // This ensures native currency fields are not null but contain USD-denominated values
@@ -224,11 +272,20 @@ export async function createRunRecord(
     } else {
         // For same-currency bridges, calculate in native currency first
         // Include approval fee if present (for ERC20 token bridges like FAsset)
-        sourceFee = srcOutput.txFee + (srcOutput.approvalFee || 0);
-        targetFee = trgOutput.txFee + (trgOutput.approvalFee || 0);
-        bridgeFee = srcOutput.xrpAmount - trgOutput.xrpAmount - gasRefund;
-        totalBridgeCost = srcOutput.xrpAmount + sourceFee - gasRefund - trgOutput.xrpAmount;
-        totalCost = srcOutput.xrpAmount + sourceFee - gasRefund;
+        // Exact in base units when the adapters report raw amounts, the floats are then derived from them
+        const approvalFeeRaw = (fee: number | undefined, raw: RawAmount | undefined) => fee ? raw : ZERO_RAW;
+        const gasRefundRaw = gasRefund > 0 ? gasRfdOutput?.xrpAmountRaw : ZERO_RAW;
+        sourceFeeRaw = sumRaw(srcOutput.txFeeRaw, approvalFeeRaw(srcOutput.approvalFee, srcOutput.approvalFeeRaw));
+        targetFeeRaw = sumRaw(trgOutput.txFeeRaw, approvalFeeRaw(trgOutput.approvalFee, trgOutput.approvalFeeRaw));
+        bridgeFeeRaw = sumRaw(srcOutput.xrpAmountRaw, negateRaw(trgOutput.xrpAmountRaw), negateRaw(gasRefundRaw));
+        totalBridgeCostRaw = sumRaw(bridgeFeeRaw, sourceFeeRaw);
+        totalCostRaw = sumRaw(srcOutput.xrpAmountRaw, sourceFeeRaw, negateRaw(gasRefundRaw));
+
+        sourceFee = sourceFeeRaw ? rawToNumber(sourceFeeRaw) : srcOutput.txFee + (srcOutput.approvalFee || 0);
+        targetFee = targetFeeRaw ? rawToNumber(targetFeeRaw) : trgOutput.txFee + (trgOutput.approvalFee || 0);
+        bridgeFee = bridgeFeeRaw ? rawToNumber(bridgeFeeRaw) : srcOutput.xrpAmount - trgOutput.xrpAmount - gasRefund;
+        totalBridgeCost = totalBridgeCostRaw ? rawToNumber(totalBridgeCostRaw) : srcOutput.xrpAmount + sourceFee - gasRefund - trgOutput.xrpAmount;
+        totalCost = totalCostRaw ? rawToNumber(totalCostRaw) : srcOutput.xrpAmount + sourceFee - gasRefund;
 
         // Convert all native currency costs to USD using prices at transaction time
         // For approval fee, convert separately if not already in USD
@@ -294,6 +351,11 @@ export async function createRunRecord(
         if (totalCost !== null && srcOutput.currency) {
             totalCostUsd = await convertWithRetry(totalCost, srcOutput.currency, srcOutput.submittedAt, 'total cost');
         }
+
+        // Price of the transferred amount, so that costs can be related to it from the record alone
+        if (srcOutput.currency) {
+            transferAmountUsd = await convertWithRetry(srcOutput.xrpAmount, srcOutput.currency, srcOutput.submittedAt, 'transfer amount');
+        }
     }
 
     // Validate for negative costs (data integrity check)
@@ -302,17 +364,25 @@ export async function createRunRecord(
             // Accept small negative values < 1 USD without prompting
             if (currency === 'USD' && Math.abs(costValue) < 1) {
                 console.log(chalk.dim(`   ℹ️  Small negative ${costName} detected (${costValue.toFixed(4)} ${currency}) - automatically accepted`));
+                (ctx.integrityFlags ??= []).push({
+                    issue: 'negative-cost',
+                    detail: `negative ${costName}: ${costValue} ${currency}`,
+                    action: 'save-anyway',
+                    decidedBy: 'auto',
+                    at: Date.now(),
+                });
                 return;
             }
 
-            const action = await askNegativeCostAction(costName, costValue, currency);
+            const flag = await decideNegativeCostIssue(ctx.cfg, costName, costValue, currency);
+            (ctx.integrityFlags ??= []).push(flag);
 
-            if (action === 'ignore-run') {
-                throw new RunIgnoredException(`User chose to ignore run due to negative ${costName}: ${costValue} ${currency}`);
-            } else if (action === 'abort-batch') {
-                throw new BatchAbortedException(`User chose to abort batch due to negative ${costName}: ${costValue} ${currency}`);
-            } else if (action === 'save-anyway') {
-                // User chose to save anyway, so we just continue
+            if (flag.action === 'ignore-run') {
+                throw new RunIgnoredException(`${describeDecision(flag)} to ignore run due to negative ${costName}: ${costValue} ${currency}`, flag, costsSoFar());
+            } else if (flag.action === 'abort-batch') {
+                throw new BatchAbortedException(`${describeDecision(flag)} to abort batch due to negative ${costName}: ${costValue} ${currency}`, flag, costsSoFar());
+            } else if (flag.action === 'save-anyway') {
+                // Saved anyway, the decision stays in the integrity flags of the record
                 console.log(chalk.dim(`   ℹ️  Continuing with negative ${costName}: ${costValue} ${currency}`));
             }
         }
@@ -342,7 +412,7 @@ export async function createRunRecord(
     await validateNegativeCost(totalCostUsd, 'total cost (USD)', 'USD');
 
     return {
-        runId: ctx.cfg.tag,
+        runId: ctx.runId,
         cfg: ctx.cfg,
         timestamps: { ...ctx.ts },
         txs: { ...ctx.txs },
@@ -353,22 +423,71 @@ export async function createRunRecord(
             bridgeFee,
             totalBridgeCost,
             totalCost,
+            // Exact native values (base units)
+            sourceFeeRaw,
+            targetFeeRaw,
+            bridgeFeeRaw,
+            totalBridgeCostRaw,
+            totalCostRaw,
             // USD values
             sourceFeeUsd,
             targetFeeUsd,
             bridgeFeeUsd,
             totalBridgeCostUsd,
             totalCostUsd,
+            transferAmountUsd,
         },
         success,
         abort_reason: abortReason,
         error_type: detectErrorType(abortReason),
+        wallet: {
+            slot: ctx.slot,
+            accountIndex: ctx.accountIndex,
+            xrplAddress: ctx.cache.xrpl?.wallet.address,
+            evmAddress: ctx.cache.evm?.account.address,
+        },
+        correlation: trgOutput.correlation,
+        bridgePhases: ctx.bridgePhases,
+        integrityFlags: ctx.integrityFlags,
+        usdConversions: usdConversions.length > 0 ? usdConversions : undefined,
+    };
+}
+
+/**
+ * Entry of {batchId}_excluded.jsonl for a run dropped by a data integrity decision.
+ * `failure` is the error of a failed run whose failure record could not be saved.
+ */
+export function createExcludedRun(
+    ctx: RunContext,
+    runNumber: number,
+    err: RunIgnoredException | BatchAbortedException,
+    failure?: string
+): ExcludedRun {
+    return {
+        runId: ctx.runId,
+        runNumber,
+        excludedAt: Date.now(),
+        action: err instanceof BatchAbortedException ? 'abort-batch' : 'ignore-run',
+        reason: err.message,
+        issue: err.flag?.issue,
+        decidedBy: err.flag?.decidedBy,
+        abort_reason: failure,
+        timestamps: { ...ctx.ts },
+        txs: { ...ctx.txs },
+        costs: err.costs ?? null,
+        integrityFlags: ctx.integrityFlags,
+        wallet: {
+            slot: ctx.slot,
+            accountIndex: ctx.accountIndex,
+            xrplAddress: ctx.cache.xrpl?.wallet.address,
+            evmAddress: ctx.cache.evm?.account.address,
+        },
     };
 }
 
 export function updateTimestamp(
     ctx: RunContext,
-    phase: 't0_prepare' | 't1_submit' | 't2_observe' | 't3_finalized' | 't4_finalized_gas_refund',
+    phase: keyof RunTimestamps,
     timestamp: number = Date.now()
 ): void {
     ctx.ts[phase] = timestamp;
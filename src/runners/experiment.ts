@@ -0,0 +1,322 @@
+import fs from "node:fs";
+import crypto from "node:crypto";
+import chalk from "chalk";
+import type { IntegrityPolicies, PriceSourceConfig, RouteTimings, RpcUrls, RunConfig } from "../types";
+import { loadConfig } from "./config";
+import { runBatch } from "./batch";
+import { runAmountSweep } from "./sweep";
+import { findRouteByChains, listChainKeys } from "./registry";
+import { displayWalletInfoAndConfirm, logError, logStep } from "../utils/logger";
+import { validateCliArgs } from "../utils/cli";
+
+/** Experiment config file (JSON), given with --config */
+export interface ExperimentConfig {
+    routes: Array<{
+        src: string;            // Chain keys, as --src/--dst
+        dst: string;
+        amount?: number;        // Overrides the experiment amount(s)
+        amounts?: number[];
+        runs?: number;          // Overrides the experiment runs
+        timings?: RouteTimings; // Merged over the experiment timings
+    }>;
+    amount?: number;            // One batch per route (default: the amount of the route)...
+    amounts?: number[];         // ...or an amount sweep per route
+    runs?: number;              // Runs per batch (default: the runs of the route)
+    concurrency?: number;
+    accountIndex?: number;
+    interRunDelayMs?: number;   // Pause of each slot between two runs
+    rpc?: RpcUrls;              // Endpoint overrides by chain key (xrpl, xrpl-evm, base, flare)
+    nonInteractive?: boolean;   // Never prompt on data integrity issues, as --non-interactive
+    policies?: IntegrityPolicies; // Decisions on data integrity issues when not prompting
+    timings?: RouteTimings;     // Timeouts, polling and retries, over the defaults of each route
+    priceSource?: PriceSourceConfig; // USD prices (default: CoinGecko)
+}
+
+/** Expected shape of a value of the experiment file */
+type SchemaNode =
+    | { type: "string"; enum?: string[] }
+    | { type: "boolean" }
+    | { type: "number"; min?: number; integer?: boolean; exclusiveMin?: boolean }
+    | { type: "array"; items: SchemaNode; minItems?: number }
+    | { type: "object"; fields: Record<string, SchemaNode & { required?: boolean }> }
+    | { type: "record"; keys: () => string[]; values: SchemaNode };
+
+const POSITIVE: SchemaNode = { type: "number", min: 0, exclusiveMin: true };
+const POSITIVE_INT: SchemaNode = { type: "number", min: 0, exclusiveMin: true, integer: true };
+const NON_NEGATIVE_INT: SchemaNode = { type: "number", min: 0, integer: true };
+
+const TIMINGS_SCHEMA = {
+    type: "object",
+    fields: {
+        observeTimeoutMs: POSITIVE,
+        gasRefundTimeoutMs: POSITIVE,
+        pollIntervalMs: POSITIVE,
+        retries: POSITIVE_INT,
+        backoff: { type: "string", enum: ["fixed", "linear", "exponential"] },
+        backoffBaseMs: { type: "number", min: 0 },
+    },
+} satisfies SchemaNode;
+
+/** Integrity policies, shared with the campaign definitions */
+export const POLICIES_SCHEMA = {
+    type: "object",
+    fields: {
+        "price-conversion": {
+            type: "object",
+            fields: {
+                action: { type: "string", enum: ["ignore-run", "save-anyway", "abort-batch"], required: true },
+                retries: NON_NEGATIVE_INT,
+            },
+        },
+        "negative-cost": {
+            type: "object",
+            fields: {
+                action: { type: "string", enum: ["ignore-run", "save-anyway", "abort-batch"], required: true },
+            },
+        },
+    },
+} satisfies SchemaNode;
+
+export const EXPERIMENT_SCHEMA = {
+    type: "object",
+    fields: {
+        routes: {
+            type: "array",
+            minItems: 1,
+            required: true,
+            items: {
+                type: "object",
+                fields: {
+                    src: { type: "string", required: true },
+                    dst: { type: "string", required: true },
+                    amount: POSITIVE,
+                    amounts: { type: "array", items: POSITIVE, minItems: 1 },
+                    runs: POSITIVE_INT,
+                    timings: TIMINGS_SCHEMA,
+                },
+            },
+        },
+        amount: POSITIVE,
+        amounts: { type: "array", items: POSITIVE, minItems: 1 },
+        runs: POSITIVE_INT,
+        concurrency: POSITIVE_INT,
+        accountIndex: NON_NEGATIVE_INT,
+        interRunDelayMs: { type: "number", min: 0 },
+        rpc: { type: "record", keys: listChainKeys, values: { type: "string" } },
+        nonInteractive: { type: "boolean" },
+        policies: POLICIES_SCHEMA,
+        timings: TIMINGS_SCHEMA,
+        priceSource: {
+            type: "object",
+            fields: {
+                type: { type: "string", enum: ["coingecko", "ohlc", "ftso", "file"], required: true },
+                path: { type: "string" },
+            },
+        },
+    },
+} satisfies SchemaNode;
+
+/**
+ * Check a value against a schema node, errors are prefixed with the path of the value (e.g. routes[0].runs)
+ */
+export function checkSchema(value: unknown, node: SchemaNode, at: string, errors: string[]): void {
+    const where = at || "the experiment";
+    switch (node.type) {
+        case "string":
+            if (typeof value !== "string" || value.length === 0) {
+                errors.push(`${where} must be a non-empty string`);
+            } else if (node.enum && !node.enum.includes(value)) {
+                errors.push(`${where} must be one of ${node.enum.join(", ")} (got "${value}")`);
+            }
+            return;
+        case "boolean":
+            if (typeof value !== "boolean") errors.push(`${where} must be true or false`);
+            return;
+        case "number": {
+            const bound = node.min === undefined ? "" : ` ${node.exclusiveMin ? ">" : ">="} ${node.min}`;
+            const expected = `${node.integer ? "an integer" : "a number"}${bound}`;
+            if (typeof value !== "number" || !Number.isFinite(value) || (node.integer && !Number.isInteger(value))) {
+                errors.push(`${where} must be ${expected} (got ${JSON.stringify(value)})`);
+            } else if (node.min !== undefined && (node.exclusiveMin ? value <= node.min : value < node.min)) {
+                errors.push(`${where} must be ${expected} (got ${value})`);
+            }
+            return;
+        }
+        case "array":
+            if (!Array.isArray(value)) {
+                errors.push(`${where} must be an array`);
+                return;
+            }
+            if (node.minItems !== undefined && value.length < node.minItems) {
+                errors.push(`${where} must list at least ${node.minItems} item${node.minItems > 1 ? "s" : ""}`);
+            }
+            value.forEach((item, i) => checkSchema(item, node.items, `${at}[${i}]`, errors));
+            return;
+        case "object":
+        case "record": {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                errors.push(`${where} must be an object`);
+                return;
+            }
+            const entries = value as Record<string, unknown>;
+            const known = node.type === "object" ? Object.keys(node.fields) : node.keys();
+            for (const key of Object.keys(entries)) {
+                if (!known.includes(key)) {
+                    errors.push(`${at ? `${at}.` : ""}${key} is not a known field (expected: ${known.join(", ")})`);
+                }
+            }
+            for (const key of known) {
+                const child = node.type === "object" ? node.fields[key] : node.values;
+                const childAt = at ? `${at}.${key}` : key;
+                if (entries[key] === undefined) {
+                    if ("required" in child && child.required) errors.push(`${childAt} is required`);
+                    continue;
+                }
+                checkSchema(entries[key], child, childAt, errors);
+            }
+            return;
+        }
+    }
+}
+
+/**
+ * Validate an experiment config: shape against EXPERIMENT_SCHEMA, then the routes and their amounts and runs
+ * with the same checks as the CLI flags. Returns the list of errors (empty if valid).
+ */
+export function validateExperimentConfig(config: unknown): string[] {
+    const errors: string[] = [];
+    checkSchema(config, EXPERIMENT_SCHEMA, "", errors);
+    if (errors.length > 0) return errors;
+
+    const exp = config as ExperimentConfig;
+    if (exp.amount !== undefined && exp.amounts !== undefined) {
+        errors.push(`Use either amount or amounts, not both`);
+    }
+    if (exp.priceSource) {
+        const path = "path" in exp.priceSource ? exp.priceSource.path : undefined;
+        if (exp.priceSource.type === "file" && path === undefined) {
+            errors.push(`priceSource.path is required with the file price source`);
+        } else if (exp.priceSource.type !== "file" && path !== undefined) {
+            errors.push(`priceSource.path only applies to the file price source`);
+        } else if (path !== undefined && !fs.existsSync(path)) {
+            errors.push(`priceSource.path: ${path} does not exist`);
+        }
+    }
+
+    for (const [i, route] of exp.routes.entries()) {
+        const registered = findRouteByChains(route.src, route.dst);
+        if (!registered) {
+            errors.push(`routes[${i}]: unknown route ${route.src} → ${route.dst}`);
+            continue;
+        }
+        if (registered.route.constraints?.manual) {
+            errors.push(`routes[${i}]: ${route.src} → ${route.dst} is a manual bridge and cannot run from a config file`);
+            continue;
+        }
+        if (route.amount !== undefined && route.amounts !== undefined) {
+            errors.push(`routes[${i}]: use either amount or amounts, not both`);
+            continue;
+        }
+        for (const amount of routeAmounts(exp, i) ?? [undefined]) {
+            const validation = validateCliArgs({
+                help: false,
+                commandArgs: [],
+                nonInteractive: true,
+                src: route.src,
+                dst: route.dst,
+                amount,
+                runs: route.runs ?? exp.runs,
+                concurrency: exp.concurrency,
+                accountIndex: exp.accountIndex,
+            });
+            errors.push(...validation.errors.map(e => `routes[${i}]: ${e}`));
+        }
+    }
+
+    return errors;
+}
+
+/** Amounts of a route, the route values first; undefined for the default amount of the route */
+function routeAmounts(exp: ExperimentConfig, index: number): number[] | undefined {
+    const route = exp.routes[index];
+    if (route.amount !== undefined) return [route.amount];
+    if (route.amounts !== undefined) return route.amounts;
+    if (exp.amount !== undefined) return [exp.amount];
+    return exp.amounts;
+}
+
+/**
+ * Run the batches described by an experiment config file, route by route: one batch,
+ * or an amount sweep when a route has several amounts. The file is copied as is next to
+ * the artifacts of every batch (with its sha256 in the batch config). An aborted batch
+ * stops the experiment, except within a sweep which only stops the sweep.
+ */
+export async function runExperiment(file: string, nonInteractive: boolean = false): Promise<void> {
+    let raw: string;
+    let config: unknown;
+    try {
+        raw = fs.readFileSync(file, "utf-8");
+        config = JSON.parse(raw);
+    } catch (err) {
+        console.log(chalk.red(`❌ Cannot read experiment config ${file}: ${err instanceof Error ? err.message : String(err)}`));
+        return;
+    }
+
+    const errors = validateExperimentConfig(config);
+    if (errors.length > 0) {
+        console.log(chalk.red(`\n❌ Invalid experiment config ${file}:\n`));
+        for (const error of errors) console.log(chalk.red(`  • ${error}`));
+        return;
+    }
+
+    const exp = config as ExperimentConfig;
+    const experiment = { file, sha256: crypto.createHash("sha256").update(raw).digest("hex") };
+
+    console.log(chalk.cyan(`🧪 Experiment ${file} (sha256 ${experiment.sha256.slice(0, 12)}): ${exp.routes.length} route${exp.routes.length > 1 ? "s" : ""}`));
+    await displayWalletInfoAndConfirm(exp.accountIndex);
+
+    for (const [i, route] of exp.routes.entries()) {
+        const { bridge, route: registered } = findRouteByChains(route.src, route.dst)!;
+        const amounts = registered.constraints?.fixedAmount
+            ? [registered.defaults.amount]
+            : routeAmounts(exp, i) ?? [registered.defaults.amount];
+        const runs = registered.constraints?.fixedRuns
+            ? registered.defaults.runs
+            : route.runs ?? exp.runs ?? registered.defaults.runs;
+
+        const cfg: RunConfig = {
+            ...loadConfig(registered.direction, amounts[0], runs, bridge.id, {
+                concurrency: exp.concurrency,
+                accountIndex: exp.accountIndex,
+                rpcUrls: exp.rpc,
+                interRunDelayMs: exp.interRunDelayMs,
+                nonInteractive: nonInteractive || exp.nonInteractive,
+                integrityPolicies: exp.policies,
+                timings: exp.timings || route.timings ? { ...exp.timings, ...route.timings } : undefined,
+                priceSource: exp.priceSource,
+            }),
+            experiment,
+        };
+
+        logStep(`experiment route ${i + 1}/${exp.routes.length}: ${route.src} → ${route.dst}`);
+        try {
+            if (amounts.length > 1) {
+                await runAmountSweep(cfg, amounts);
+            } else {
+                const batchId = [
+                    new Date().toISOString().replace(/[:.]/g, "-"),
+                    cfg.direction,
+                    cfg.tag
+                ].join("_");
+                const batch = await runBatch(batchId, cfg);
+                if (batch.status === "aborted") {
+                    console.log(chalk.red(`🛑 Experiment stopped after the aborted batch ${batchId}`));
+                    break;
+                }
+            }
+        } catch (err) {
+            logError("Fatal error during batch execution", "BATCH_ERROR", err instanceof Error ? err : undefined);
+            break;
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import { NetworkConfig } from "../types";
+import { NetworkConfig, RpcUrls } from "../types";
 
 // Only mainnet is supported
 export const NETWORK_CONFIG: NetworkConfig = {
@@ -16,4 +16,19 @@ export const NETWORK_CONFIG: NetworkConfig = {
     relayer: "ce16F69375520ab01377ce7B88f5BA8C48F8D666", // Relayer Proxy (e.g. SquidRouter) // "DC74A55C7F58a02FC3c25888790E6Ec6BCcB43D6" Relayer Implementation (Squid Router)
     // gas_refunder: "0x2d5d7d31F671F86C782533cc367F14109a082712" // Axelar Gas Service - No longer used
   },
-};
\ No newline at end of file
+};
+
+/**
+ * NETWORK_CONFIG with the RPC endpoints of a batch (cfg.rpcUrls) applied:
+ * xrpl and xrpl-evm replace the main endpoints, the other chains go to evmRpcUrls
+ */
+export function networkConfigFor(rpcUrls?: RpcUrls): NetworkConfig {
+  if (!rpcUrls) return NETWORK_CONFIG;
+
+  const { xrpl, "xrpl-evm": xrplEvm, ...others } = rpcUrls;
+  return {
+    xrpl: { ...NETWORK_CONFIG.xrpl, wsUrl: xrpl ?? NETWORK_CONFIG.xrpl.wsUrl },
+    evm: { ...NETWORK_CONFIG.evm, rpcUrl: xrplEvm ?? NETWORK_CONFIG.evm.rpcUrl },
+    evmRpcUrls: others,
+  };
+}
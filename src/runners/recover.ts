@@ -0,0 +1,145 @@
+import chalk from "chalk";
+import type { ExcludedRun, RunConfig, RunRecord } from "../types";
+import { createExcludedRun, createRunContext, createRunRecord, updateTimestamp, updateTxHash } from "./context";
+import { Runner } from "./runner";
+import { createRunner } from "./runner.factory";
+import { RunStatus, saveRecordedBatchMetrics } from "./batch";
+import { networkConfigFor } from "./network";
+import { logError, logObserve, logRecord, logStep } from "../utils/logger";
+import { BatchAbortedException, RunIgnoredException } from "../utils/data-integrity";
+import { appendExcludedRun, appendRunRecord, listBatchesWithPendingTransfers, PendingTransfer, removePendingTransfer, removeRunRecord, replaceRunRecord, writeBatchManifest } from "../utils/fsio";
+
+/**
+ * Finalize the transfers that were submitted but never recorded (process killed between submit and observe).
+ * Each pending transfer is observed again on the target chain from the block/ledger recorded before its submit,
+ * then recorded in its batch as if the run had completed normally.
+ * Transfers that still cannot be observed stay in the journal for a later attempt.
+ */
+export async function recoverPendingTransfers(batchId?: string): Promise<void> {
+    const batches = listBatchesWithPendingTransfers()
+        .filter(b => !batchId || b.manifest.batchId === batchId);
+
+    if (batches.length === 0) {
+        console.log(chalk.green(`✅ No pending transfers to recover${batchId ? ` for batch ${batchId}` : ''}`));
+        return;
+    }
+
+    for (const { paths, manifest, pending } of batches) {
+        const cfg: RunConfig = { ...manifest.cfg, networks: networkConfigFor(manifest.cfg.rpcUrls) };
+        const runner = createRunner(cfg.bridgeName, cfg.direction);
+
+        logStep(`recover ${manifest.batchId}`);
+        console.log(chalk.cyan(`♻️  ${pending.length} pending transfer(s) in batch ${manifest.batchId}`));
+
+        let settledCount = 0;
+        let aborted = false;
+        for (const entry of pending) {
+            const { status, record, excluded } = await recoverTransfer(runner, cfg, entry);
+
+            if (status === 'aborted') {
+                aborted = true;
+                break; // Left in the journal
+            }
+            if (status !== 'success' && status !== 'ignored') {
+                continue; // Left in the journal
+            }
+
+            if (excluded) {
+                appendExcludedRun(paths, excluded);
+            }
+
+            if (entry.failureRecorded) {
+                // Already counted as completed with its failure record: replaced by the arrival,
+                // or dropped when the arrival was ignored (the run is only counted as excluded)
+                if (record) {
+                    replaceRunRecord(paths, record);
+                } else {
+                    removeRunRecord(paths, entry.runId);
+                    manifest.completedRuns = manifest.completedRuns.filter(n => n !== entry.runNumber);
+                    manifest.ignoredRuns.push(entry.runNumber);
+                }
+            } else if (record) {
+                appendRunRecord(paths, record);
+                manifest.completedRuns.push(entry.runNumber);
+            } else {
+                manifest.ignoredRuns.push(entry.runNumber);
+            }
+            removePendingTransfer(paths, entry.runNumber);
+            settledCount++;
+        }
+
+        const remaining = cfg.runs - manifest.completedRuns.length - manifest.ignoredRuns.length;
+        if (manifest.status === "interrupted" && remaining === 0) {
+            manifest.status = "completed";
+        }
+        writeBatchManifest(paths, manifest);
+
+        if (settledCount > 0) {
+            saveRecordedBatchMetrics(manifest.batchId, cfg, manifest, [], true);
+        }
+
+        console.log(chalk.cyan(`♻️  Recovered ${settledCount}/${pending.length} pending transfer(s) of batch ${manifest.batchId}`));
+        if (aborted) {
+            console.log(chalk.red(`🛑 Recovery aborted`));
+            return;
+        }
+    }
+}
+
+/**
+ * Observe the arrival of a single pending transfer with the wallets of its slot
+ */
+async function recoverTransfer(runner: Runner, cfg: RunConfig, entry: PendingTransfer): Promise<{ status: RunStatus; record?: RunRecord; excluded?: ExcludedRun }> {
+    const ctx = createRunContext(cfg, runner.timings);
+    ctx.runId = entry.runId;
+    ctx.slot = entry.slot;
+    ctx.accountIndex = entry.accountIndex;
+    ctx.ts = { ...entry.ts };
+    ctx.txs = { ...entry.txs };
+    ctx.expected = entry.expected;
+    ctx.observeFrom = {
+        timestamp: entry.observeFrom.timestamp,
+        evmBlock: entry.observeFrom.evmBlock !== undefined ? BigInt(entry.observeFrom.evmBlock) : undefined,
+        xrplLedger: entry.observeFrom.xrplLedger,
+    };
+    ctx.recovered = true;
+
+    console.log(chalk.bold.cyan(`\n🔄 Run ${entry.runNumber}/${cfg.runs} - source tx ${entry.source.txHash}`));
+
+    try {
+        await runner.prepareTarget(ctx);
+
+        const recipient = runner.getTargetAddress(ctx);
+        if (recipient !== entry.recipient) {
+            throw new Error(`Recipient mismatch: journal expects ${entry.recipient} but account index ${entry.accountIndex} derives ${recipient}`);
+        }
+
+        logStep("observe");
+        const trgOutput = await runner.observe(ctx);
+        updateTxHash(ctx, 'targetTxHash', trgOutput.txHash);
+        updateTimestamp(ctx, 't3_finalized', trgOutput.finalizedAt);
+        if (trgOutput.blockTimestamp) updateTimestamp(ctx, 't_target_block', trgOutput.blockTimestamp);
+        logObserve(ctx, trgOutput);
+
+        logStep("record");
+        const record = await createRunRecord(ctx, entry.source, trgOutput, true);
+        logRecord(record);
+
+        console.log(chalk.green(`✅ Run ${entry.runNumber} recovered`));
+        return { status: 'success', record };
+    } catch (err) {
+        if (err instanceof BatchAbortedException) {
+            return { status: 'aborted' };
+        }
+        if (err instanceof RunIgnoredException) {
+            console.log(chalk.yellow(`⚠️  Run ${entry.runNumber} ignored: ${err.message}`));
+            return { status: 'ignored', excluded: createExcludedRun(ctx, entry.runNumber, err) };
+        }
+
+        logError(`Recovery of run ${entry.runNumber} failed`, "RECOVER_ERROR", err instanceof Error ? err : undefined);
+        console.log(chalk.yellow(`⚠️  Run ${entry.runNumber} stays pending, retry later with: npm start -- recover`));
+        return { status: 'failed' };
+    } finally {
+        await ctx.cleaner.run();
+    }
+}
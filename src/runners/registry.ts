@@ -0,0 +1,82 @@
+import type { BridgeDefinition, NetworkDirection, RouteDefinition } from "../types";
+import { axelarBridge } from "../adapters/axelar/axelar.bridge";
+import { nearIntentsBridge } from "../adapters/near-intents/near-intents.bridge";
+import { fassetBridge } from "../adapters/fasset/fasset.bridge";
+
+/**
+ * All bridges supported by the tool.
+ * To add a bridge, declare a BridgeDefinition next to its adapters and register it here.
+ */
+const BRIDGES = [
+    axelarBridge,
+    nearIntentsBridge,
+    fassetBridge,
+];
+
+/** Directions declared by the registered bridges */
+export type RegisteredDirection = typeof BRIDGES[number]["routes"][number]["direction"];
+
+/** A route together with the bridge that declares it */
+export interface RegisteredRoute {
+    bridge: BridgeDefinition;
+    route: RouteDefinition;
+}
+
+export function listBridges(): BridgeDefinition[] {
+    return BRIDGES;
+}
+
+export function getBridge(bridgeId: string): BridgeDefinition | undefined {
+    return BRIDGES.find(b => b.id === bridgeId);
+}
+
+export function listRoutes(): RegisteredRoute[] {
+    return BRIDGES.flatMap(bridge => bridge.routes.map(route => ({ bridge, route })));
+}
+
+/**
+ * Find the route of a bridge for a given direction
+ */
+export function getRoute(bridgeId: string, direction: NetworkDirection): RegisteredRoute | undefined {
+    return listRoutes().find(r => r.bridge.id === bridgeId && r.route.direction === direction);
+}
+
+/**
+ * Find a route by direction only (directions are unique across bridges)
+ */
+export function findRouteByDirection(direction: NetworkDirection): RegisteredRoute | undefined {
+    return listRoutes().find(r => r.route.direction === direction);
+}
+
+/**
+ * Find a route from CLI chain keys (e.g. --src xrpl --dst base)
+ */
+export function findRouteByChains(src: string, dst: string): RegisteredRoute | undefined {
+    return listRoutes().find(r => r.route.source.key === src && r.route.target.key === dst);
+}
+
+/**
+ * Name of the results folder of a route: {bridgeName}_{direction}
+ */
+export function routeFolderName(bridgeId: string, direction: NetworkDirection): string {
+    return `${bridgeId}_${direction}`;
+}
+
+/**
+ * Human-readable route label (e.g. "XRPL → Base")
+ */
+export function formatRouteLabel(route: RouteDefinition): string {
+    return `${route.source.name} → ${route.target.name}`;
+}
+
+/**
+ * All chain keys that appear in at least one route
+ */
+export function listChainKeys(): string[] {
+    const keys = new Set<string>();
+    for (const { route } of listRoutes()) {
+        keys.add(route.source.key);
+        keys.add(route.target.key);
+    }
+    return [...keys];
+}
@@ -0,0 +1,245 @@
+import fs from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import type { ExcludedRun, PriceSourceConfig, RunCosts, RunRecord, UsdConversion } from "../types";
+import type { MetricsReport } from "../utils/metrics";
+import { computeMetrics } from "../utils/metrics";
+import { logStep } from "../utils/logger";
+import { convertToUsdWithPrice } from "../utils/price-converter";
+import { createPriceSource, PriceSource } from "../utils/price-sources";
+import {
+    getDirectionFolders,
+    makePaths,
+    readJsonl,
+    recomputeAllBatchesCsv,
+    recomputeAllTxCsv,
+    recomputeDirectionMetrics,
+    SavePaths,
+    summaryToCsvRow,
+    writeCsv,
+    writeJsonAtomic,
+    writeRecordVersion,
+} from "../utils/fsio";
+
+type UsdCostField = Extract<keyof RunCosts, `${string}Usd`>;
+type CostTerms = Partial<Record<UsdCostField, 1 | -1>>;
+type PricedAmount = Omit<UsdConversion, "price">;
+
+/**
+ * USD costs each conversion of createRunRecord adds to (-1: subtracted from), by label.
+ * Cross-currency routes (and FAsset) derive the costs from the USD values of the amounts,
+ * same-currency routes convert each native cost on its own.
+ */
+const CROSS_CURRENCY_TERMS: Record<string, CostTerms> = {
+    "source amount": { bridgeFeeUsd: 1, totalBridgeCostUsd: 1, totalCostUsd: 1 },
+    "target amount": { bridgeFeeUsd: -1, totalBridgeCostUsd: -1 },
+    "gas refund": { bridgeFeeUsd: -1, totalBridgeCostUsd: -1, totalCostUsd: -1 },
+    "source transaction fee": { sourceFeeUsd: 1, totalBridgeCostUsd: 1, totalCostUsd: 1 },
+    "source approval transaction fee": { sourceFeeUsd: 1, totalBridgeCostUsd: 1, totalCostUsd: 1 },
+    "target transaction fee": { targetFeeUsd: 1 },
+    "target approval transaction fee": { targetFeeUsd: 1 },
+};
+
+const SAME_CURRENCY_TERMS: Record<string, CostTerms> = {
+    "source fee": { sourceFeeUsd: 1 }, // Legacy records, see legacyConversions
+    "target fee": { targetFeeUsd: 1 },
+    "source transaction fee": { sourceFeeUsd: 1 },
+    "source approval transaction fee": { sourceFeeUsd: 1 },
+    "target transaction fee": { targetFeeUsd: 1 },
+    "target approval transaction fee": { targetFeeUsd: 1 },
+    "bridge fee": { bridgeFeeUsd: 1 },
+    "total bridge cost": { totalBridgeCostUsd: 1 },
+    "total cost": { totalCostUsd: 1 },
+    "transfer amount": {},
+};
+
+const AMOUNT_LABELS = ["source amount", "target amount", "gas refund"];
+
+/** Conversions of the amount sent, whose USD value is the transferAmountUsd of the costs */
+const TRANSFER_AMOUNT_LABELS = ["source amount", "transfer amount"];
+
+/**
+ * Currency of the native costs of same-currency routes, for records saved before their USD conversions were recorded.
+ * Legacy records of cross-currency routes do not hold the amounts they were priced from and are kept as they are.
+ */
+const LEGACY_COST_CURRENCY: Record<string, string> = { axelar: "XRP" };
+
+export interface RepriceTotals {
+    batches: number;
+    repriced: number;
+    unchanged: number;
+}
+
+/**
+ * Recompute the USD costs of the saved batches with another price source, at the recorded transaction times:
+ * source-side values at the source submit (t2_observe), target-side values at the arrival (t3_finalized).
+ * Each re-priced batch gets a new version of its records (see writeRecordVersion) and its metrics,
+ * then the direction and global summaries are rebuilt. Records that cannot be re-priced are kept unchanged.
+ */
+export async function repriceResults(priceSource: PriceSourceConfig, folderNames: string[] = []): Promise<RepriceTotals | null> {
+    if (priceSource.type === "file" && !fs.existsSync(priceSource.path)) {
+        console.log(chalk.red(`❌ Price file not found: ${priceSource.path}`));
+        return null;
+    }
+
+    const available = getDirectionFolders();
+    const unknown = folderNames.filter(name => !available.some(f => f.folder === name));
+    if (unknown.length > 0) {
+        console.log(chalk.red(`❌ Unknown direction folder(s): ${unknown.join(', ')}`));
+        console.log(chalk.dim(`   Available: ${available.map(f => f.folder).join(', ') || 'none'}`));
+        return null;
+    }
+    const selected = folderNames.length > 0
+        ? folderNames.map(name => available.find(f => f.folder === name)!)
+        : available;
+
+    const source = createPriceSource(priceSource);
+    console.log(chalk.cyan(`💱 Re-pricing ${selected.length} direction folder(s) with ${source.name}`));
+
+    const totals: RepriceTotals = { batches: 0, repriced: 0, unchanged: 0 };
+    for (const { folder, bridgeName, direction } of selected) {
+        logStep(`reprice ${folder}`);
+        const batchIds = fs.readdirSync(path.join("data", "results", folder), { withFileTypes: true })
+            .filter(dirent => dirent.isDirectory() && !dirent.name.includes('deprecated'))
+            .map(dirent => dirent.name);
+
+        let folderRepriced = 0;
+        for (const batchId of batchIds) {
+            const paths = makePaths(batchId, direction, bridgeName);
+            const records = readJsonl<RunRecord>(paths.jsonl);
+            if (records.length === 0) continue;
+
+            let repriced = 0;
+            const updated: RunRecord[] = [];
+            for (const record of records) {
+                try {
+                    const result = await repriceRecord(record, source);
+                    if (result) repriced++;
+                    updated.push(result ?? record);
+                } catch (err) {
+                    console.log(chalk.yellow(`⚠️  ${record.runId} kept unchanged: ${err instanceof Error ? err.message : String(err)}`));
+                    updated.push(record);
+                }
+            }
+
+            totals.unchanged += records.length - repriced;
+            if (repriced === 0) continue;
+
+            const version = writeRecordVersion(paths, updated, {
+                reason: "reprice",
+                priceSource: source.name,
+                repriced,
+                unchanged: records.length - repriced,
+            });
+            saveRepricedBatchMetrics(paths, updated);
+            console.log(chalk.dim(`   ${batchId}: ${repriced}/${records.length} record(s) re-priced → ${version.file}`));
+
+            totals.batches++;
+            totals.repriced += repriced;
+            folderRepriced += repriced;
+        }
+
+        if (folderRepriced > 0) {
+            recomputeDirectionMetrics(bridgeName, direction);
+        }
+    }
+
+    if (totals.repriced > 0) {
+        recomputeAllBatchesCsv();
+        recomputeAllTxCsv();
+    }
+
+    console.log(chalk.green(`\n✅ Re-priced ${totals.repriced} record(s) in ${totals.batches} batch(es), ${totals.unchanged} kept unchanged`));
+    return totals;
+}
+
+/**
+ * Re-price the USD conversions of a record and shift each USD cost by the change of its terms,
+ * so that USD values given by the adapters (e.g. 1Click fees) are kept. Null when there is nothing to re-price.
+ */
+async function repriceRecord(record: RunRecord, source: PriceSource): Promise<RunRecord | null> {
+    const conversions: PricedAmount[] | null = record.usdConversions ?? legacyConversions(record);
+    if (!conversions || conversions.length === 0) return null;
+
+    const crossCurrency = record.cfg.bridgeName === "fasset" || conversions.some(c => AMOUNT_LABELS.includes(c.label));
+    const termsByLabel = crossCurrency ? CROSS_CURRENCY_TERMS : SAME_CURRENCY_TERMS;
+
+    const costs: RunCosts = { ...record.costs };
+    const usdConversions: UsdConversion[] = [];
+    for (const conversion of conversions) {
+        const terms = termsByLabel[conversion.label];
+        if (!terms) {
+            throw new Error(`unknown USD conversion "${conversion.label}"`);
+        }
+
+        const { usd, price } = await convertToUsdWithPrice(conversion.amount, conversion.currency, conversionTime(record, conversion.label), source);
+        for (const [field, sign] of Object.entries(terms) as Array<[UsdCostField, 1 | -1]>) {
+            const value = costs[field];
+            if (typeof value === "number") costs[field] = value + sign * (usd - conversion.usd);
+        }
+        if (TRANSFER_AMOUNT_LABELS.includes(conversion.label)) {
+            costs.transferAmountUsd = usd;
+        }
+        if (price) usdConversions.push({ ...conversion, usd, price });
+    }
+
+    // Cross-currency costs are USD values in the native fields as well
+    if (crossCurrency) {
+        costs.sourceFee = costs.sourceFeeUsd;
+        costs.targetFee = costs.targetFeeUsd;
+        costs.bridgeFee = costs.bridgeFeeUsd;
+        costs.totalBridgeCost = costs.totalBridgeCostUsd;
+        costs.totalCost = costs.totalCostUsd;
+    }
+
+    return { ...record, costs, usdConversions };
+}
+
+/**
+ * Conversions of a record saved without usdConversions: its native costs with the USD values they were saved with,
+ * and the configured transfer amount.
+ * Null for routes whose native costs are not in a single currency.
+ */
+function legacyConversions(record: RunRecord): PricedAmount[] | null {
+    const currency = LEGACY_COST_CURRENCY[record.cfg.bridgeName];
+    if (!currency) return null;
+
+    const { costs } = record;
+    const native: Array<[string, number | null, number | null]> = [
+        ["source fee", costs.sourceFee, costs.sourceFeeUsd],
+        ["target fee", costs.targetFee, costs.targetFeeUsd],
+        ["bridge fee", costs.bridgeFee, costs.bridgeFeeUsd],
+        ["total bridge cost", costs.totalBridgeCost, costs.totalBridgeCostUsd],
+        ["total cost", costs.totalCost, costs.totalCostUsd],
+        ["transfer amount", record.cfg.xrpAmount, 0], // Priced for the first time
+    ];
+    return native
+        .filter(([, amount, usd]) => amount !== null && amount !== 0 && usd !== null)
+        .map(([label, amount, usd]) => ({ label, currency, amount: amount!, usd: usd! }));
+}
+
+/** Time a conversion was priced at: arrival for target-side values, source submit for the others (as in createRunRecord) */
+function conversionTime(record: RunRecord, label: string): number {
+    const { t1_submit, t2_observe, t3_finalized } = record.timestamps;
+    const time = label.startsWith("target") ? t3_finalized : t2_observe ?? t1_submit;
+    if (time === undefined) {
+        throw new Error(`no recorded time for the ${label}`);
+    }
+    return time;
+}
+
+/**
+ * Rewrite {batchId}_metrics.json/.csv from the re-priced records, keeping the batch time, duration and addresses
+ */
+function saveRepricedBatchMetrics(paths: SavePaths, records: RunRecord[]): void {
+    if (!fs.existsSync(paths.metricsJson)) return;
+
+    const previous: MetricsReport = JSON.parse(fs.readFileSync(paths.metricsJson, "utf-8"));
+    const cfg = records[0].cfg;
+    const report = computeMetrics(cfg, records, previous.summary.batchDurationMs ?? 0, readJsonl<ExcludedRun>(paths.excluded));
+    report.summary.timestampIso = previous.summary.timestampIso; // Keeps the batch at its place in the summary CSVs
+    report.cfgEcho = { ...report.cfgEcho, ...previous.cfgEcho }; // Keeps the addresses, adds the fields echoed since
+
+    writeJsonAtomic(paths.metricsJson, report);
+    writeCsv(paths.metricsCsv, [summaryToCsvRow(report.summary, cfg, report.cfgEcho.xrplAddress ?? "", report.cfgEcho.evmAddress ?? "")]);
+}
@@ -1,4 +1,4 @@
-import { ChainAdapter, NetworkDirection, RunContext, SourceOutput, TargetOutput, GasRefundOutput } from "../types";
+import { ChainAdapter, NetworkDirection, ObserveStart, RouteDefinition, RouteTimings, RunContext, SourceOutput, TargetOutput, GasRefundOutput } from "../types";
 
 /**
  * Runner that abstracts the direction-specific logic
@@ -7,12 +7,20 @@ import { ChainAdapter, NetworkDirection, RunContext, SourceOutput, TargetOutput,
 export class Runner {
     private sourceAdapter: ChainAdapter;
     private targetAdapter: ChainAdapter;
-    private direction: NetworkDirection;
+    private route: RouteDefinition;
 
-    constructor(direction: NetworkDirection, sourceAdapter: ChainAdapter, targetAdapter: ChainAdapter) {
-        this.direction = direction;
-        this.sourceAdapter = sourceAdapter;
-        this.targetAdapter = targetAdapter;
+    constructor(route: RouteDefinition) {
+        this.route = route;
+        this.sourceAdapter = route.sourceAdapter;
+        this.targetAdapter = route.targetAdapter;
+    }
+
+    get direction(): NetworkDirection {
+        return this.route.direction;
+    }
+
+    get timings(): RouteTimings | undefined {
+        return this.route.timings;
     }
 
     /**
@@ -23,15 +31,14 @@ export class Runner {
     async prepare(ctx: RunContext): Promise<void> {
         // For XRPL -> EVM: prepare EVM first to get account, then XRPL with Squid route
         // For EVM -> XRPL: prepare XRPL first to get wallet, then EVM with Squid route
-        if (this.direction === "xrpl_to_xrpl_evm") {
-            // Prepare EVM first (no Squid call yet, just wallet setup)
-            await this.prepareEvmOnly(ctx);
-            // Then prepare XRPL with Squid route (needs EVM account)
-            await this.sourceAdapter.prepare(ctx);
-        } else if (this.direction === "xrpl_evm_to_xrpl") {
-            // Prepare XRPL first (no Squid call yet, just wallet setup)
-            await this.prepareXrplOnly(ctx);
-            // Then prepare EVM with Squid route (needs XRPL wallet)
+        if (this.route.prepareTargetFirst) {
+            // Prepare the target wallet first (no Squid call yet, just wallet setup)
+            if (this.route.target.family === "evm") {
+                await this.prepareEvmOnly(ctx);
+            } else {
+                await this.prepareXrplOnly(ctx);
+            }
+            // Then prepare the source with Squid route (needs the target address)
             await this.sourceAdapter.prepare(ctx);
         } else {
             // For other directions, prepare in parallel
@@ -42,6 +49,41 @@ export class Runner {
         }
     }
 
+    /**
+     * Prepare only the target side wallet/client, enough to observe an arrival
+     * (used to recover transfers submitted by a previous process)
+     */
+    async prepareTarget(ctx: RunContext): Promise<void> {
+        if (this.route.target.family === "evm") {
+            await this.prepareEvmOnly(ctx);
+        } else {
+            await this.prepareXrplOnly(ctx);
+        }
+    }
+
+    /**
+     * Capture the current head of the target chain (block or validated ledger)
+     */
+    async captureObserveStart(ctx: RunContext): Promise<ObserveStart> {
+        const timestamp = Date.now();
+        if (this.route.target.family === "evm") {
+            const { publicClient } = ctx.cache.evm!;
+            return { timestamp, evmBlock: await publicClient.getBlockNumber() };
+        }
+        const { client } = ctx.cache.xrpl!;
+        return { timestamp, xrplLedger: await client.getLedgerIndex() };
+    }
+
+    /**
+     * Address receiving the funds on the target chain
+     */
+    getTargetAddress(ctx: RunContext): string {
+        if (this.route.target.family === "evm") {
+            return ctx.cache.evm?.account.address ?? "";
+        }
+        return ctx.cache.xrpl?.wallet.address ?? "";
+    }
+
     /**
      * Prepare EVM adapter without Squid route (just wallet setup)
      */
@@ -51,19 +93,22 @@ export class Runner {
         const { getEvmAccount } = await import("../utils/environment");
 
         const rpcUrl = ctx.cfg.networks.evm.rpcUrl;
-        const chain = xrplevm; // Only mainnet is supported
+        const chain = this.route.target.evmChain ?? xrplevm; // Only mainnet is supported
+
+        // The configured RPC is the XRPL EVM one, other chains use their own override or default RPC
+        const transportUrl = chain.id === xrplevm.id ? rpcUrl : ctx.cfg.networks.evmRpcUrls?.[this.route.target.key];
 
         const publicClient = createPublicClient({
             chain: chain,
-            transport: http(rpcUrl)
+            transport: http(transportUrl)
         });
 
         const walletClient = createWalletClient({
             chain: chain,
-            transport: http(rpcUrl)
+            transport: http(transportUrl)
         });
 
-        const account = getEvmAccount();
+        const account = getEvmAccount(ctx.accountIndex);
 
         ctx.cache.evm = { publicClient, walletClient, account, chain };
     }
@@ -78,7 +123,7 @@ export class Runner {
         const client = new Client(ctx.cfg.networks.xrpl.wsUrl);
         await client.connect();
 
-        const wallet = getXrplWallet();
+        const wallet = getXrplWallet(ctx.accountIndex);
         ctx.cache.xrpl = { client, wallet };
         ctx.cleaner.trackXrpl(client, wallet.address);
     }
@@ -116,21 +161,6 @@ export class Runner {
      * Get human-readable names for source and target chains
      */
     getChainNames(): { source: string; target: string } {
-        if (this.direction === "xrpl_to_xrpl_evm") {
-            return { source: "XRPL", target: "XRPL-EVM" };
-        } else if (this.direction === "xrpl_evm_to_xrpl") {
-            return { source: "XRPL-EVM", target: "XRPL" };
-        } else if (this.direction === "xrpl_to_base") {
-            return { source: "XRPL", target: "Base" };
-        } else if (this.direction === "base_to_xrpl") {
-            return { source: "Base", target: "XRPL" };
-        } else if (this.direction === "xrpl_to_flare") {
-            return { source: "XRPL", target: "Flare" };
-        } else if (this.direction === "flare_to_xrpl") {
-            return { source: "Flare", target: "XRPL" };
-        } else {
-            // Fallback for any other direction
-            return { source: "Unknown", target: "Unknown" };
-        }
+        return { source: this.route.source.name, target: this.route.target.name };
     }
 }
\ No newline at end of file
@@ -0,0 +1,213 @@
+import path from "node:path";
+import fs from "node:fs";
+import chalk from "chalk";
+import type { NetworkDirection, RunConfig, RunRecord } from "../types";
+import { runBatch } from "./batch";
+import { displaySweepReport, logStep } from "../utils/logger";
+import { makePaths, readJsonl, writeCsv, writeJsonAtomic } from "../utils/fsio";
+import { computeCostStats, computeLatencyStats, CostDistribution, LatencyStats, transferredValue } from "../utils/metrics";
+import { fitLinear, LinearFit } from "../utils/stats";
+
+/** Progress of an amount sweep, rewritten after every batch */
+export interface SweepManifest {
+    sweepId: string;
+    bridgeName: string;
+    direction: NetworkDirection;
+    amounts: number[];
+    runsPerAmount: number;
+    batches: Array<{ amount: number; batchId: string; status: string }>;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** Latency and cost of the runs of one amount */
+export interface SweepAmountRow {
+    amount: number;
+    totalRuns: number;
+    successCount: number;
+    latency: LatencyStats;
+    totalBridgeCostUsd: CostDistribution;
+    totalBridgeCostBps: CostDistribution; // USD cost / USD transferred value
+    bridgeFeeUsd: CostDistribution;
+}
+
+/**
+ * Fixed + proportional fee model: totalBridgeCost = fixed + rate * transferred value,
+ * fitted by least squares on every successful run of the sweep
+ */
+export interface FeeModel {
+    basis: "native" | "usd";
+    fixed: number;             // Flat part of the fee, in the basis unit
+    fixedSe: number | null;
+    rateBps: number;           // Proportional part, in basis points of the transferred value
+    rateBpsSe: number | null;
+    r2: number | null;
+    n: number;
+}
+
+export interface SweepReport {
+    sweepId: string;
+    bridgeName: string;
+    direction: NetworkDirection;
+    generatedAt: string;
+    rows: SweepAmountRow[];
+    feeModel: { native: FeeModel | null; usd: FeeModel | null };
+    latencyVsAmount: LinearFit | null; // Latency (ms) against the configured amount
+}
+
+function sweepPaths(sweepId: string) {
+    const dir = path.join("data", "sweeps", sweepId);
+    return {
+        manifest: path.join(dir, `${sweepId}_manifest.json`),
+        reportJson: path.join(dir, `${sweepId}_report.json`),
+        reportCsv: path.join(dir, `${sweepId}_report.csv`),
+    };
+}
+
+/**
+ * Run one batch of cfg.runs runs per amount (tagged with a common sweepId),
+ * then report fee and latency against the amount and fit the fee model.
+ * The sweep stops at the first aborted batch.
+ */
+export async function runAmountSweep(cfg: RunConfig, amounts: number[]): Promise<SweepReport | null> {
+    const startedAt = new Date().toISOString();
+    const sweepId = `sweep_${startedAt.replace(/[:.]/g, "-")}_${cfg.bridgeName}_${cfg.direction}`;
+    const paths = sweepPaths(sweepId);
+    const manifest: SweepManifest = {
+        sweepId,
+        bridgeName: cfg.bridgeName,
+        direction: cfg.direction,
+        amounts,
+        runsPerAmount: cfg.runs,
+        batches: [],
+        createdAt: startedAt,
+        updatedAt: startedAt,
+    };
+    writeJsonAtomic(paths.manifest, manifest);
+
+    console.log(chalk.cyan(`📈 Amount sweep ${sweepId}: ${amounts.join(', ')} (${cfg.runs} run${cfg.runs > 1 ? 's' : ''} each)`));
+
+    for (const [i, amount] of amounts.entries()) {
+        const batchCfg: RunConfig = { ...cfg, xrpAmount: amount, tag: `${cfg.tag}_amt${amount}`, sweepId };
+        const batchId = [
+            new Date().toISOString().replace(/[:.]/g, "-"),
+            batchCfg.direction,
+            batchCfg.tag
+        ].join("_");
+
+        logStep(`sweep ${i + 1}/${amounts.length}: ${amount}`);
+        const batch = await runBatch(batchId, batchCfg);
+
+        manifest.batches.push({ amount, batchId, status: batch.status });
+        manifest.updatedAt = new Date().toISOString();
+        writeJsonAtomic(paths.manifest, manifest);
+
+        if (batch.status === "aborted") {
+            console.log(chalk.red(`🛑 Sweep stopped after the aborted batch of ${amount}`));
+            break;
+        }
+    }
+
+    return reportAmountSweep(sweepId);
+}
+
+/**
+ * (Re)build the report of a sweep from the records of its batches, e.g. after `recover`
+ */
+export function reportAmountSweep(sweepId: string): SweepReport | null {
+    const paths = sweepPaths(sweepId);
+    if (!fs.existsSync(paths.manifest)) {
+        console.log(chalk.red(`❌ No sweep manifest found for ${sweepId} under data/sweeps/`));
+        return null;
+    }
+    const manifest: SweepManifest = JSON.parse(fs.readFileSync(paths.manifest, "utf-8"));
+
+    const rows: SweepAmountRow[] = [];
+    const successes: RunRecord[] = [];
+    for (const amount of manifest.amounts) {
+        const records = manifest.batches
+            .filter(b => b.amount === amount)
+            .flatMap(b => readJsonl<RunRecord>(makePaths(b.batchId, manifest.direction, manifest.bridgeName).jsonl));
+        if (records.length === 0) continue;
+
+        const ok = records.filter(r => r.success);
+        successes.push(...ok);
+
+        const latencies = ok
+            .map(r => r.timestamps.t1_submit && r.timestamps.t3_finalized ? r.timestamps.t3_finalized - r.timestamps.t1_submit : null)
+            .filter((x): x is number => typeof x === "number");
+        const costs = computeCostStats(ok);
+        rows.push({
+            amount,
+            totalRuns: records.length,
+            successCount: ok.length,
+            latency: computeLatencyStats(latencies),
+            totalBridgeCostUsd: costs.usd!.totalBridgeCost,
+            totalBridgeCostBps: costs.bpsUsd!.totalBridgeCost,
+            bridgeFeeUsd: costs.usd!.bridgeFee,
+        });
+    }
+
+    const latencyPoints = successes.filter(r => r.timestamps.t1_submit && r.timestamps.t3_finalized);
+    const report: SweepReport = {
+        sweepId,
+        bridgeName: manifest.bridgeName,
+        direction: manifest.direction,
+        generatedAt: new Date().toISOString(),
+        rows,
+        feeModel: {
+            native: fitFeeModel(successes, "native"),
+            usd: fitFeeModel(successes, "usd"),
+        },
+        latencyVsAmount: fitLinear(
+            latencyPoints.map(r => r.cfg.xrpAmount),
+            latencyPoints.map(r => r.timestamps.t3_finalized! - r.timestamps.t1_submit!)
+        ),
+    };
+
+    displaySweepReport(report);
+
+    writeJsonAtomic(paths.reportJson, report);
+    writeCsv(paths.reportCsv, rows.map(row => ({
+        amount: row.amount,
+        totalRuns: row.totalRuns,
+        successCount: row.successCount,
+        latency_p50_ms: row.latency.p50Ms ?? "",
+        latency_mean_ms: row.latency.meanMs ?? "",
+        latency_std_ms: row.latency.stdDevMs ?? "",
+        total_bridge_cost_usd_p50: row.totalBridgeCostUsd.p50 ?? "",
+        total_bridge_cost_usd_mean: row.totalBridgeCostUsd.mean ?? "",
+        total_bridge_cost_bps_p50: row.totalBridgeCostBps.p50 ?? "",
+        total_bridge_cost_bps_mean: row.totalBridgeCostBps.mean ?? "",
+        bridge_fee_usd_p50: row.bridgeFeeUsd.p50 ?? "",
+        bridge_fee_usd_mean: row.bridgeFeeUsd.mean ?? "",
+    })));
+    console.log(chalk.green(`\n✅ Sweep report saved to ${paths.reportJson} and ${paths.reportCsv}`));
+
+    return report;
+}
+
+/** Fit totalBridgeCost against the transferred value of each run (see transferredValue) */
+function fitFeeModel(successes: RunRecord[], basis: "native" | "usd"): FeeModel | null {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const r of successes) {
+        const value = r.costs ? transferredValue(r.costs, basis) : null;
+        const cost = basis === "usd" ? r.costs?.totalBridgeCostUsd : r.costs?.totalBridgeCost;
+        if (value === null || typeof cost !== "number") continue;
+        xs.push(value);
+        ys.push(cost);
+    }
+
+    const fit = fitLinear(xs, ys);
+    if (!fit) return null;
+    return {
+        basis,
+        fixed: fit.intercept,
+        fixedSe: fit.interceptSe,
+        rateBps: fit.slope * 10_000,
+        rateBpsSe: fit.slopeSe !== null ? fit.slopeSe * 10_000 : null,
+        r2: fit.r2,
+        n: fit.n,
+    };
+}
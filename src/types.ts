@@ -1,7 +1,16 @@
 import { CleanupManager } from "./utils/cleanup";
 
-/** Direction of a transfer in the bridge tests. */
-export type NetworkDirection = "xrpl_to_base" | "base_to_xrpl" | "xrpl_to_xrpl_evm" | "xrpl_evm_to_xrpl" | "xrpl_to_flare" | "flare_to_xrpl";
+/**
+ * Direction of a transfer in the bridge tests (e.g. "xrpl_to_base"),
+ * one of the directions declared by the bridge definitions of the route registry.
+ */
+export type NetworkDirection = import("./runners/registry").RegisteredDirection;
+
+/** Exact on-chain amount: integer in base units (drops, wei, token units) as a decimal string */
+export interface RawAmount {
+    raw: string;
+    decimals: number; // value = raw / 10^decimals
+}
 
 /** Output from the source chain after submitting a transfer. */
 export interface SourceOutput {
@@ -9,6 +18,11 @@ export interface SourceOutput {
     txHash: string;
     submittedAt: number;
     txFee: number;
+    // Exact amounts in base units, the floats above are derived from them
+    xrpAmountRaw?: RawAmount;
+    txFeeRaw?: RawAmount;
+    approvalFeeRaw?: RawAmount;
+    blockTimestamp?: number; // Block timestamp / ledger close time of the source tx (ms)
     currency?: 'XRP' | 'USD' | 'ETH' | 'FLR' | 'USDC' | 'FXRP'; // Currency type for proper display
     // USD values (computed at transaction time)
     amountUsd?: number; // USD value of xrpAmount
@@ -23,8 +37,14 @@ export interface SourceOutput {
 export interface TargetOutput {
     xrpAmount: number; // Amount in the native currency (XRP for axelar, USD for near-intents)
     txHash: string;
-    finalizedAt: number;
+    includedAt?: number; // First time the observer saw the target tx, before it was matched to the run
+    finalizedAt: number; // When the target tx was matched to the run (the poll or stream event that accepted it)
     txFee: number;
+    // Exact amounts in base units, the floats above are derived from them
+    xrpAmountRaw?: RawAmount;
+    txFeeRaw?: RawAmount;
+    approvalFeeRaw?: RawAmount;
+    blockTimestamp?: number; // Block timestamp / ledger close time of the target tx (ms)
     currency?: 'XRP' | 'USD' | 'ETH' | 'FLR' | 'USDC' | 'FXRP'; // Currency type for proper display
     // USD values (computed at transaction time)
     amountUsd?: number; // USD value of xrpAmount
@@ -33,12 +53,32 @@ export interface TargetOutput {
     approvalFee?: number; // Approval transaction fee in native currency (e.g., FLR)
     approvalFeeUsd?: number; // USD value of approval fee
     approvalTxHash?: string; // Hash of the approval transaction
+    correlation?: ArrivalCorrelation; // Why this arrival belongs to the run
+}
+
+/** What the source side expects to arrive on the target chain (from the bridge quote/route). */
+export interface ExpectedArrival {
+    amount?: number;         // Quoted amount out, in the target currency
+    minAmount?: number;      // Minimum amount out after slippage
+    token?: string;          // Token contract expected on an EVM target (unset for native)
+    reference?: string;      // Bridge identifier of the transfer (Squid request id, Near deposit address)
+}
+
+/** Evidence that a target arrival belongs to its source transfer. */
+export interface ArrivalCorrelation {
+    method: 'bridge-status' | 'memo' | 'amount' | 'unverified';
+    reference?: string;         // Identifier that matched (delivery tx reported by the bridge, source tx hash in a memo)
+    expectedAmount?: number;
+    receivedAmount: number;
+    amountDeviation?: number;   // (received - expected) / expected
+    rejectedCandidates: number; // Incoming transfers to the same address rejected before the match
 }
 
 /** Output when a gas refund is received. */
 export interface GasRefundOutput {
     xrpAmount: number;
     txHash: string;
+    xrpAmountRaw?: RawAmount;
     currency?: 'XRP' | 'USD' | 'ETH' | 'FLR' | 'USDC' | 'FXRP';
     amountUsd?: number; // USD value of xrpAmount
 }
@@ -77,6 +117,85 @@ export interface ChainAdapter {
     observeGasRefund(ctx: RunContext): Promise<GasRefundOutput>;
 }
 
+/** Chain taking part in a route (CLI key, display name and chain family). */
+export interface ChainDescriptor {
+    key: string;            // CLI key used by --src/--dst (e.g. "xrpl-evm")
+    name: string;           // Human-readable name (e.g. "XRPL-EVM")
+    family: 'xrpl' | 'evm';
+    evmChain?: import("viem").Chain;
+}
+
+/** User-facing limits of a route. */
+export interface RouteConstraints {
+    fixedAmount?: boolean; // The default amount is always used
+    fixedRuns?: boolean;   // The default number of runs is always used
+    minAmount?: number;
+    manual?: boolean;      // The transfer is performed by the user in an external UI
+}
+
+/** A single direction supported by a bridge. */
+export interface RouteDefinition<Direction extends string = NetworkDirection> {
+    direction: Direction;
+    description: string;
+    source: ChainDescriptor;
+    target: ChainDescriptor;
+    sourceAdapter: ChainAdapter;
+    targetAdapter: ChainAdapter;
+    amountUnit: string;
+    defaults: { amount: number; runs: number };
+    constraints?: RouteConstraints;
+    timings?: RouteTimings; // Route defaults, overridden by cfg.timings
+    /**
+     * Set the target wallet up before preparing the source adapter,
+     * for bridges whose source preparation needs the recipient address (e.g. Squid routes)
+     */
+    prepareTargetFirst?: boolean;
+}
+
+/** Wait between two attempts of a retried request: base, base × attempt or base × 2^(attempt - 1) */
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential';
+
+/** Waiting and retry settings of a route, unset fields keep the defaults (see resolveTimings) */
+export interface RouteTimings {
+    observeTimeoutMs?: number;   // Wait for the arrival on the target chain, and for each FAsset minting step (default: 10 min)
+    gasRefundTimeoutMs?: number; // Wait for the Axelar gas refund (default: 5 min on XRPL, 10 min on XRPL-EVM)
+    pollIntervalMs?: number;     // Polling of the FAsset contracts, of the 1Click / Axelar GMP status APIs and of rejected XRPL arrivals
+    retries?: number;            // Attempts of the Squid / 1Click requests and of each target chain read (default: 3)
+    backoff?: BackoffStrategy;   // Default: linear
+    backoffBaseMs?: number;      // Wait after the first failed attempt (default: 2 s for API requests, 1 s for chain reads)
+}
+
+/** USD price of a currency with its provenance */
+export interface PricePoint {
+    priceUsd: number;
+    timestamp: number;   // Time the price refers to (ms): candle open, FTSO round, file row, fetch time for live prices
+    source: string;      // Price source (coingecko, ohlc-1m, ftso, file:<path>)
+    granularity: string; // live, 1d, 1m, 1s, file, or fixed (USD and stablecoins)
+    fetchedAt: number;   // When the source was queried (a cached price keeps its first fetch time)
+}
+
+/** USD value computed for a run, with the price it comes from */
+export interface UsdConversion {
+    label: string;       // What was converted (source amount, target transaction fee...)
+    currency: string;
+    amount: number;
+    usd: number;
+    price: PricePoint;
+}
+
+/** Where USD prices come from (see utils/price-sources.ts) */
+export type PriceSourceConfig =
+    | { type: 'coingecko' | 'ohlc' | 'ftso' }
+    | { type: 'file'; path: string }; // Local CSV/JSON price file
+
+/** Bridge module declaration registered in the route registry. */
+export interface BridgeDefinition<Direction extends string = NetworkDirection> {
+    id: string;
+    displayName: string;
+    description: string;
+    routes: RouteDefinition<Direction>[];
+}
+
 /** Per-network endpoints & gateways (no run-specific fields here). */
 export type NetworkConfig = {
     xrpl: {
@@ -84,15 +203,21 @@ export type NetworkConfig = {
         walletSeed: string;
         gateway: string;
         gas_fee: string;
+        derivationPath?: string; // Recorded in saved configs only
     };
     evm: {
         rpcUrl: string;
         walletPrivateKey: string;
         gateway: string;
         relayer: string;      
+        derivationPath?: string; // Recorded in saved configs only
     };
+    evmRpcUrls?: Record<string, string>; // RPC of the other EVM chains by chain key (base, flare), their default RPC otherwise
 };
 
+/** RPC endpoints by chain key (xrpl, xrpl-evm, base, flare) overriding the defaults of NETWORK_CONFIG */
+export type RpcUrls = Record<string, string>;
+
 /** Static inputs for a batch/run (reproducible recipe). */
 export interface RunConfig {
     tag: string;
@@ -101,6 +226,40 @@ export interface RunConfig {
     direction: NetworkDirection;
     networks: NetworkConfig;
     bridgeName: string;
+    concurrency?: number; // Number of transfers in flight at once (default: 1)
+    accountIndex?: number; // HD account index derived from MNEMONIC (slot i uses accountIndex + i, default: 0)
+    sweepId?: string; // Amount sweep the batch belongs to (one batch per amount)
+    campaignId?: string; // Scheduled campaign the batch belongs to
+    rpcUrls?: RpcUrls; // Endpoint overrides, applied to networks (see networkConfigFor)
+    interRunDelayMs?: number; // Pause of a slot between two runs (default: 0)
+    timings?: RouteTimings; // Overrides the timings of the route
+    priceSource?: PriceSourceConfig; // USD prices of the batch (default: CoinGecko)
+    experiment?: { file: string; sha256: string }; // Experiment config file the batch was started from
+    nonInteractive?: boolean; // Apply the integrity policies instead of prompting (also when stdin is not a TTY)
+    integrityPolicies?: IntegrityPolicies; // Overrides DEFAULT_INTEGRITY_POLICIES
+}
+
+/** Data integrity issue actions */
+export type DataIntegrityAction = 'retry' | 'ignore-run' | 'abort-batch' | 'save-anyway';
+
+/** Data integrity issues that stop a run until someone (or a policy) decides what to do */
+export type IntegrityIssue = 'price-conversion' | 'negative-cost';
+
+/** Decision applied to an issue in non-interactive mode */
+export interface IntegrityPolicy {
+    action: Exclude<DataIntegrityAction, 'retry'>;
+    retries?: number; // Rounds of retries before the action (price conversion only, default: 0)
+}
+
+export type IntegrityPolicies = Partial<Record<IntegrityIssue, IntegrityPolicy>>;
+
+/** Data integrity decision taken during a run, kept in its record */
+export interface IntegrityFlag {
+    issue: IntegrityIssue;
+    detail: string;       // e.g. "negative total bridge cost: -0.02 XRP"
+    action: DataIntegrityAction;
+    decidedBy: 'user' | 'policy' | 'auto'; // Prompt, integrity policy or automatic acceptance (small negative USD costs)
+    at: number;
 }
 
 /** Fees normalized (null if not computed). All values stored in both native currency and USD. */
@@ -112,12 +271,22 @@ export interface RunCosts {
     totalBridgeCost: number | null;
     totalCost: number | null;
 
+    // Exact native values in base units (same-currency routes, when the adapters report raw amounts)
+    sourceFeeRaw?: RawAmount | null;
+    targetFeeRaw?: RawAmount | null;
+    bridgeFeeRaw?: RawAmount | null;
+    totalBridgeCostRaw?: RawAmount | null;
+    totalCostRaw?: RawAmount | null;
+
     // USD values (computed at transaction time for accuracy)
     sourceFeeUsd: number | null;
     targetFeeUsd: number | null;
     bridgeFeeUsd: number | null;
     totalBridgeCostUsd: number | null;
     totalCostUsd: number | null;
+
+    // USD value of the amount sent, at the price of the source submit (absent in older records)
+    transferAmountUsd?: number | null;
 }
 
 /** Phase timestamps (ms since epoch). Optional during execution. */
@@ -127,6 +296,16 @@ export interface RunTimestamps {
     t2_observe?: number;
     t3_finalized?: number;
     t4_finalized_gas_refund?: number;
+    // Source chain milestones
+    t_source_validated?: number; // Source tx seen validated (submit returned)
+    t_source_block?: number;     // Block timestamp / ledger close time of the source tx
+    // Bridge milestones reported by the bridge status API (Axelar GMP, 1Click)
+    t_bridge_confirmed?: number; // Source tx confirmed (attested) by the bridge validators
+    t_bridge_approved?: number;  // Message approved on the destination chain
+    t_bridge_executed?: number;  // Message executed on the destination chain
+    // Target chain milestones
+    t_target_included?: number;  // Target tx first seen by the observer, before it was matched to the run (t3_finalized)
+    t_target_block?: number;     // Block timestamp / ledger close time of the target tx
 }
 
 /** Transaction identifiers discovered during the run. */
@@ -137,13 +316,28 @@ export interface RunTxs {
     depositAddress?: string; // For near-intents and other bridges that use deposit addresses
 }
 
+/** Head of the target chain captured right before submit: observation can start from here. */
+export interface ObserveStart {
+    timestamp: number;   // ms since epoch
+    evmBlock?: bigint;   // EVM target: block number
+    xrplLedger?: number; // XRPL target: validated ledger index
+}
+
 /** Mutable runtime state shared across phases (NOT for publishing). */
 export interface RunContext {
     readonly cfg: RunConfig;
     runId: string,
+    accountIndex: number; // HD derivation index of the wallets used by this context
+    slot: number;         // Concurrency slot (0 when runs are sequential)
     ts: RunTimestamps;
     txs: RunTxs;
+    routeTimings?: RouteTimings;   // Timings declared by the route, under cfg.timings (see resolveTimings)
     previousTargetTxHash?: string; // Transaction hash from previous run to exclude from observation
+    expected?: ExpectedArrival; // Set by the source adapter on submit, used to correlate the arrival
+    observeFrom?: ObserveStart; // Target chain head before submit: observation starts (and backfills) from here
+    recovered?: boolean;        // Arrival observed by the recover command, dated on-chain instead of on discovery
+    bridgePhases?: BridgePhase[]; // Status changes reported by the bridge during the run
+    integrityFlags?: IntegrityFlag[]; // Data integrity decisions taken during the run
     cache: {
         xrpl?: {
             client: import("xrpl").Client;
@@ -175,4 +369,43 @@ export interface RunRecord {
     success: boolean;
     abort_reason?: string;
     error_type?: string; // TIMEOUT, NOT_FUNDED_ADDRESS, etc. Empty if not detected
+    wallet?: RunWallet;
+    correlation?: ArrivalCorrelation;
+    bridgePhases?: BridgePhase[];
+    integrityFlags?: IntegrityFlag[];
+    usdConversions?: UsdConversion[]; // Every USD value of the run (costs, transfer amount), with its price snapshot and provenance
+}
+
+/**
+ * Run left out of the batch records by a data integrity decision (ignore-run, abort-batch),
+ * kept in {batchId}_excluded.jsonl so that excluded runs and the funds they spent stay visible
+ */
+export interface ExcludedRun {
+    runId: string;
+    runNumber: number;
+    excludedAt: number;
+    action: 'ignore-run' | 'abort-batch';
+    reason: string;                   // Message of the decision
+    issue?: IntegrityIssue;           // Issue that led to the decision
+    decidedBy?: IntegrityFlag['decidedBy'];
+    abort_reason?: string;            // Error of a failed run whose failure record was dropped
+    timestamps: RunTimestamps;
+    txs: RunTxs;
+    costs: RunCosts | null;           // Costs computed before the decision (null ones were not reached)
+    integrityFlags?: IntegrityFlag[];
+    wallet?: RunWallet;
+}
+
+/** Status change reported by the bridge status API (1Click, Axelar GMP) */
+export interface BridgePhase {
+    status: string;
+    at: number; // When the status was first seen
+}
+
+/** Wallets that performed a run (one pair per concurrency slot). */
+export interface RunWallet {
+    slot: number;
+    accountIndex: number;
+    xrplAddress?: string;
+    evmAddress?: string;
 }
@@ -0,0 +1,32 @@
+import { formatUnits } from "viem";
+import type { RawAmount } from "../types";
+
+export const XRP_DECIMALS = 6;         // Drops
+export const EVM_NATIVE_DECIMALS = 18; // Wei (XRP on XRPL-EVM, ETH, FLR)
+export const ZERO_RAW: RawAmount = { raw: "0", decimals: 0 };
+
+/** Exact amount from base units: XRPL drops (string), EVM wei or token units (bigint) */
+export function rawAmount(units: string | bigint, decimals: number): RawAmount {
+  return { raw: BigInt(units).toString(), decimals };
+}
+
+/** Float value of a raw amount, the only conversion to a JS number */
+export function rawToNumber(amount: RawAmount): number {
+  return Number(formatUnits(BigInt(amount.raw), amount.decimals));
+}
+
+/**
+ * Exact sum of raw amounts of the same currency, scaled to the largest number of decimals
+ * (e.g. drops + wei in wei). Null if any term is missing.
+ */
+export function sumRaw(...amounts: Array<RawAmount | null | undefined>): RawAmount | null {
+  if (amounts.some(a => !a)) return null;
+  const decimals = Math.max(...amounts.map(a => a!.decimals));
+  const total = amounts.reduce((sum, a) => sum + BigInt(a!.raw) * 10n ** BigInt(decimals - a!.decimals), 0n);
+  return { raw: total.toString(), decimals };
+}
+
+export function negateRaw(amount: RawAmount | null | undefined): RawAmount | null {
+  if (!amount) return null;
+  return { raw: (-BigInt(amount.raw)).toString(), decimals: amount.decimals };
+}
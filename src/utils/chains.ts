@@ -1,4 +1,6 @@
 import { defineChain } from "viem";
+import { flare } from "viem/chains";
+import type { ChainDescriptor } from "../types";
 
 // export const xrplevm = defineChain({
 //     id: 1440000,
@@ -69,3 +71,11 @@ export const base = defineChain({
     },
   },
 })
+
+/** Chains used by the bridge routes (see runners/registry.ts) */
+export const CHAINS = {
+  xrpl: { key: 'xrpl', name: 'XRPL', family: 'xrpl' },
+  xrplEvm: { key: 'xrpl-evm', name: 'XRPL-EVM', family: 'evm', evmChain: xrplevm },
+  base: { key: 'base', name: 'Base', family: 'evm', evmChain: base },
+  flare: { key: 'flare', name: 'Flare', family: 'evm', evmChain: flare },
+} satisfies Record<string, ChainDescriptor>;
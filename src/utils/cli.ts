@@ -1,12 +1,25 @@
 import chalk from "chalk";
 import { NetworkDirection } from "../types";
+import { findRouteByChains, formatRouteLabel, listBridges, listChainKeys } from "../runners/registry";
+
+/** Commands given as the first positional argument (e.g. `npm start -- recover`) */
+export const CLI_COMMANDS = ['recover', 'compare', 'sweep', 'campaign', 'reprice'] as const;
 
 export interface CliArgs {
     help: boolean;
+    command?: string;
+    commandArgs: string[]; // Positional arguments following the command
     src?: string;
     dst?: string;
     amount?: number;
+    amounts?: string; // Amount sweep: list (1,5,10) or range (from:to:step)
     runs?: number;
+    concurrency?: number;
+    accountIndex?: number;
+    resume?: string;
+    out?: string; // Output path of the compare report, without extension
+    config?: string; // Experiment config file (JSON)
+    nonInteractive: boolean; // Apply the integrity policies instead of prompting
 }
 
 export interface CliValidation {
@@ -15,7 +28,10 @@ export interface CliValidation {
     direction?: NetworkDirection;
     bridgeType?: string;
     amount?: number;
+    amounts?: number[]; // Amount sweep, one batch per amount
     runs?: number;
+    concurrency?: number;
+    accountIndex?: number;
 }
 
 /**
@@ -23,7 +39,9 @@ export interface CliValidation {
  */
 export function parseCliArgs(): CliArgs {
     const args: CliArgs = {
-        help: false
+        help: false,
+        commandArgs: [],
+        nonInteractive: false
     };
 
     for (let i = 2; i < process.argv.length; i++) {
@@ -47,10 +65,46 @@ export function parseCliArgs(): CliArgs {
                 args.amount = parseFloat(nextArg);
                 i++;
                 break;
+            case '--amounts':
+                args.amounts = nextArg;
+                i++;
+                break;
             case '--runs':
                 args.runs = parseInt(nextArg, 10);
                 i++;
                 break;
+            case '--concurrency':
+                args.concurrency = parseInt(nextArg, 10);
+                i++;
+                break;
+            case '--account-index':
+                args.accountIndex = parseInt(nextArg, 10);
+                i++;
+                break;
+            case '--resume':
+                args.resume = nextArg;
+                i++;
+                break;
+            case '--out':
+                args.out = nextArg;
+                i++;
+                break;
+            case '--config':
+                args.config = nextArg;
+                i++;
+                break;
+            case '--non-interactive':
+                args.nonInteractive = true;
+                break;
+            default:
+                if (!arg.startsWith('-')) {
+                    if (args.command === undefined) {
+                        args.command = arg.toLowerCase();
+                    } else {
+                        args.commandArgs.push(arg);
+                    }
+                }
+                break;
         }
     }
 
@@ -66,27 +120,49 @@ export function displayHelp(): void {
     console.log(chalk.bold.cyan('╚══════════════════════════════════════════════════════════════════════════════╝\n'));
 
     console.log(chalk.bold('USAGE:'));
-    console.log('  npm start [options]\n');
+    console.log('  npm start [options]');
+    console.log('  npm start -- <command> [args]\n');
+
+    const chainKeys = listChainKeys().join(', ');
 
     console.log(chalk.bold('OPTIONS:'));
     console.log(`  ${chalk.cyan('-h, --help')}              Show this help message`);
-    console.log(`  ${chalk.cyan('--src <chain>')}           Source chain (xrpl, base, xrpl-evm, flare)`);
-    console.log(`  ${chalk.cyan('--dst <chain>')}           Destination chain (xrpl, base, xrpl-evm, flare)`);
+    console.log(`  ${chalk.cyan('--src <chain>')}           Source chain (${chainKeys})`);
+    console.log(`  ${chalk.cyan('--dst <chain>')}           Destination chain (${chainKeys})`);
     console.log(`  ${chalk.cyan('--amount <number>')}       Amount of XRP/FXRP to transfer (default: varies by bridge)`);
-    console.log(`  ${chalk.cyan('--runs <number>')}         Number of test runs to execute (default: 1)\n`);
+    console.log(`  ${chalk.cyan('--amounts <list|range>')}  Amount sweep, one batch of --runs runs per amount (1,5,10 or from:to:step)`);
+    console.log(`  ${chalk.cyan('--runs <number>')}         Number of test runs to execute (default: 1)`);
+    console.log(`  ${chalk.cyan('--concurrency <number>')}  Number of transfers in flight at once (default: 1)`);
+    console.log(`  ${chalk.cyan('--account-index <n>')}     HD account index of the wallets derived from MNEMONIC (default: 0)`);
+    console.log(`  ${chalk.cyan('--resume <batchId>')}      Continue the remaining runs of an interrupted batch`);
+    console.log(`  ${chalk.cyan('--config <file.json>')}    Run the routes, amounts and settings of an experiment config file`);
+    console.log(`  ${chalk.cyan('--non-interactive')}       Never prompt on data integrity issues, apply the policies instead\n`);
+
+    console.log(chalk.bold('COMMANDS:'));
+    console.log(`  ${chalk.cyan('recover [batchId]')}       Record the arrival of transfers submitted before a crash (all batches by default)`);
+    console.log(`  ${chalk.cyan('compare [folder...]')}     Compare latency and costs between direction folders (all by default)`);
+    console.log(`  ${chalk.cyan('  --out <path>')}          Output path of the JSON/CSV report, without extension`);
+    console.log(`  ${chalk.cyan('sweep <sweepId>')}         Rebuild the report of an amount sweep (e.g. after recover)`);
+    console.log(`  ${chalk.cyan('campaign <file.json>')}    Run (or continue) a scheduled campaign of batches`);
+    console.log(`  ${chalk.cyan('reprice <source> [folder...]')} Recompute the USD costs of saved batches (coingecko, ohlc, ftso, file:<path>)\n`);
 
     console.log(chalk.bold('SUPPORTED DIRECTIONS:'));
-    console.log(`  ${chalk.yellow('XRPL ↔ Base')}        (via Near Intents)`);
-    console.log(`    --src xrpl --dst base        ${chalk.dim('(xrpl_to_base)')}`);
-    console.log(`    --src base --dst xrpl        ${chalk.dim('(base_to_xrpl)')}\n`);
-
-    console.log(`  ${chalk.yellow('XRPL ↔ XRPL-EVM')}   (via Axelar)`);
-    console.log(`    --src xrpl --dst xrpl-evm    ${chalk.dim('(xrpl_to_xrpl_evm)')}`);
-    console.log(`    --src xrpl-evm --dst xrpl    ${chalk.dim('(xrpl_evm_to_xrpl)')}\n`);
-
-    console.log(`  ${chalk.yellow('XRPL ↔ Flare')}      (via FAsset - Manual)`);
-    console.log(`    --src xrpl --dst flare       ${chalk.dim('(xrpl_to_flare - fixed: 10 XRP, 1 run)')}`);
-    console.log(`    --src flare --dst xrpl       ${chalk.dim('(flare_to_xrpl - fixed: 10 FXRP, 1 run)')}\n`);
+    for (const bridge of listBridges()) {
+        const [first] = bridge.routes;
+        const manual = bridge.routes.some(r => r.constraints?.manual) ? ' - Manual' : '';
+        const label = `${first.source.name} ↔ ${first.target.name}`;
+        console.log(`  ${chalk.yellow(label.padEnd(18))} (via ${bridge.displayName}${manual})`);
+
+        for (const route of bridge.routes) {
+            const flags = `--src ${route.source.key} --dst ${route.target.key}`;
+            const { fixedAmount, fixedRuns } = route.constraints ?? {};
+            const fixed = fixedAmount || fixedRuns
+                ? ` - fixed: ${route.defaults.amount} ${route.amountUnit}, ${route.defaults.runs} run${route.defaults.runs > 1 ? 's' : ''}`
+                : '';
+            console.log(`    ${flags.padEnd(29)}${chalk.dim(`(${route.direction}${fixed})`)}`);
+        }
+        console.log('');
+    }
 
     console.log(chalk.bold('EXAMPLES:'));
     console.log(`  ${chalk.dim('# Transfer 4 XRP from XRPL to Base, 3 runs')}`);
@@ -95,36 +171,45 @@ export function displayHelp(): void {
     console.log(`  ${chalk.dim('# Transfer 2 XRP from XRPL to XRPL-EVM')}`);
     console.log(`  npm start --src xrpl --dst xrpl-evm --amount 2\n`);
 
+    console.log(`  ${chalk.dim('# 10 runs from XRPL to Base, 5 transfers in flight at once')}`);
+    console.log(`  npm start --src xrpl --dst base --amount 4 --runs 10 --concurrency 5\n`);
+
+    console.log(`  ${chalk.dim('# Sweep 1, 5, 10, 50 and 100 XRP from XRPL to XRPL-EVM, 5 runs each, and fit the fee model')}`);
+    console.log(`  npm start --src xrpl --dst xrpl-evm --amounts 1,5,10,50,100 --runs 5\n`);
+
     console.log(`  ${chalk.dim('# FAsset bridge (amount and runs are fixed)')}`);
     console.log(`  npm start --src xrpl --dst flare\n`);
 
+    console.log(`  ${chalk.dim('# Resume a batch interrupted by a crash or Ctrl-C')}`);
+    console.log(`  npm start --resume 2025-01-01T10-00-00-000Z_xrpl_to_base_mainnet_xrpl_to_base_1735725600000\n`);
+
+    console.log(`  ${chalk.dim('# Record the arrivals of transfers that were in flight when the process died')}`);
+    console.log(`  npm start -- recover\n`);
+
+    console.log(`  ${chalk.dim('# Compare the latency and cost distributions of two routes')}`);
+    console.log(`  npm start -- compare axelar_xrpl_to_xrpl_evm near-intents_xrpl_to_base\n`);
+
+    console.log(`  ${chalk.dim('# Run an experiment described in a config file (copied into every batch folder)')}`);
+    console.log(`  npm start --config experiments/baseline.json\n`);
+
+    console.log(`  ${chalk.dim('# Batches every 2 hours for a week (run the same command again to continue after a restart)')}`);
+    console.log(`  npm start -- campaign campaigns/week.json\n`);
+
+    console.log(`  ${chalk.dim('# Re-price the saved Axelar batches with 1-minute candles (new record versions, metrics rebuilt)')}`);
+    console.log(`  npm start -- reprice ohlc axelar_xrpl_to_xrpl_evm axelar_xrpl_evm_to_xrpl\n`);
+
     console.log(`  ${chalk.dim('# Interactive menu mode (no parameters)')}`);
     console.log(`  npm start\n`);
 
     console.log(chalk.bold('NOTES:'));
     console.log(`  ${chalk.dim('• All operations use mainnet (real funds)')}`);
     console.log(`  ${chalk.dim('• FAsset bridge has fixed configuration: 10 XRP/FXRP, 1 run')}`);
+    console.log(`  ${chalk.dim('• If --amount is omitted, the default amount of the route is used')}`);
+    console.log(`  ${chalk.dim('• With --concurrency N, slot i uses the wallets of account index (--account-index + i) derived from MNEMONIC (all must be funded)')}`);
+    console.log(`  ${chalk.dim('• Data integrity issues (failed price conversion, negative cost) are decided by policies without a terminal or with --non-interactive')}`);
     console.log(`  ${chalk.dim('• If parameters are missing or invalid, the interactive menu will be shown')}\n`);
 }
 
-/**
- * Map src/dst chain names to NetworkDirection and bridge type
- */
-function getDirectionAndBridge(src: string, dst: string): { direction: NetworkDirection; bridgeType: string } | null {
-    const key = `${src}_${dst}`;
-
-    const mapping: Record<string, { direction: NetworkDirection; bridgeType: string }> = {
-        'xrpl_base': { direction: 'xrpl_to_base', bridgeType: 'near-intents' },
-        'base_xrpl': { direction: 'base_to_xrpl', bridgeType: 'near-intents' },
-        'xrpl_xrpl-evm': { direction: 'xrpl_to_xrpl_evm', bridgeType: 'axelar' },
-        'xrpl-evm_xrpl': { direction: 'xrpl_evm_to_xrpl', bridgeType: 'axelar' },
-        'xrpl_flare': { direction: 'xrpl_to_flare', bridgeType: 'fasset' },
-        'flare_xrpl': { direction: 'flare_to_xrpl', bridgeType: 'fasset' },
-    };
-
-    return mapping[key] || null;
-}
-
 /**
  * Validate CLI arguments and return validation result
  */
@@ -141,13 +226,15 @@ export function validateCliArgs(args: CliArgs): CliValidation {
         return result;
     }
 
+    const chainKeys = listChainKeys().join(', ');
+
     // Validate src and dst are both provided
     if (!args.src) {
-        errors.push('Missing --src parameter. Specify source chain (xrpl, base, xrpl-evm, flare).');
+        errors.push(`Missing --src parameter. Specify source chain (${chainKeys}).`);
     }
 
     if (!args.dst) {
-        errors.push('Missing --dst parameter. Specify destination chain (xrpl, base, xrpl-evm, flare).');
+        errors.push(`Missing --dst parameter. Specify destination chain (${chainKeys}).`);
     }
 
     if (!args.src || !args.dst) {
@@ -156,55 +243,101 @@ export function validateCliArgs(args: CliArgs): CliValidation {
     }
 
     // Validate direction exists
-    const directionInfo = getDirectionAndBridge(args.src, args.dst);
+    const registered = findRouteByChains(args.src, args.dst);
 
-    if (!directionInfo) {
+    if (!registered) {
         errors.push(`Invalid direction: ${args.src} → ${args.dst}`);
         errors.push(`Supported directions:`);
-        errors.push(`  • xrpl ↔ base (Near Intents)`);
-        errors.push(`  • xrpl ↔ xrpl-evm (Axelar)`);
-        errors.push(`  • xrpl ↔ flare (FAsset)`);
+        for (const bridge of listBridges()) {
+            const [first] = bridge.routes;
+            errors.push(`  • ${first.source.key} ↔ ${first.target.key} (${bridge.displayName})`);
+        }
         result.errors = errors;
         return result;
     }
 
-    result.direction = directionInfo.direction;
-    result.bridgeType = directionInfo.bridgeType;
+    const { bridge, route } = registered;
+    const constraints = route.constraints ?? {};
+
+    result.direction = route.direction;
+    result.bridgeType = bridge.id;
+
+    // Validate amount sweep
+    if (args.amounts !== undefined) {
+        const amounts = parseAmountList(args.amounts);
+        if (constraints.fixedAmount) {
+            errors.push(`${bridge.displayName} bridge uses a fixed amount of ${route.defaults.amount} ${route.amountUnit}, it cannot be swept.`);
+        } else if (args.amount !== undefined) {
+            errors.push(`Use either --amount or --amounts, not both.`);
+        } else if (!amounts) {
+            errors.push(`Invalid amounts: ${args.amounts}. Use a list of positive numbers (1,5,10) or a range (from:to:step).`);
+        } else if (constraints.minAmount !== undefined && amounts.some(a => a < constraints.minAmount!)) {
+            errors.push(`Invalid amounts: ${args.amounts}. ${formatRouteLabel(route)} requires at least ${constraints.minAmount} ${route.amountUnit}.`);
+        } else {
+            result.amounts = amounts;
+        }
+    }
 
-    // Special handling for FAsset bridge
-    if (directionInfo.bridgeType === 'fasset') {
-        result.amount = 10;
-        result.runs = 1;
+    // Validate amount
+    if (result.amounts) {
+        result.amount = result.amounts[0];
+    } else if (constraints.fixedAmount) {
+        result.amount = route.defaults.amount;
 
-        // Warn if user provided custom values
-        if (args.amount && args.amount !== 10) {
-            console.log(chalk.yellow(`⚠️  FAsset bridge uses fixed amount: 10 XRP/FXRP (ignoring --amount ${args.amount})`));
+        // Warn if user provided a custom value
+        if (args.amount && args.amount !== route.defaults.amount) {
+            console.log(chalk.yellow(`⚠️  ${bridge.displayName} bridge uses fixed amount: ${route.defaults.amount} ${route.amountUnit} (ignoring --amount ${args.amount})`));
         }
-        if (args.runs && args.runs !== 1) {
-            console.log(chalk.yellow(`⚠️  FAsset bridge uses fixed runs: 1 (ignoring --runs ${args.runs})`));
+    } else if (args.amount !== undefined) {
+        if (isNaN(args.amount) || args.amount <= 0) {
+            errors.push(`Invalid amount: ${args.amount}. Must be a positive number.`);
+        } else if (constraints.minAmount !== undefined && args.amount < constraints.minAmount) {
+            errors.push(`Invalid amount: ${args.amount}. ${formatRouteLabel(route)} requires at least ${constraints.minAmount} ${route.amountUnit}.`);
+        } else {
+            result.amount = args.amount;
         }
     } else {
-        // Validate amount
-        if (args.amount !== undefined) {
-            if (isNaN(args.amount) || args.amount <= 0) {
-                errors.push(`Invalid amount: ${args.amount}. Must be a positive number.`);
-            } else {
-                result.amount = args.amount;
-            }
+        // Default amount of the route if not specified
+        result.amount = route.defaults.amount;
+    }
+
+    // Validate runs
+    if (constraints.fixedRuns) {
+        result.runs = route.defaults.runs;
+
+        // Warn if user provided a custom value
+        if (args.runs && args.runs !== route.defaults.runs) {
+            console.log(chalk.yellow(`⚠️  ${bridge.displayName} bridge uses fixed runs: ${route.defaults.runs} (ignoring --runs ${args.runs})`));
+        }
+    } else if (args.runs !== undefined) {
+        if (isNaN(args.runs) || args.runs <= 0 || !Number.isInteger(args.runs)) {
+            errors.push(`Invalid runs: ${args.runs}. Must be a positive integer.`);
         } else {
-            errors.push('Missing --amount parameter. Specify amount of XRP to transfer.');
+            result.runs = args.runs;
         }
+    } else {
+        // Default runs of the route if not specified
+        result.runs = route.defaults.runs;
+    }
 
-        // Validate runs
-        if (args.runs !== undefined) {
-            if (isNaN(args.runs) || args.runs <= 0 || !Number.isInteger(args.runs)) {
-                errors.push(`Invalid runs: ${args.runs}. Must be a positive integer.`);
-            } else {
-                result.runs = args.runs;
-            }
+    // Validate account index
+    if (args.accountIndex !== undefined) {
+        if (isNaN(args.accountIndex) || args.accountIndex < 0) {
+            errors.push(`Invalid account index: ${args.accountIndex}. Must be a non-negative integer.`);
         } else {
-            // Default to 1 run if not specified
-            result.runs = 1;
+            result.accountIndex = args.accountIndex;
+        }
+    }
+
+    // Validate concurrency
+    if (args.concurrency !== undefined) {
+        if (isNaN(args.concurrency) || args.concurrency <= 0) {
+            errors.push(`Invalid concurrency: ${args.concurrency}. Must be a positive integer.`);
+        } else if (args.concurrency > 1 && constraints.manual) {
+            console.log(chalk.yellow(`⚠️  ${bridge.displayName} bridge is manual, runs are sequential (ignoring --concurrency ${args.concurrency})`));
+            result.concurrency = 1;
+        } else {
+            result.concurrency = args.concurrency;
         }
     }
 
@@ -214,6 +347,31 @@ export function validateCliArgs(args: CliArgs): CliValidation {
     return result;
 }
 
+/**
+ * Parse the amounts of a sweep: a comma-separated list (1,5,10) or an inclusive range (from:to:step).
+ * Returns null if any amount is not a positive number.
+ */
+export function parseAmountList(spec: string): number[] | null {
+    let amounts: number[];
+
+    const range = spec.split(':');
+    if (range.length === 3) {
+        const [from, to, step] = range.map(Number);
+        if (![from, to, step].every(Number.isFinite) || step <= 0 || to < from) return null;
+        amounts = [];
+        // Rounded to the step precision so that 0.1 steps do not drift
+        const decimals = Math.max(...[range[0], range[2]].map(v => (v.split('.')[1] ?? '').length));
+        for (let i = 0; from + i * step <= to + step * 1e-9; i++) {
+            amounts.push(Number((from + i * step).toFixed(decimals)));
+        }
+    } else {
+        amounts = spec.split(',').map(a => Number(a.trim()));
+    }
+
+    if (amounts.length === 0 || amounts.some(a => !Number.isFinite(a) || a <= 0)) return null;
+    return [...new Set(amounts)];
+}
+
 /**
  * Display validation errors
  */
@@ -9,6 +9,13 @@ export const XRP_TOKEN_ID = "0xba5a21ca88ef6bba2bfff5088994f90e1077e2a1cc3dcc38b
 // Gas payment amount for interchain transfers (0.5 XRP)
 export const INTERCHAIN_GAS_AMOUNT = 500000000000000000n;
 
+// BIP44 derivation paths of the wallets derived from MNEMONIC (the account index is appended)
+export const XRPL_DERIVATION_PATH_PREFIX = "m/44'/144'/0'/0";
+export const EVM_DERIVATION_PATH_PREFIX = "m/44'/60'/0'/0";
+
+// Relative tolerance around the quoted amount for an arrival to be matched to its transfer
+export const ARRIVAL_AMOUNT_TOLERANCE = 0.05;
+
 // Near Intents (OneClick SDK) Token IDs
 export const NEAR_INTENTS_TOKEN_IDS = {
     XRP_ON_XRPL: 'nep141:xrp.omft.near',
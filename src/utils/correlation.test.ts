@@ -0,0 +1,58 @@
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+import type { RunContext } from "../types";
+import { createArrivalCorrelator } from "./correlation";
+
+const SOURCE_TX = "0xabc123";
+
+function makeContext(expected: RunContext["expected"]): RunContext {
+    return { expected, txs: { sourceTxHash: SOURCE_TX } } as RunContext;
+}
+
+describe("createArrivalCorrelator", () => {
+    test("the delivery reported by the bridge wins over the amount", async () => {
+        const correlator = createArrivalCorrelator(makeContext({ amount: 10 }), async () => ["0xDELIVERY"]);
+        assert.equal(await correlator.match({ txHash: "0xother", seenAt: 1000, amount: 10 }), null);
+        const correlation = await correlator.match({ txHash: "0xdelivery", seenAt: 1000, amount: 7 });
+        assert.equal(correlation?.method, "bridge-status");
+        assert.equal(correlation?.rejectedCandidates, 1);
+    });
+
+    test("a memo with the source tx hash, then the amount within the tolerance", async () => {
+        const correlator = createArrivalCorrelator(makeContext({ amount: 10, minAmount: 9.8 }));
+        assert.equal((await correlator.match({ txHash: "A", seenAt: 1000, amount: 1, memos: ["ABC123"] }))?.method, "memo");
+        assert.equal(await correlator.match({ txHash: "B", seenAt: 1000, amount: 9 }), null);
+        assert.equal((await correlator.match({ txHash: "C", seenAt: 1000, amount: 9.5 }))?.method, "amount");
+    });
+
+    test("a candidate rejected before the bridge indexed the transfer is accepted on recheck", async () => {
+        let deliveryHashes: string[] | undefined;
+        const correlator = createArrivalCorrelator(makeContext({ amount: 10 }), async () => deliveryHashes);
+
+        // Far from the quote (e.g. a different fee than quoted) and not known by the bridge yet
+        const candidate = { txHash: "0xlate", seenAt: 1000, amount: 5 };
+        assert.equal(await correlator.match(candidate), null);
+        assert.equal(await correlator.recheck(), null);
+
+        deliveryHashes = ["0xlate"];
+        const found = await correlator.recheck();
+        assert.equal(found?.candidate, candidate);
+        assert.equal(found?.correlation.method, "bridge-status");
+        assert.equal(found?.correlation.rejectedCandidates, 0);
+        assert.equal(await correlator.recheck(), null);
+    });
+
+    test("a transfer seen again on a later poll keeps the time it was first seen", async () => {
+        const correlator = createArrivalCorrelator(makeContext({ amount: 10 }));
+        assert.equal(await correlator.match({ txHash: "0xpolled", seenAt: 1000, amount: 5 }), null);
+        assert.equal(await correlator.match({ txHash: "0xpolled", seenAt: 9000, amount: 5 }), null);
+        assert.equal(correlator.firstSeenAt("0xpolled"), 1000);
+        assert.equal(correlator.firstSeenAt("0xunknown"), undefined);
+    });
+
+    test("without a bridge status there is nothing to recheck", async () => {
+        const correlator = createArrivalCorrelator(makeContext({ amount: 10 }));
+        assert.equal(await correlator.match({ txHash: "0xlow", seenAt: 1000, amount: 1 }), null);
+        assert.equal(await correlator.recheck(), null);
+    });
+});
@@ -0,0 +1,146 @@
+import chalk from "chalk";
+import type { ArrivalCorrelation, RunContext } from "../types";
+import { ARRIVAL_AMOUNT_TOLERANCE } from "./constants";
+
+const LOOKUP_CACHE_MS = 5_000;
+export const RECHECK_INTERVAL_MS = 5_000; // Default, see RouteTimings.pollIntervalMs
+
+/** Incoming transfer seen by an observe loop, candidate to be the arrival of the run */
+export interface ArrivalCandidate {
+    txHash: string;
+    seenAt: number;          // When the observer saw the transfer (ms), ledger/block time when backfilled
+    amount: number;          // Received amount, in the target currency
+    token?: string;          // Token contract (EVM targets)
+    memos?: string[];        // Memo data (XRPL targets, see decodeXrplMemos)
+}
+
+/**
+ * Destination tx hashes reported by the bridge for the transfer of the run,
+ * or undefined while the bridge does not know them yet
+ */
+export type BridgeStatusLookup = () => Promise<string[] | undefined>;
+
+export interface ArrivalCorrelator<C extends ArrivalCandidate = ArrivalCandidate> {
+    /** Evidence that the candidate is the arrival of the run, or null if it belongs to something else */
+    match(candidate: C): Promise<ArrivalCorrelation | null>;
+    /**
+     * Match the rejected candidates again against the current bridge status: the first one that is now
+     * reported as the delivery, or null. Call it on every status poll when candidates are only seen once
+     * (XRPL stream), so that a transfer rejected before the status API indexed it is not lost.
+     */
+    recheck(): Promise<{ candidate: C; correlation: ArrivalCorrelation } | null>;
+    /** seenAt of the first candidate with this tx hash: observers that poll see a rejected transfer again */
+    firstSeenAt(txHash: string): number | undefined;
+}
+
+/**
+ * Match incoming transfers to the source transfer of the run, strongest evidence first:
+ * 1. the delivery tx reported by the bridge status API
+ * 2. the token carried by the arrival, or a memo that echoes the source tx hash
+ * 3. the received amount within ARRIVAL_AMOUNT_TOLERANCE of the quote
+ * Without any expectation the candidate is accepted as 'unverified'.
+ */
+export function createArrivalCorrelator<C extends ArrivalCandidate = ArrivalCandidate>(ctx: RunContext, lookup?: BridgeStatusLookup): ArrivalCorrelator<C> {
+    const rejected = new Map<string, C>();
+    const firstSeen = new Map<string, number>();
+
+    // Candidates found by the same poll share one bridge status request
+    let lastLookup: { at: number; hashes: Promise<string[] | undefined> } | undefined;
+    const lookupDeliveryHashes = (): Promise<string[] | undefined> => {
+        if (!lastLookup || Date.now() - lastLookup.at > LOOKUP_CACHE_MS) {
+            lastLookup = { at: Date.now(), hashes: lookup!() };
+        }
+        return lastLookup.hashes;
+    };
+
+    const reject = (candidate: C, reason: string): null => {
+        if (!rejected.has(candidate.txHash)) {
+            rejected.set(candidate.txHash, candidate);
+            console.log(chalk.dim(`   Not this run's transfer (${reason}): ${candidate.txHash}`));
+        }
+        return null;
+    };
+
+    const accept = (candidate: C, method: ArrivalCorrelation['method'], reference?: string): ArrivalCorrelation => {
+        const expectedAmount = ctx.expected?.amount;
+        rejected.delete(candidate.txHash);
+        return {
+            method,
+            reference,
+            expectedAmount,
+            receivedAmount: candidate.amount,
+            amountDeviation: expectedAmount ? (candidate.amount - expectedAmount) / expectedAmount : undefined,
+            rejectedCandidates: rejected.size,
+        };
+    };
+
+    const match = async (candidate: C): Promise<ArrivalCorrelation | null> => {
+        const expected = ctx.expected ?? {};
+        if (!firstSeen.has(candidate.txHash)) firstSeen.set(candidate.txHash, candidate.seenAt);
+
+        if (lookup) {
+            let deliveryHashes: string[] | undefined;
+            try {
+                deliveryHashes = await lookupDeliveryHashes();
+            } catch (err) {
+                console.log(chalk.dim(`   Bridge status lookup failed: ${err instanceof Error ? err.message : String(err)}`));
+            }
+
+            if (deliveryHashes && deliveryHashes.length > 0) {
+                const isDelivery = deliveryHashes.some(h => h.toLowerCase() === candidate.txHash.toLowerCase());
+                return isDelivery
+                    ? accept(candidate, 'bridge-status', candidate.txHash)
+                    : reject(candidate, `bridge reports delivery in ${deliveryHashes.join(", ")}`);
+            }
+        }
+
+        if (expected.token && candidate.token && expected.token.toLowerCase() !== candidate.token.toLowerCase()) {
+            return reject(candidate, `token ${candidate.token} instead of ${expected.token}`);
+        }
+
+        // Bridges that echo the source tx hash in a memo
+        const memos = (candidate.memos ?? []).map(m => m.toLowerCase());
+        const sourceTxHash = ctx.txs.sourceTxHash?.toLowerCase().replace(/^0x/, "");
+        if (sourceTxHash && memos.some(m => m.includes(sourceTxHash))) {
+            return accept(candidate, 'memo', ctx.txs.sourceTxHash);
+        }
+
+        if (expected.amount !== undefined) {
+            const min = (expected.minAmount ?? expected.amount) * (1 - ARRIVAL_AMOUNT_TOLERANCE);
+            const max = expected.amount * (1 + ARRIVAL_AMOUNT_TOLERANCE);
+            return candidate.amount >= min && candidate.amount <= max
+                ? accept(candidate, 'amount')
+                : reject(candidate, `amount ${candidate.amount} outside ${min.toFixed(6)}-${max.toFixed(6)}`);
+        }
+
+        return accept(candidate, 'unverified');
+    };
+
+    return {
+        match,
+        async recheck() {
+            // Without a bridge status, the verdict on a candidate cannot change
+            if (!lookup || rejected.size === 0) return null;
+            lastLookup = undefined; // A new status poll
+            for (const candidate of [...rejected.values()]) {
+                const correlation = await match(candidate);
+                if (correlation) return { candidate, correlation };
+            }
+            return null;
+        },
+        firstSeenAt(txHash: string) {
+            return firstSeen.get(txHash);
+        },
+    };
+}
+
+/**
+ * MemoData fields of an XRPL transaction, both decoded (hex → UTF-8) and raw (binary memos such as hashes)
+ */
+export function decodeXrplMemos(tx: any): string[] {
+    const memos: any[] = tx?.Memos ?? [];
+    return memos
+        .map(m => m?.Memo?.MemoData as string | undefined)
+        .filter((data): data is string => typeof data === "string" && data.length > 0)
+        .flatMap(data => [Buffer.from(data, "hex").toString("utf-8"), data.toLowerCase()]);
+}
@@ -1,10 +1,87 @@
 import chalk from "chalk";
 import readline from "readline";
+import type { DataIntegrityAction, IntegrityFlag, IntegrityIssue, IntegrityPolicy, RunConfig, RunCosts } from "../types";
+
+export type { DataIntegrityAction };
+
+/**
+ * Policies applied when nobody can answer the prompts: retry the price conversion twice more then ignore the run,
+ * keep runs with negative costs (flagged in their record)
+ */
+export const DEFAULT_INTEGRITY_POLICIES: Record<IntegrityIssue, IntegrityPolicy> = {
+    'price-conversion': { action: 'ignore-run', retries: 2 },
+    'negative-cost': { action: 'save-anyway' },
+};
+
+let promptQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run prompts one at a time so that concurrent runs never read stdin simultaneously
+ */
+function withPromptLock<T>(prompt: () => Promise<T>): Promise<T> {
+    const result = promptQueue.then(prompt);
+    promptQueue = result.catch(() => undefined);
+    return result;
+}
 
 /**
- * Data integrity issue actions
+ * Whether the issues of a batch are decided by its policies: --non-interactive, or stdin is not a terminal
  */
-export type DataIntegrityAction = 'retry' | 'ignore-run' | 'abort-batch' | 'save-anyway';
+export function isNonInteractive(cfg: RunConfig): boolean {
+    return cfg.nonInteractive === true || !process.stdin.isTTY;
+}
+
+function policyFor(cfg: RunConfig, issue: IntegrityIssue): IntegrityPolicy {
+    return cfg.integrityPolicies?.[issue] ?? DEFAULT_INTEGRITY_POLICIES[issue];
+}
+
+/**
+ * Decide what to do when price conversion keeps failing: ask the user, or apply the policy of the batch.
+ * `failedRounds` counts the rounds of retries that failed so far (1 on the first call).
+ */
+export async function decidePriceConversionIssue(
+    cfg: RunConfig,
+    currency: string,
+    amount: number,
+    error: Error,
+    failedRounds: number
+): Promise<IntegrityFlag> {
+    const detail = `price conversion of ${amount} ${currency} to USD failed: ${error.message}`;
+    if (!isNonInteractive(cfg)) {
+        const action = await askPriceConversionAction(currency, amount, error);
+        return { issue: 'price-conversion', detail, action, decidedBy: 'user', at: Date.now() };
+    }
+
+    const policy = policyFor(cfg, 'price-conversion');
+    const action = failedRounds <= (policy.retries ?? 0) ? 'retry' : policy.action;
+    console.log(chalk.yellow(`⚠️  ${detail} → ${action} (integrity policy)`));
+    return { issue: 'price-conversion', detail, action, decidedBy: 'policy', at: Date.now() };
+}
+
+/**
+ * Decide what to do with a negative cost: ask the user, or apply the policy of the batch
+ */
+export async function decideNegativeCostIssue(
+    cfg: RunConfig,
+    costType: string,
+    costValue: number,
+    currency: string
+): Promise<IntegrityFlag> {
+    const detail = `negative ${costType}: ${costValue} ${currency}`;
+    if (!isNonInteractive(cfg)) {
+        const action = await askNegativeCostAction(costType, costValue, currency);
+        return { issue: 'negative-cost', detail, action, decidedBy: 'user', at: Date.now() };
+    }
+
+    const { action } = policyFor(cfg, 'negative-cost');
+    console.log(chalk.yellow(`⚠️  ${detail} → ${action} (integrity policy)`));
+    return { issue: 'negative-cost', detail, action, decidedBy: 'policy', at: Date.now() };
+}
+
+/** "User chose" or "Integrity policy chose", for the messages of the exceptions below */
+export function describeDecision(flag: IntegrityFlag): string {
+    return flag.decidedBy === 'user' ? 'User chose' : 'Integrity policy chose';
+}
 
 /**
  * Ask user what to do when price conversion fails
@@ -14,6 +91,14 @@ export async function askPriceConversionAction(
     currency: string,
     amount: number,
     error: Error
+): Promise<DataIntegrityAction> {
+    return withPromptLock(() => promptPriceConversionAction(currency, amount, error));
+}
+
+async function promptPriceConversionAction(
+    currency: string,
+    amount: number,
+    error: Error
 ): Promise<DataIntegrityAction> {
     const rl = readline.createInterface({
         input: process.stdin,
@@ -68,6 +153,14 @@ export async function askNegativeCostAction(
     costType: string,
     costValue: number,
     currency: string
+): Promise<DataIntegrityAction> {
+    return withPromptLock(() => promptNegativeCostAction(costType, costValue, currency));
+}
+
+async function promptNegativeCostAction(
+    costType: string,
+    costValue: number,
+    currency: string
 ): Promise<DataIntegrityAction> {
     const rl = readline.createInterface({
         input: process.stdin,
@@ -118,9 +211,14 @@ export async function askNegativeCostAction(
  * Exception class for when user chooses to abort batch
  */
 export class BatchAbortedException extends Error {
-    constructor(message: string) {
+    flag?: IntegrityFlag; // Decision that aborted the batch
+    costs?: RunCosts;     // Costs of the run computed before the decision
+
+    constructor(message: string, flag?: IntegrityFlag, costs?: RunCosts) {
         super(message);
         this.name = 'BatchAbortedException';
+        this.flag = flag;
+        this.costs = costs;
     }
 }
 
@@ -128,8 +226,13 @@ export class BatchAbortedException extends Error {
  * Exception class for when user chooses to ignore run
  */
 export class RunIgnoredException extends Error {
-    constructor(message: string) {
+    flag?: IntegrityFlag; // Decision that ignored the run
+    costs?: RunCosts;     // Costs of the run computed before the decision
+
+    constructor(message: string, flag?: IntegrityFlag, costs?: RunCosts) {
         super(message);
         this.name = 'RunIgnoredException';
+        this.flag = flag;
+        this.costs = costs;
     }
 }
@@ -2,6 +2,7 @@ import dotenv from 'dotenv';
 import { Wallet } from 'xrpl';
 import { mnemonicToAccount } from 'viem/accounts';
 import type { Account } from 'viem';
+import { EVM_DERIVATION_PATH_PREFIX, XRPL_DERIVATION_PATH_PREFIX } from './constants';
 
 dotenv.config();
 
@@ -28,12 +29,26 @@ if (process.env.SQUID_INTEGRATOR_ID === undefined)
     throw new Error('SQUID_INTEGRATOR_ID is undefined');
 export const SQUID_INTEGRATOR_ID = process.env.SQUID_INTEGRATOR_ID;
 
+/**
+ * Only the mnemonic can derive more than one wallet
+ */
+function assertDerivable(accountIndex: number) {
+    if (!Number.isInteger(accountIndex) || accountIndex < 0) {
+        throw new Error(`Invalid account index: ${accountIndex}. Must be a non-negative integer.`);
+    }
+    if (accountIndex > 0 && !MNEMONIC) {
+        throw new Error(`Account index ${accountIndex} requires MNEMONIC (legacy seed/private key only provide index 0)`);
+    }
+}
+
 /**
  * Generate XRPL wallet from mnemonic or seed
+ * accountIndex selects the address of the BIP44 path m/44'/144'/0'/0/{index}
  */
-export function getXrplWallet(): Wallet {
+export function getXrplWallet(accountIndex: number = 0): Wallet {
+    assertDerivable(accountIndex);
     if (MNEMONIC) {
-        return Wallet.fromMnemonic(MNEMONIC);
+        return Wallet.fromMnemonic(MNEMONIC, { derivationPath: `${XRPL_DERIVATION_PATH_PREFIX}/${accountIndex}` });
     }
     if (XRPL_WALLET_SEED) {
         return Wallet.fromSeed(XRPL_WALLET_SEED);
@@ -44,10 +59,12 @@ export function getXrplWallet(): Wallet {
 /**
  * Generate EVM account from mnemonic or private key
  * Returns a viem Account (can be HD wallet from mnemonic or private key account)
+ * accountIndex selects the address of the BIP44 path m/44'/60'/0'/0/{index}
  */
-export function getEvmAccount(): Account {
+export function getEvmAccount(accountIndex: number = 0): Account {
+    assertDerivable(accountIndex);
     if (MNEMONIC) {
-        return mnemonicToAccount(MNEMONIC);
+        return mnemonicToAccount(MNEMONIC, { path: `${EVM_DERIVATION_PATH_PREFIX}/${accountIndex}` });
     }
     if (EVM_WALLET_PRIVATE_KEY) {
         const { privateKeyToAccount } = require('viem/accounts');
@@ -0,0 +1,107 @@
+import "./test-env";
+import test, { after, describe } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { RunConfig, RunRecord } from "../types";
+import { computeMetrics } from "./metrics";
+import {
+  appendRunRecord,
+  createBatchManifest,
+  makePaths,
+  readJsonl,
+  recomputeAllBatchesCsv,
+  recomputeDirectionMetrics,
+  removeRunRecord,
+  replaceRunRecord,
+  saveBatchMetrics,
+  writeBatchManifest,
+  writeJsonAtomic,
+} from "./fsio";
+
+// Results are written under data/results of the working directory
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "fsio-"));
+process.chdir(workDir);
+after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+const ADDRESSES = { xrplAddress: "rTest", evmAddress: "0xTest" };
+
+function makeConfig(tag: string, grouping: Pick<RunConfig, "sweepId" | "campaignId">): RunConfig {
+  return {
+    tag,
+    direction: "xrpl_to_xrpl_evm",
+    bridgeName: "axelar",
+    xrpAmount: 1,
+    runs: 1,
+    networks: {
+      xrpl: { wsUrl: "wss://xrpl.test", gateway: "", walletSeed: "", gas_fee: "" },
+      evm: { rpcUrl: "https://evm.test", gateway: "", walletPrivateKey: "", relayer: "" },
+    },
+    ...grouping,
+  };
+}
+
+/** Column of every row of a CSV, by batch tag */
+function csvColumn(file: string, column: string): Record<string, string> {
+  const [header, ...rows] = fs.readFileSync(file, "utf-8").trim().split("\n").map(line => line.split(","));
+  const tagIndex = header.indexOf("tag");
+  const index = header.indexOf(column);
+  return Object.fromEntries(rows.map(row => [row[tagIndex], row[index]]));
+}
+
+describe("summary CSV rebuilds", () => {
+  const campaignCfg = makeConfig("campaign-batch", { campaignId: "nightly" });
+  const legacyCfg = makeConfig("legacy-batch", { campaignId: "weekly", sweepId: "sweep-1" });
+
+  saveBatchMetrics("campaign-batch", campaignCfg, ADDRESSES, computeMetrics(campaignCfg, [], 1000));
+
+  // Metrics saved before the campaign was echoed in them: the campaign is read from the manifest
+  const legacyPaths = makePaths("legacy-batch", legacyCfg.direction, legacyCfg.bridgeName);
+  saveBatchMetrics("legacy-batch", legacyCfg, ADDRESSES, computeMetrics(legacyCfg, [], 1000));
+  const legacyReport = JSON.parse(fs.readFileSync(legacyPaths.metricsJson, "utf-8"));
+  delete legacyReport.cfgEcho.campaignId;
+  delete legacyReport.cfgEcho.sweepId;
+  writeJsonAtomic(legacyPaths.metricsJson, legacyReport);
+  writeBatchManifest(legacyPaths, createBatchManifest("legacy-batch", legacyCfg));
+
+  test("the metrics echo the sweep and the campaign of the batch", () => {
+    const report = computeMetrics(legacyCfg, [], 1000);
+    assert.equal(report.cfgEcho.campaignId, "weekly");
+    assert.equal(report.cfgEcho.sweepId, "sweep-1");
+  });
+
+  test("the direction summary keeps the campaign of every batch", () => {
+    recomputeDirectionMetrics("axelar", "xrpl_to_xrpl_evm");
+    const paths = makePaths("campaign-batch", campaignCfg.direction, campaignCfg.bridgeName);
+    assert.deepEqual(csvColumn(paths.directionSummaryCsv, "campaignId"), { "campaign-batch": "nightly", "legacy-batch": "weekly" });
+  });
+
+  test("all_batches_metrics.csv keeps the campaign of every batch", () => {
+    recomputeAllBatchesCsv();
+    const paths = makePaths("campaign-batch", campaignCfg.direction, campaignCfg.bridgeName);
+    assert.deepEqual(csvColumn(paths.allBatchesCsv, "campaignId"), { "campaign-batch": "nightly", "legacy-batch": "weekly" });
+  });
+});
+
+describe("run records", () => {
+  const cfg = makeConfig("records-batch", {});
+  const paths = makePaths("records-batch", cfg.direction, cfg.bridgeName);
+  const record = (runId: string, success: boolean) => ({ runId, success, cfg }) as unknown as RunRecord;
+
+  test("a late arrival replaces the failure record of its run, in place", () => {
+    appendRunRecord(paths, record("run1", true));
+    appendRunRecord(paths, record("run2", false));
+    appendRunRecord(paths, record("run3", true));
+
+    replaceRunRecord(paths, record("run2", true));
+    const records = readJsonl<RunRecord>(paths.jsonl);
+    assert.deepEqual(records.map(r => [r.runId, r.success]), [["run1", true], ["run2", true], ["run3", true]]);
+  });
+
+  test("an ignored run loses its record", () => {
+    removeRunRecord(paths, "run2");
+    removeRunRecord(paths, "run9");
+    assert.deepEqual(readJsonl<RunRecord>(paths.jsonl).map(r => r.runId), ["run1", "run3"]);
+  });
+});
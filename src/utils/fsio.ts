@@ -1,11 +1,20 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { RunConfig, RunRecord, NetworkDirection, RunContext } from "../types";
-import type { MetricsReport, MetricsSummary } from "./metrics";
+import crypto from "node:crypto";
+import type { ExcludedRun, ExpectedArrival, RunConfig, RunRecord, NetworkDirection, RunTimestamps, RunTxs, SourceOutput } from "../types";
+import { computeCostStats, computeIntegrityStats, computeLatencySegments, computeLatencyStats, LATENCY_SEGMENTS, LatencySegment, meanTransferAmountUsd, onchainLatencyMs, transferAmountUsd } from "./metrics";
+import type { CostDistribution, LatencyStats, MetricsReport, MetricsSummary } from "./metrics";
+import { listRoutes, routeFolderName } from "../runners/registry";
+import { EVM_DERIVATION_PATH_PREFIX, XRPL_DERIVATION_PATH_PREFIX } from "./constants";
 
 export interface SavePaths {
   dir: string;
   jsonl: string;
+  manifest: string;
+  pending: string;
+  excluded: string;
+  experiment: string;
+  versions: string;
   metricsJson: string;
   metricsCsv: string;
   directionSummaryCsv: string;
@@ -15,35 +24,43 @@ export interface SavePaths {
 export function makePaths(batchId: string, direction: NetworkDirection, bridgeName: string): SavePaths {
   // Create folder structure: data/results/{bridgeName}_{direction}/{batchId}
   const modeFolder = path.join("data", "results");
-  const directionFolder = path.join(modeFolder, `${bridgeName}_${direction}`);
+  const directionFolder = path.join(modeFolder, routeFolderName(bridgeName, direction));
   const dir = path.join(directionFolder, batchId);
 
   return {
     dir,
     jsonl: path.join(dir, `${batchId}.jsonl`),
+    manifest: path.join(dir, `${batchId}_manifest.json`),
+    pending: path.join(dir, `${batchId}_pending.json`),
+    excluded: path.join(dir, `${batchId}_excluded.jsonl`),
+    experiment: path.join(dir, `${batchId}_experiment.json`),
+    versions: path.join(dir, `${batchId}_versions.json`),
     metricsJson: path.join(dir, `${batchId}_metrics.json`),
     metricsCsv: path.join(dir, `${batchId}_metrics.csv`),
-    directionSummaryCsv: path.join(directionFolder, `${bridgeName}_${direction}_summary.csv`),
+    directionSummaryCsv: path.join(directionFolder, `${routeFolderName(bridgeName, direction)}_summary.csv`),
     allBatchesCsv: path.join("data", "results", "all_batches_metrics.csv"),
   };
 }
 
 /**
  * Sanitize sensitive credentials from config before saving
- * Replaces seed/private key with public addresses
+ * Replaces seed/private key with public addresses and records the account index used
  */
-function sanitizeConfig(cfg: RunConfig, xrplAddress: string, evmAddress: string): RunConfig {
+function sanitizeConfig(cfg: RunConfig, xrplAddress: string, evmAddress: string, accountIndex: number = cfg.accountIndex ?? 0): RunConfig {
   return {
     ...cfg,
+    accountIndex,
     networks: {
       ...cfg.networks,
       xrpl: {
         ...cfg.networks.xrpl,
         walletSeed: `[REDACTED - Address: ${xrplAddress}]`,
+        derivationPath: `${XRPL_DERIVATION_PATH_PREFIX}/${accountIndex}`,
       },
       evm: {
         ...cfg.networks.evm,
         walletPrivateKey: `[REDACTED - Address: ${evmAddress}]`,
+        derivationPath: `${EVM_DERIVATION_PATH_PREFIX}/${accountIndex}`,
       },
     },
   };
@@ -53,9 +70,15 @@ function sanitizeConfig(cfg: RunConfig, xrplAddress: string, evmAddress: string)
  * Sanitize a RunRecord by replacing credentials with addresses
  */
 function sanitizeRecord(record: RunRecord, xrplAddress: string, evmAddress: string): RunRecord {
+  // Concurrent runs use their own wallets, recorded on the run
   return {
     ...record,
-    cfg: sanitizeConfig(record.cfg, xrplAddress, evmAddress),
+    cfg: sanitizeConfig(
+      record.cfg,
+      record.wallet?.xrplAddress ?? xrplAddress,
+      record.wallet?.evmAddress ?? evmAddress,
+      record.wallet?.accountIndex
+    ),
   };
 }
 
@@ -64,38 +87,11 @@ function ensureDir(filePath: string) {
 }
 
 /**
- * JSON replacer function that prevents scientific notation
- * Rounds to max 3 decimal places
- * Values smaller than 0.0005 (which round to 0.000) become 0
+ * JSON replacer: numbers are written as is (JSON.stringify round-trips every double exactly),
+ * bigints as decimal strings (raw amounts in base units)
  */
-function jsonReplacer(key: string, value: any): any {
-  if (typeof value === 'number') {
-    // For keys that represent amounts/balances, apply 3 decimal rounding
-    const isAmountKey = key.toLowerCase().includes('amount') ||
-                       key.toLowerCase().includes('balance') ||
-                       key.toLowerCase().includes('xrp') ||
-                       key.toLowerCase().includes('fee');
-
-    if (isAmountKey) {
-      // Round to 3 decimals
-      const rounded = Math.round(value * 1000) / 1000;
-      return rounded;
-    }
-
-    // For other numbers, prevent scientific notation
-    const str = value.toString();
-    if (str.includes('e') || str.includes('E')) {
-      // Use toFixed with appropriate decimal places
-      const match = str.match(/e([+-]?\d+)/i);
-      if (match) {
-        const exponent = parseInt(match[1], 10);
-        const decimalPlaces = exponent < 0 ? Math.min(Math.abs(exponent) + 2, 10) : 6;
-        const fixed = value.toFixed(decimalPlaces);
-        return parseFloat(fixed);
-      }
-    }
-  }
-  return value;
+function jsonReplacer(_key: string, value: any): any {
+  return typeof value === "bigint" ? value.toString() : value;
 }
 
 /** Append one object as JSONL (one line per record). */
@@ -120,19 +116,27 @@ function csvEscape(v: unknown): string {
   return needsQuote ? `"${q}"` : q;
 }
 
-/** Write an array of homogeneous objects to CSV (overwrite). */
-export function writeCsv(file: string, rows: Array<Record<string, unknown>>) {
+/** Write an array of homogeneous objects to CSV (overwrite), with the keys of the first row as headers by default. */
+export function writeCsv(file: string, rows: Array<Record<string, unknown>>, headers: string[] = Object.keys(rows[0] ?? {})) {
   ensureDir(file);
   if (!rows.length) {
     fs.writeFileSync(file, "");
     return;
   }
-  const headers = Object.keys(rows[0]);
   const lines: string[] = [headers.join(",")];
   for (const row of rows) {
     lines.push(headers.map((h) => csvEscape(row[h])).join(","));
   }
-  fs.writeFileSync(file, lines.join("\n"));
+  fs.writeFileSync(file, lines.join("\n") + "\n"); // Rows appended later start on their own line
+}
+
+/** True when the CSV is missing or starts with exactly these headers (appending to it keeps its columns aligned). */
+function hasCsvHeaders(file: string, headers: string[]): boolean {
+  if (!fs.existsSync(file)) return true;
+  const content = fs.readFileSync(file, "utf-8");
+  const newline = content.indexOf("\n");
+  const headerLine = (newline < 0 ? content : content.slice(0, newline)).replace(/\r$/, "");
+  return headerLine === headers.join(",");
 }
 
 /** Append a single CSV row; create file with header if missing. */
@@ -166,24 +170,30 @@ export function summaryToCsvRow(
     transferAmount: s.transferAmount,
     transferAmountUsd: s.transferAmountUsd,
     runsPlanned: s.runsPlanned,
+    campaignId: cfg.campaignId ?? "",
 
     totalRuns: s.totalRuns,
     successCount: s.successCount,
     failureCount: s.failureCount,
     successRate_pct: Number((s.successRate * 100).toFixed(2)),
+    excludedRuns: s.integrity?.excludedRuns ?? "",
+    exclusionReasons: s.integrity ? formatCounts(s.integrity.exclusionReasons) : "",
+    flaggedRuns: s.integrity?.flaggedRuns ?? "",
 
-    latency_min_ms: s.latency.minMs ?? "",
-    latency_p50_ms: s.latency.p50Ms ?? "",
-    latency_p90_ms: s.latency.p90Ms ?? "",
-    latency_p95_ms: s.latency.p95Ms ?? "",
-    latency_max_ms: s.latency.maxMs ?? "",
-    latency_mean_ms: s.latency.meanMs ?? "",
-    latency_std_ms: s.latency.stdDevMs ?? "",
+    ...latencyCsvColumns("latency", s.latency),
+    ...latencyCsvColumns("latency_onchain", s.latencyOnchain),
+
+    ...segmentCsvColumns(s),
 
     cost_n: s.costs?.n ?? "",
     cost_mean_bridge_usd: s.costs?.meanBridgeUsd ?? "",
     cost_mean_source_fee_usd: s.costs?.meanSourceFeeUsd ?? "",
     cost_mean_target_fee_usd: s.costs?.meanTargetFeeUsd ?? "",
+    ...costCsvColumns("cost_total_bridge_native", s.costs?.native?.totalBridgeCost),
+    ...costCsvColumns("cost_total_bridge_usd", s.costs?.usd?.totalBridgeCost),
+    ...costCsvColumns("cost_total_bridge_bps_native", s.costs?.bpsNative?.totalBridgeCost),
+    ...costCsvColumns("cost_total_bridge_bps_usd", s.costs?.bpsUsd?.totalBridgeCost),
+    ...costCsvColumns("cost_bridge_fee_bps_usd", s.costs?.bpsUsd?.bridgeFee),
 
     batchDurationMs: s.batchDurationMs ?? "",
 
@@ -194,6 +204,53 @@ export function summaryToCsvRow(
   };
 }
 
+/** "key=count;..." for a CSV cell */
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts).map(([k, n]) => `${k}=${n}`).join(";");
+}
+
+/** Columns of a latency distribution, suffixes follow LATENCY_CSV_SUFFIXES */
+const LATENCY_CSV_SUFFIXES = [
+  "min_ms", "p25_ms", "p50_ms", "p75_ms", "p90_ms", "p95_ms", "p99_ms", "max_ms", "iqr_ms", "mean_ms", "std_ms",
+  "p50_ci_low_ms", "p50_ci_high_ms", "mean_ci_low_ms", "mean_ci_high_ms",
+];
+
+function latencyCsvColumns(prefix: string, l: LatencyStats | undefined): Record<string, string | number> {
+  // Summaries written before a field existed leave its column empty
+  const values: Array<number | null | undefined> = [
+    l?.minMs, l?.p25Ms, l?.p50Ms, l?.p75Ms, l?.p90Ms, l?.p95Ms, l?.p99Ms, l?.maxMs, l?.iqrMs, l?.meanMs, l?.stdDevMs,
+    l?.p50CiMs?.[0], l?.p50CiMs?.[1], l?.meanCiMs?.[0], l?.meanCiMs?.[1],
+  ];
+  const columns: Record<string, string | number> = {};
+  LATENCY_CSV_SUFFIXES.forEach((suffix, i) => {
+    columns[`${prefix}_${suffix}`] = values[i] ?? "";
+  });
+  return columns;
+}
+
+/** Median and mean of every latency segment, e.g. latency_bridge_p50_ms */
+function segmentCsvColumns(s: MetricsSummary): Record<string, string | number> {
+  const columns: Record<string, string | number> = {};
+  for (const name of Object.keys(LATENCY_SEGMENTS) as LatencySegment[]) {
+    const stats = s.latencySegments?.[name];
+    columns[`latency_${name}_p50_ms`] = stats?.p50Ms ?? "";
+    columns[`latency_${name}_mean_ms`] = stats?.meanMs ?? "";
+  }
+  return columns;
+}
+
+/** Columns of a cost distribution (the full distributions of every component are in the metrics JSON) */
+const COST_CSV_SUFFIXES = ["min", "p50", "p90", "max", "mean", "std"];
+
+function costCsvColumns(prefix: string, c: CostDistribution | undefined): Record<string, string | number> {
+  const values = [c?.min, c?.p50, c?.p90, c?.max, c?.mean, c?.stdDev];
+  const columns: Record<string, string | number> = {};
+  COST_CSV_SUFFIXES.forEach((suffix, i) => {
+    columns[`${prefix}_${suffix}`] = values[i] ?? "";
+  });
+  return columns;
+}
+
 export const SUMMARY_CSV_HEADERS: string[] = [
   "timestampIso",
   "tag",
@@ -202,24 +259,27 @@ export const SUMMARY_CSV_HEADERS: string[] = [
   "transferAmount",  // Amount in native currency
   "transferAmountUsd",  // Amount in USD
   "runsPlanned",
+  "campaignId",
 
   "totalRuns",
   "successCount",
   "failureCount",
   "successRate_pct",
+  "excludedRuns",
+  "exclusionReasons",
+  "flaggedRuns",
+
+  ...LATENCY_CSV_SUFFIXES.map(suffix => `latency_${suffix}`),
+  ...LATENCY_CSV_SUFFIXES.map(suffix => `latency_onchain_${suffix}`),
 
-  "latency_min_ms",
-  "latency_p50_ms",
-  "latency_p90_ms",
-  "latency_p95_ms",
-  "latency_max_ms",
-  "latency_mean_ms",
-  "latency_std_ms",
+  ...Object.keys(LATENCY_SEGMENTS).flatMap(name => [`latency_${name}_p50_ms`, `latency_${name}_mean_ms`]),
 
   "cost_n",
   "cost_mean_bridge_usd",
   "cost_mean_source_fee_usd",
   "cost_mean_target_fee_usd",
+  ...["cost_total_bridge_native", "cost_total_bridge_usd", "cost_total_bridge_bps_native", "cost_total_bridge_bps_usd", "cost_bridge_fee_bps_usd"]
+    .flatMap(prefix => COST_CSV_SUFFIXES.map(suffix => `${prefix}_${suffix}`)),
 
   "batchDurationMs",
 
@@ -233,7 +293,7 @@ export const SUMMARY_CSV_HEADERS: string[] = [
  * Read all batch metrics from a direction+mode folder and compute aggregate statistics
  */
 export function computeDirectionSummary(direction: NetworkDirection, bridgeName: string): MetricsSummary | null {
-  const directionFolder = path.join("data", "results", `${bridgeName}_${direction}`);
+  const directionFolder = path.join("data", "results", routeFolderName(bridgeName, direction));
   
   if (!fs.existsSync(directionFolder)) {
     return null;
@@ -273,9 +333,9 @@ export function computeDirectionSummary(direction: NetworkDirection, bridgeName:
   const successRate = totalRuns > 0 ? successCount / totalRuns : 0;
 
   const allLatencies: number[] = [];
-  const allBridgeCosts: number[] = [];
-  const allSourceFees: number[] = [];
-  const allTargetFees: number[] = [];
+  const allSuccesses: RunRecord[] = [];
+  const allRecords: RunRecord[] = [];
+  const allExcluded: ExcludedRun[] = [];
 
   // Read JSONL files directly from batch folders instead of trying to match by tag
   for (const batchFolder of batchFolders) {
@@ -285,12 +345,10 @@ export function computeDirectionSummary(direction: NetworkDirection, bridgeName:
       for (const line of lines) {
         try {
           const record: RunRecord = JSON.parse(line);
+          allRecords.push(record);
           if (record.success && record.timestamps.t1_submit && record.timestamps.t3_finalized) {
             allLatencies.push(record.timestamps.t3_finalized - record.timestamps.t1_submit);
-
-            if (record.costs.bridgeFeeUsd) allBridgeCosts.push(record.costs.bridgeFeeUsd);
-            if (record.costs.sourceFeeUsd) allSourceFees.push(record.costs.sourceFeeUsd);
-            if (record.costs.targetFeeUsd) allTargetFees.push(record.costs.targetFeeUsd);
+            allSuccesses.push(record);
           }
         } catch (err) {
           // Skip malformed lines
@@ -298,33 +356,16 @@ export function computeDirectionSummary(direction: NetworkDirection, bridgeName:
         }
       }
     }
+    allExcluded.push(...readJsonl<ExcludedRun>(path.join(directionFolder, batchFolder, `${batchFolder}_excluded.jsonl`)));
   }
 
-  allLatencies.sort((a, b) => a - b);
-  
-  const mean = (arr: number[]) => arr.length ? arr.reduce((s, x) => s + x, 0) / arr.length : null;
-  const stddev = (arr: number[]) => {
-    if (!arr.length) return null;
-    const m = mean(arr)!;
-    const v = arr.reduce((s, x) => s + (x - m) ** 2, 0) / arr.length;
-    return Math.sqrt(v);
-  };
-  const percentile = (sorted: number[], p: number) => {
-    if (!sorted.length) return null;
-    const idx = (sorted.length - 1) * p;
-    const lo = Math.floor(idx);
-    const hi = Math.ceil(idx);
-    const w = idx - lo;
-    return (1 - w) * sorted[lo] + w * sorted[hi];
-  };
-
   const aggregatedSummary: MetricsSummary = {
     timestampIso: new Date().toISOString(),
-    tag: `${bridgeName}_${direction}_aggregated`,
+    tag: `${routeFolderName(bridgeName, direction)}_aggregated`,
     bridgeName,
     direction,
     transferAmount: allSummaries[0]?.transferAmount || 0,
-    transferAmountUsd: allSummaries[0]?.transferAmountUsd || 0,
+    transferAmountUsd: meanTransferAmountUsd(allSuccesses),
     runsPlanned: allSummaries.reduce((sum, s) => sum + s.runsPlanned, 0),
 
     totalRuns,
@@ -332,23 +373,14 @@ export function computeDirectionSummary(direction: NetworkDirection, bridgeName:
     failureCount,
     successRate,
 
-    latency: {
-      n: allLatencies.length,
-      minMs: allLatencies.length ? allLatencies[0] : null,
-      p50Ms: percentile(allLatencies, 0.50),
-      p90Ms: percentile(allLatencies, 0.90),
-      p95Ms: percentile(allLatencies, 0.95),
-      maxMs: allLatencies.length ? allLatencies[allLatencies.length - 1] : null,
-      meanMs: mean(allLatencies),
-      stdDevMs: stddev(allLatencies),
-    },
+    latency: computeLatencyStats(allLatencies),
+    latencyOnchain: computeLatencyStats(
+      allSuccesses.map(onchainLatencyMs).filter((x): x is number => typeof x === "number")
+    ),
+    latencySegments: computeLatencySegments(allSuccesses),
 
-    costs: {
-      n: allBridgeCosts.length,
-      meanBridgeUsd: mean(allBridgeCosts),
-      meanSourceFeeUsd: mean(allSourceFees),
-      meanTargetFeeUsd: mean(allTargetFees),
-    },
+    costs: computeCostStats(allSuccesses),
+    integrity: computeIntegrityStats(allRecords, allExcluded),
 
     batchDurationMs: allSummaries.reduce((sum, s) => sum + (s.batchDurationMs || 0), 0),
   };
@@ -356,29 +388,282 @@ export function computeDirectionSummary(direction: NetworkDirection, bridgeName:
   return aggregatedSummary;
 }
 
+/** Progress of a batch, rewritten after every run so that interrupted batches can be resumed */
+export interface BatchManifest {
+  batchId: string;
+  cfg: Omit<RunConfig, "networks">;
+  runsPlanned: number;
+  completedRuns: number[]; // Runs with a record in the batch JSONL
+  ignoredRuns: number[];   // Runs discarded by a data integrity decision (not retried on resume, see {batchId}_excluded.jsonl)
+  status: "running" | "interrupted" | "aborted" | "completed";
+  durationMs: number;      // Sum of the durations of every execution of the batch
+  createdAt: string;
+  updatedAt: string;
+  resumedAt: string[];
+}
+
+export function createBatchManifest(batchId: string, cfg: RunConfig): BatchManifest {
+  const { networks, ...rest } = cfg;
+  const now = new Date().toISOString();
+  return {
+    batchId,
+    cfg: rest,
+    runsPlanned: cfg.runs,
+    completedRuns: [],
+    ignoredRuns: [],
+    status: "running",
+    durationMs: 0,
+    createdAt: now,
+    updatedAt: now,
+    resumedAt: [],
+  };
+}
+
+export function writeBatchManifest(paths: SavePaths, manifest: BatchManifest) {
+  manifest.updatedAt = new Date().toISOString();
+  writeJsonAtomic(paths.manifest, manifest);
+}
+
+/**
+ * Copy the experiment config file of a batch, byte for byte, next to its artifacts.
+ * Returns false (and copies nothing) if the file no longer matches the sha256 recorded when the experiment started.
+ */
+export function saveExperimentFile(paths: SavePaths, experiment: { file: string; sha256: string }): boolean {
+  const content = fs.readFileSync(experiment.file);
+  if (crypto.createHash("sha256").update(content).digest("hex") !== experiment.sha256) return false;
+  ensureDir(paths.experiment);
+  fs.writeFileSync(paths.experiment, content);
+  return true;
+}
+
+/**
+ * Find a batch folder by batch id and load its manifest
+ */
+export function findBatchManifest(batchId: string): { paths: SavePaths; manifest: BatchManifest } | null {
+  for (const { bridgeName, direction } of getDirectionFolders()) {
+    const paths = makePaths(batchId, direction, bridgeName);
+    if (fs.existsSync(paths.manifest)) {
+      const manifest: BatchManifest = JSON.parse(fs.readFileSync(paths.manifest, "utf-8"));
+      return { paths, manifest };
+    }
+  }
+  return null;
+}
+
+/**
+ * A transfer submitted on the source chain whose arrival has not been recorded yet.
+ * Written right after submit and removed once the run is settled, so that a crash
+ * in between leaves enough information to observe the arrival later (see `recover`).
+ */
+export interface PendingTransfer {
+  runId: string;
+  runNumber: number;
+  slot: number;
+  accountIndex: number;
+  recipient: string;        // Address expected to receive the funds on the target chain
+  source: SourceOutput;
+  txs: RunTxs;              // Source tx hash and deposit address (Near Intents)
+  ts: RunTimestamps;
+  expected?: ExpectedArrival; // Quote the arrival is correlated against
+  failureRecorded?: boolean;  // The run was recorded as failed after submit (e.g. observe timeout), recover replaces that record
+  observeFrom: {
+    timestamp: number;
+    evmBlock?: string;      // bigint serialized as string
+    xrplLedger?: number;
+  };
+}
+
+export function readPendingTransfers(paths: SavePaths): PendingTransfer[] {
+  if (!fs.existsSync(paths.pending)) return [];
+  return JSON.parse(fs.readFileSync(paths.pending, "utf-8"));
+}
+
+/**
+ * Add (or replace) the journal entry of a run
+ */
+export function addPendingTransfer(paths: SavePaths, entry: PendingTransfer) {
+  const entries = readPendingTransfers(paths).filter(e => e.runNumber !== entry.runNumber);
+  entries.push(entry);
+  writeJsonAtomic(paths.pending, entries);
+}
+
+/**
+ * Remove the journal entry of a settled run (the journal file is deleted once empty)
+ */
+export function removePendingTransfer(paths: SavePaths, runNumber: number) {
+  if (!fs.existsSync(paths.pending)) return;
+  const entries = readPendingTransfers(paths).filter(e => e.runNumber !== runNumber);
+  if (entries.length > 0) {
+    writeJsonAtomic(paths.pending, entries);
+  } else {
+    fs.unlinkSync(paths.pending);
+  }
+}
+
+/**
+ * Keep the journal entry of a run recorded as failed after its submit, so that a late arrival can still be recovered
+ */
+export function markPendingTransferFailed(paths: SavePaths, runNumber: number) {
+  const entries = readPendingTransfers(paths);
+  const entry = entries.find(e => e.runNumber === runNumber);
+  if (!entry) return;
+  entry.failureRecorded = true;
+  writeJsonAtomic(paths.pending, entries);
+}
+
 /**
- * Persist everything for a batch in one call.
- * - Raw records → JSONL (sanitized)
+ * List every batch that still has pending transfers
+ */
+export function listBatchesWithPendingTransfers(): Array<{ paths: SavePaths; manifest: BatchManifest; pending: PendingTransfer[] }> {
+  const results: Array<{ paths: SavePaths; manifest: BatchManifest; pending: PendingTransfer[] }> = [];
+  const resultsDir = path.join("data", "results");
+
+  for (const { folder, bridgeName, direction } of getDirectionFolders()) {
+    const directionPath = path.join(resultsDir, folder);
+    const batchIds = fs.readdirSync(directionPath, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+
+    for (const batchId of batchIds) {
+      const paths = makePaths(batchId, direction, bridgeName);
+      if (!fs.existsSync(paths.pending) || !fs.existsSync(paths.manifest)) continue;
+
+      const pending = readPendingTransfers(paths);
+      if (pending.length === 0) continue;
+
+      const manifest: BatchManifest = JSON.parse(fs.readFileSync(paths.manifest, "utf-8"));
+      results.push({ paths, manifest, pending });
+    }
+  }
+  return results;
+}
+
+/** Read all records of a JSONL file (malformed lines are skipped). */
+export function readJsonl<T>(file: string): T[] {
+  if (!fs.existsSync(file)) return [];
+
+  const items: T[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      items.push(JSON.parse(line));
+    } catch {
+      console.warn(`Skipping malformed JSONL line in ${file}`);
+    }
+  }
+  return items;
+}
+
+/**
+ * Checkpoint a run: append its record (sanitized) to the batch JSONL as soon as it is created
+ */
+export function appendRunRecord(paths: SavePaths, record: RunRecord) {
+  const xrplAddress = record.wallet?.xrplAddress ?? "";
+  const evmAddress = record.wallet?.evmAddress ?? "";
+  appendJsonl(paths.jsonl, sanitizeRecord(record, xrplAddress, evmAddress));
+}
+
+/** Version of the records of a batch, listed in {batchId}_versions.json */
+export interface RecordVersion {
+  version: number;
+  file: string;          // {batchId}_v{version}.jsonl, next to {batchId}.jsonl
+  createdAt: string;
+  reason: string;        // "recorded" (records as saved by the runs) or "reprice"
+  priceSource?: string;  // Price source of a re-pricing
+  repriced?: number;     // Records whose USD values were recomputed
+  unchanged?: number;    // Records kept as they were
+}
+
+export function readRecordVersions(paths: SavePaths): RecordVersion[] {
+  return fs.existsSync(paths.versions) ? JSON.parse(fs.readFileSync(paths.versions, "utf-8")) : [];
+}
+
+/**
+ * Rewrite the records of a batch as a new version {batchId}_v{n}.jsonl, which also replaces {batchId}.jsonl.
+ * Before the first rewrite, the records as saved by the runs are kept as version 1.
+ */
+export function writeRecordVersion(
+  paths: SavePaths,
+  records: RunRecord[],
+  change: Omit<RecordVersion, "version" | "file" | "createdAt">
+): RecordVersion {
+  const versionFile = (version: number) => paths.jsonl.replace(/\.jsonl$/, `_v${version}.jsonl`);
+  const versions = readRecordVersions(paths);
+
+  if (versions.length === 0 && fs.existsSync(paths.jsonl)) {
+    fs.copyFileSync(paths.jsonl, versionFile(1));
+    versions.push({ version: 1, file: path.basename(versionFile(1)), createdAt: new Date().toISOString(), reason: "recorded" });
+  }
+
+  const version = versions.length > 0 ? versions[versions.length - 1].version + 1 : 1;
+  const content = records.map(record => JSON.stringify(record, jsonReplacer) + "\n").join("");
+  fs.writeFileSync(versionFile(version), content);
+
+  const tmp = paths.jsonl + ".tmp";
+  fs.writeFileSync(tmp, content);
+  fs.renameSync(tmp, paths.jsonl);
+
+  const entry: RecordVersion = { version, file: path.basename(versionFile(version)), createdAt: new Date().toISOString(), ...change };
+  versions.push(entry);
+  writeJsonAtomic(paths.versions, versions);
+  return entry;
+}
+
+/**
+ * Replace the record of a run (same runId) in the batch JSONL, e.g. the failure record of a transfer that arrived late
+ */
+export function replaceRunRecord(paths: SavePaths, record: RunRecord) {
+  const sanitized = sanitizeRecord(record, record.wallet?.xrplAddress ?? "", record.wallet?.evmAddress ?? "");
+  const records = readJsonl<RunRecord>(paths.jsonl);
+  const index = records.findIndex(r => r.runId === record.runId);
+  if (index < 0) {
+    appendJsonl(paths.jsonl, sanitized);
+    return;
+  }
+  records[index] = sanitized;
+  writeRunRecords(paths, records);
+}
+
+/**
+ * Remove the record of a run from the batch JSONL, e.g. the failure record of a recovered run that was then ignored
+ */
+export function removeRunRecord(paths: SavePaths, runId: string) {
+  const records = readJsonl<RunRecord>(paths.jsonl);
+  const kept = records.filter(r => r.runId !== runId);
+  if (kept.length !== records.length) writeRunRecords(paths, kept);
+}
+
+function writeRunRecords(paths: SavePaths, records: RunRecord[]) {
+  const tmp = paths.jsonl + ".tmp";
+  fs.writeFileSync(tmp, records.map(r => JSON.stringify(r, jsonReplacer) + "\n").join(""));
+  fs.renameSync(tmp, paths.jsonl);
+}
+
+/**
+ * Keep a run dropped by a data integrity decision out of the records, in {batchId}_excluded.jsonl
+ */
+export function appendExcludedRun(paths: SavePaths, excluded: ExcludedRun) {
+  appendJsonl(paths.excluded, excluded);
+}
+
+/**
+ * Persist the metrics of a batch (records are checkpointed by appendRunRecord).
  * - Metrics report → JSON (sanitized)
  * - Metrics summary → CSV (single row with addresses)
  * - Append to direction-specific summary CSV
  * - Append to rolling all_batches_metrics.csv
+ * With rebuildSummaries (resumed batch), or when a summary CSV was written with other columns
+ * (e.g. before a column was added), the summary CSVs are rebuilt instead of appended to.
  */
-export function saveBatchArtifacts(
+export function saveBatchMetrics(
   batchId: string,
   cfg: RunConfig,
-  ctx: RunContext,
-  records: RunRecord[],
-  report: MetricsReport
+  addresses: { xrplAddress: string; evmAddress: string },
+  report: MetricsReport,
+  rebuildSummaries: boolean = false
 ): SavePaths {
   const paths = makePaths(batchId, cfg.direction, cfg.bridgeName);
-  const xrplAddress = ctx.cache.xrpl?.wallet.address!;
-  const evmAddress = ctx.cache.evm?.account.address!;
-
-  for (const r of records) {
-    const sanitized = sanitizeRecord(r, xrplAddress, evmAddress);
-    appendJsonl(paths.jsonl, sanitized);
-  }
+  const { xrplAddress, evmAddress } = addresses;
 
   const sanitizedReport = {
     ...report,
@@ -393,14 +678,22 @@ export function saveBatchArtifacts(
   const row = summaryToCsvRow(report.summary, cfg, xrplAddress, evmAddress);
   writeCsv(paths.metricsCsv, [row]);
 
+  const outdatedSummaries = [paths.directionSummaryCsv, paths.allBatchesCsv]
+    .some(file => !hasCsvHeaders(file, SUMMARY_CSV_HEADERS));
+  if (rebuildSummaries || outdatedSummaries) {
+    recomputeDirectionMetrics(cfg.bridgeName, cfg.direction);
+    recomputeAllBatchesCsv();
+    return paths;
+  }
+
   appendCsvRow(paths.directionSummaryCsv, SUMMARY_CSV_HEADERS, row);
 
   appendCsvRow(paths.allBatchesCsv, SUMMARY_CSV_HEADERS, row);
 
   const directionSummary = computeDirectionSummary(cfg.direction, cfg.bridgeName);
   if (directionSummary) {
-    const directionFolder = path.join("data", "results", `${cfg.bridgeName}_${cfg.direction}`);
-    const directionSummaryFile = path.join(directionFolder, `${cfg.bridgeName}_${cfg.direction}_aggregated_metrics.json`);
+    const directionFolder = path.join("data", "results", routeFolderName(cfg.bridgeName, cfg.direction));
+    const directionSummaryFile = path.join(directionFolder, `${routeFolderName(cfg.bridgeName, cfg.direction)}_aggregated_metrics.json`);
     writeJsonAtomic(directionSummaryFile, {
       summary: directionSummary,
       batchCount: fs.readdirSync(directionFolder, { withFileTypes: true })
@@ -428,8 +721,18 @@ export function getDirectionFolders(): Array<{ folder: string; bridgeName: strin
 
   const result: Array<{ folder: string; bridgeName: string; direction: NetworkDirection }> = [];
 
+  const knownRoutes = new Map(
+    listRoutes().map(({ bridge, route }) => [routeFolderName(bridge.id, route.direction), { bridgeName: bridge.id, direction: route.direction }])
+  );
+
   for (const folder of folders) {
-    // Parse folder name format: {bridgeName}_{direction}
+    const known = knownRoutes.get(folder);
+    if (known) {
+      result.push({ folder, ...known });
+      continue;
+    }
+
+    // Unregistered route: parse folder name format {bridgeName}_{direction}
     const parts = folder.split('_');
     if (parts.length >= 2) {
       const bridgeName = parts[0];
@@ -441,6 +744,37 @@ export function getDirectionFolders(): Array<{ folder: string; bridgeName: strin
   return result;
 }
 
+/**
+ * All run records of a direction folder, across its non-deprecated batches
+ */
+export function readDirectionRecords(folder: string): RunRecord[] {
+  const directionFolder = path.join("data", "results", folder);
+  if (!fs.existsSync(directionFolder)) return [];
+
+  return fs.readdirSync(directionFolder, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory() && !dirent.name.includes('deprecated'))
+    .flatMap(dirent => readJsonl<RunRecord>(path.join(directionFolder, dirent.name, `${dirent.name}.jsonl`)));
+}
+
+/**
+ * Sweep and campaign of a batch for its summary row: from the metrics,
+ * or from the manifest for metrics saved before they were echoed there
+ */
+function batchGrouping(batchDir: string, batchId: string, report: MetricsReport): Pick<RunConfig, "sweepId" | "campaignId"> {
+  let { sweepId, campaignId } = report.cfgEcho ?? {};
+  const manifestFile = path.join(batchDir, `${batchId}_manifest.json`);
+  if ((sweepId === undefined || campaignId === undefined) && fs.existsSync(manifestFile)) {
+    try {
+      const manifest: BatchManifest = JSON.parse(fs.readFileSync(manifestFile, "utf-8"));
+      sweepId ??= manifest.cfg.sweepId;
+      campaignId ??= manifest.cfg.campaignId;
+    } catch {
+      // Unreadable manifest: the columns stay empty
+    }
+  }
+  return { sweepId, campaignId };
+}
+
 /**
  * Recompute aggregated metrics for a specific direction folder
  */
@@ -451,9 +785,9 @@ export function recomputeDirectionMetrics(bridgeName: string, direction: Network
     return null;
   }
 
-  const directionFolder = path.join("data", "results", `${bridgeName}_${direction}`);
-  const directionSummaryFile = path.join(directionFolder, `${bridgeName}_${direction}_aggregated_metrics.json`);
-  const directionSummaryCsv = path.join(directionFolder, `${bridgeName}_${direction}_summary.csv`);
+  const directionFolder = path.join("data", "results", routeFolderName(bridgeName, direction));
+  const directionSummaryFile = path.join(directionFolder, `${routeFolderName(bridgeName, direction)}_aggregated_metrics.json`);
+  const directionSummaryCsv = path.join(directionFolder, `${routeFolderName(bridgeName, direction)}_summary.csv`);
 
   // Write JSON aggregated metrics
   writeJsonAtomic(directionSummaryFile, {
@@ -503,6 +837,7 @@ export function recomputeDirectionMetrics(bridgeName: string, direction: Network
           xrpAmount: report.summary.transferAmount,
           runs: report.summary.runsPlanned,
           bridgeName: report.summary.bridgeName,
+          ...batchGrouping(path.join(directionFolder, batchFolder), batchFolder, report),
         };
 
         const row = summaryToCsvRow(report.summary, cfg, xrplAddress, evmAddress);
@@ -590,6 +925,7 @@ export function recomputeAllBatchesCsv(): { count: number; stats: { directions:
             xrpAmount: report.summary.transferAmount,
             runs: report.summary.runsPlanned,
             bridgeName: report.summary.bridgeName,
+            ...batchGrouping(path.join(directionPath, batchFolder), batchFolder, report),
           };
 
           const row = summaryToCsvRow(report.summary, cfg, xrplAddress, evmAddress);
@@ -628,11 +964,17 @@ export const TX_CSV_HEADERS: string[] = [
   "timestampIso",
   "bridgeName",
   "direction",
+  "transferAmount",
+  "transferAmountUsd",
+  "sweepId",
+  "campaignId",
   "success",
   "sourceTxHash",
   "targetTxHash",
   "bridgeMessageId",
   "depositAddress",
+  "correlationMethod",
+  "amountDeviation",
   "latencyMs",
   "sourceFee",
   "targetFee",
@@ -642,8 +984,10 @@ export const TX_CSV_HEADERS: string[] = [
   "targetFeeUsd",
   "bridgeFeeUsd",
   "totalCostUsd",
+  "priceSources",
   "abort_reason",
   "error_type",
+  "integrityFlags",
 ];
 
 /**
@@ -665,11 +1009,17 @@ function txRecordToCsvRow(record: RunRecord): Record<string, string | number> {
     timestampIso,
     bridgeName: record.cfg.bridgeName,
     direction: record.cfg.direction,
+    transferAmount: record.cfg.xrpAmount,
+    transferAmountUsd: transferAmountUsd(record) ?? "",
+    sweepId: record.cfg.sweepId || "",
+    campaignId: record.cfg.campaignId || "",
     success: record.success ? 1 : 0,
     sourceTxHash: record.txs.sourceTxHash || "",
     targetTxHash: record.txs.targetTxHash || "",
     bridgeMessageId: record.txs.bridgeMessageId || "",
     depositAddress: record.txs.depositAddress || "",
+    correlationMethod: record.correlation?.method || "",
+    amountDeviation: record.correlation?.amountDeviation ?? "",
     latencyMs,
     sourceFee: record.costs.sourceFee ?? "",
     targetFee: record.costs.targetFee ?? "",
@@ -679,8 +1029,10 @@ function txRecordToCsvRow(record: RunRecord): Record<string, string | number> {
     targetFeeUsd: record.costs.targetFeeUsd ?? "",
     bridgeFeeUsd: record.costs.bridgeFeeUsd ?? "",
     totalCostUsd: record.costs.totalCostUsd ?? "",
+    priceSources: [...new Set((record.usdConversions ?? []).map(c => `${c.price.source}:${c.price.granularity}`))].join(";"),
     abort_reason: record.abort_reason || "",
     error_type: record.error_type || "",
+    integrityFlags: (record.integrityFlags ?? []).map(f => `${f.issue}:${f.action}:${f.decidedBy}`).join(";"),
   };
 }
 
@@ -750,7 +1102,7 @@ export function recomputeAllTxCsv(): { count: number; stats: { directions: numbe
   });
 
   // Write the CSV
-  writeCsv(allTxCsvPath, allTxRows);
+  writeCsv(allTxCsvPath, allTxRows, TX_CSV_HEADERS);
 
   return {
     count: allTxRows.length,
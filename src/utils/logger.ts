@@ -2,9 +2,12 @@ import chalk from "chalk";
 import { RunConfig, SourceOutput, TargetOutput, NetworkDirection, RunContext, RunRecord } from "../types";
 import { formatElapsedMs } from "./time";
 import readline from "readline";
-import { loadConfig } from "../runners/config";
-import { MetricsSummary } from "./metrics";
+import { loadConfig, LoadConfigOptions } from "../runners/config";
+import { findRouteByDirection, formatRouteLabel, getBridge, listBridges } from "../runners/registry";
+import { CONFIDENCE_LEVEL, CostDistribution, FEE_COMPONENTS, LATENCY_SEGMENTS, LatencySegment, MetricsSummary } from "./metrics";
 import { getDirectionFolders, recomputeDirectionMetrics, recomputeAllBatchesCsv, recomputeAllTxCsv } from "./fsio";
+import type { ComparedMetric, ComparisonReport } from "../runners/compare";
+import type { FeeModel, SweepReport } from "../runners/sweep";
 import { getXrplWallet, getEvmAccount } from "./environment";
 import { Client } from "xrpl";
 import { createPublicClient, formatEther, http } from "viem";
@@ -96,21 +99,11 @@ function formatFee(fee: number): string {
 }
 
 function getSourceChain(direction: NetworkDirection): 'xrpl' | 'evm' {
-    if (direction === 'xrpl_to_xrpl_evm' || direction === 'xrpl_to_base' || direction === 'xrpl_to_flare') {
-        return 'xrpl';
-    } else {
-        // xrpl_evm_to_xrpl, base_to_xrpl, or flare_to_xrpl
-        return 'evm';
-    }
+    return findRouteByDirection(direction)?.route.source.family ?? 'evm';
 }
 
 function getTargetChain(direction: NetworkDirection): 'xrpl' | 'evm' {
-    if (direction === 'xrpl_to_xrpl_evm' || direction === 'xrpl_to_base' || direction === 'xrpl_to_flare') {
-        return 'evm';
-    } else {
-        // xrpl_evm_to_xrpl, base_to_xrpl, or flare_to_xrpl
-        return 'xrpl';
-    }
+    return findRouteByDirection(direction)?.route.target.family ?? 'xrpl';
 }
 
 export function logStep(step: string): void {
@@ -126,6 +119,7 @@ export function logConfig(cfg: RunConfig): void {
         ['Direction', chalk.cyan(cfg.direction)],
         ['Amount', formatAmount(cfg.xrpAmount, 'XRP')],
         ['Runs', chalk.white(cfg.runs.toString())],
+        ['Account index', chalk.white(String(cfg.accountIndex ?? 0))],
         ['XRPL Gateway', formatAddress(cfg.networks.xrpl.gateway, 'xrpl')],
         ['EVM Gateway', formatAddress(cfg.networks.evm.gateway, 'evm', true)],
     ];
@@ -283,16 +277,48 @@ export function logRecord(record: RunRecord): void {
     if (timestamps.t2_observe) {
         console.log(`${chalk.bold('Observed')}: ${formatTimeOnly(timestamps.t2_observe)}`);
     }
+    if (timestamps.t_source_validated) {
+        console.log(`${chalk.bold('Source validated')}: ${formatTimeOnly(timestamps.t_source_validated)}`);
+    }
+    if (timestamps.t_source_block) {
+        console.log(`${chalk.bold('Source block')}: ${formatTimeOnly(timestamps.t_source_block)} ${chalk.dim('(on-chain)')}`);
+    }
+    if (timestamps.t_bridge_confirmed) {
+        console.log(`${chalk.bold('Bridge confirmed')}: ${formatTimeOnly(timestamps.t_bridge_confirmed)}`);
+    }
+    if (timestamps.t_bridge_approved) {
+        console.log(`${chalk.bold('Bridge approved')}: ${formatTimeOnly(timestamps.t_bridge_approved)}`);
+    }
+    if (timestamps.t_bridge_executed) {
+        console.log(`${chalk.bold('Bridge executed')}: ${formatTimeOnly(timestamps.t_bridge_executed)}`);
+    }
     if (timestamps.t3_finalized) {
         console.log(`${chalk.bold('Finalized')}: ${formatTimeOnly(timestamps.t3_finalized)}`);
     }
 
+    if (record.bridgePhases && record.bridgePhases.length > 0) {
+        const phases = record.bridgePhases.map(p => `${p.status} ${chalk.dim(formatTimeOnly(p.at))}`).join(' → ');
+        console.log(`${chalk.bold('Bridge phases')}: ${phases}`);
+    }
+
+    for (const flag of record.integrityFlags ?? []) {
+        console.log(`${chalk.bold.yellow('Integrity')}: ${flag.detail} → ${flag.action} ${chalk.dim(`(${flag.decidedBy})`)}`);
+    }
+
+    if (timestamps.t_target_block) {
+        console.log(`${chalk.bold('Target block')}: ${formatTimeOnly(timestamps.t_target_block)} ${chalk.dim('(on-chain)')}`);
+    }
+
     // Calculate and display total latency if possible
     if (timestamps.t1_submit && timestamps.t3_finalized) {
         const totalLatency = timestamps.t3_finalized - timestamps.t1_submit;
         const formattedLatency = formatElapsedMs(totalLatency, { pad: true });
         console.log(`${chalk.bold('Total latency')}: ${chalk.green(formattedLatency)}`);
     }
+    if (timestamps.t_source_block && timestamps.t_target_block) {
+        const onchainLatency = Math.max(0, timestamps.t_target_block - timestamps.t_source_block);
+        console.log(`${chalk.bold('On-chain latency')}: ${chalk.magenta(formatElapsedMs(onchainLatency, { pad: true }))}`);
+    }
 
     console.log('');
 
@@ -320,6 +346,13 @@ export function logRecord(record: RunRecord): void {
     if (txs.bridgeMessageId) {
         console.log(`${chalk.bold('Bridge Message ID')}: ${chalk.cyan(txs.bridgeMessageId)}`);
     }
+    if (record.correlation) {
+        const { method, amountDeviation, rejectedCandidates } = record.correlation;
+        const deviation = amountDeviation !== undefined ? `, amount ${(amountDeviation * 100).toFixed(2)}% vs quote` : '';
+        const rejected = rejectedCandidates > 0 ? `, ${rejectedCandidates} other transfer(s) rejected` : '';
+        const color = method === 'unverified' ? chalk.yellow : chalk.cyan;
+        console.log(`${chalk.bold('Arrival matched by')}: ${color(method)}${chalk.dim(deviation + rejected)}`);
+    }
 
     console.log('');
 
@@ -362,6 +395,19 @@ function askQuestion(rl: readline.Interface, question: string): Promise<string>
     });
 }
 
+/**
+ * Ask a yes/no question (default: no)
+ */
+export async function confirm(question: string): Promise<boolean> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+        const answer = await askQuestion(rl, `${question} (y/N): `);
+        return answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes';
+    } finally {
+        rl.close();
+    }
+}
+
 /**
  * Display welcome banner
  */
@@ -381,27 +427,23 @@ function displayBanner(): void {
  * Display bridge type selection menu
  */
 async function selectBridgeType(rl: readline.Interface): Promise<string> {
+    const bridges = listBridges();
+
     console.log(chalk.bold('\n🌉 Select Bridge Type:'));
-    console.log(` 1) ${chalk.bold('Axelar')} ${chalk.dim('(Cross-chain communication protocol)')}`);
-    console.log(` 2) ${chalk.bold('Near Intents')} ${chalk.dim('(Intent-based bridge)')}`);
-    console.log(` 3) ${chalk.bold('FAsset')} ${chalk.dim('(Flare Asset bridge)')}`);
+    bridges.forEach((bridge, i) => {
+        console.log(` ${i + 1}) ${chalk.bold(bridge.displayName)} ${chalk.dim(`(${bridge.description})`)}`);
+    });
 
     while (true) {
         const answer = await askQuestion(rl, '\nEnter your choice: ');
+        const bridge = bridges[parseInt(answer, 10) - 1];
 
-        switch (answer) {
-            case '1':
-                console.log(chalk.green('✓ Selected: Axelar'));
-                return 'axelar';
-            case '2':
-                console.log(chalk.green('✓ Selected: Near Intents'));
-                return 'near-intents';
-            case '3':
-                console.log(chalk.green('✓ Selected: FAsset'));
-                return 'fasset';
-            default:
-                console.log(chalk.red('❌ Invalid choice. Please enter 1, 2, or 3.'));
+        if (bridge) {
+            console.log(chalk.green(`✓ Selected: ${bridge.displayName}`));
+            return bridge.id;
         }
+
+        console.log(chalk.red(`❌ Invalid choice. Please enter a number between 1 and ${bridges.length}.`));
     }
 }
 
@@ -409,72 +451,38 @@ async function selectBridgeType(rl: readline.Interface): Promise<string> {
  * Display bridge direction selection menu
  */
 async function selectBridgeDirection(rl: readline.Interface, bridgeType: string): Promise<NetworkDirection> {
-    console.log(chalk.bold('\n🔄 Select Bridge Direction:'));
+    const routes = getBridge(bridgeType)?.routes ?? [];
 
-    if (bridgeType === 'axelar') {
-        console.log(` 1) ${chalk.bold('XRPL → XRPL-EVM')} ${chalk.dim('(XRPL to XRPL EVM Sidechain)')}`);
-        console.log(` 2) ${chalk.bold('XRPL-EVM → XRPL')} ${chalk.dim('(XRPL EVM Sidechain to XRPL)')}`);
-    } else if (bridgeType === 'near-intents') {
-        console.log(` 1) ${chalk.bold('XRPL → Base')} ${chalk.dim('(XRPL to Base L2)')}`);
-        console.log(` 2) ${chalk.bold('Base → XRPL')} ${chalk.dim('(Base L2 to XRPL)')}`);
-    } else if (bridgeType === 'fasset') {
-        console.log(` 1) ${chalk.bold('XRPL → Flare')} ${chalk.dim('(XRPL to Flare - Manual bridge)')}`);
-        console.log(` 2) ${chalk.bold('Flare → XRPL')} ${chalk.dim('(Flare to XRPL - Manual bridge)')}`);
-    } else {
-        console.log(` 1) ${chalk.bold('XRPL → EVM')} ${chalk.dim('(XRPL to EVM chain)')}`);
-        console.log(` 2) ${chalk.bold('EVM → XRPL')} ${chalk.dim('(EVM chain to XRPL)')}`);
-    }
+    console.log(chalk.bold('\n🔄 Select Bridge Direction:'));
+    routes.forEach((route, i) => {
+        console.log(` ${i + 1}) ${chalk.bold(formatRouteLabel(route))} ${chalk.dim(`(${route.description})`)}`);
+    });
 
     while (true) {
         const answer = await askQuestion(rl, '\nEnter your choice: ');
+        const route = routes[parseInt(answer, 10) - 1];
 
-        switch (answer) {
-            case '1':
-                if (bridgeType === 'axelar') {
-                    console.log(chalk.cyan('✓ Selected: XRPL → XRPL-EVM'));
-                    return 'xrpl_to_xrpl_evm';
-                } else if (bridgeType === 'near-intents') {
-                    console.log(chalk.cyan('✓ Selected: XRPL → Base'));
-                    return 'xrpl_to_base';
-                } else if (bridgeType === 'fasset') {
-                    console.log(chalk.cyan('✓ Selected: XRPL → Flare'));
-                    return 'xrpl_to_flare';
-                } else {
-                    console.log(chalk.cyan('✓ Selected: XRPL → EVM'));
-                    return 'xrpl_to_evm' as NetworkDirection;
-                }
-            case '2':
-                if (bridgeType === 'axelar') {
-                    console.log(chalk.cyan('✓ Selected: XRPL-EVM → XRPL'));
-                    return 'xrpl_evm_to_xrpl';
-                } else if (bridgeType === 'near-intents') {
-                    console.log(chalk.cyan('✓ Selected: Base → XRPL'));
-                    return 'base_to_xrpl';
-                } else if (bridgeType === 'fasset') {
-                    console.log(chalk.cyan('✓ Selected: Flare → XRPL'));
-                    return 'flare_to_xrpl';
-                } else {
-                    console.log(chalk.cyan('✓ Selected: EVM → XRPL'));
-                    return 'evm_to_xrpl' as NetworkDirection;
-                }
-            default:
-                console.log(chalk.red('❌ Invalid choice. Please enter 1 or 2.'));
+        if (route) {
+            console.log(chalk.cyan(`✓ Selected: ${formatRouteLabel(route)}`));
+            return route.direction;
         }
+
+        console.log(chalk.red(`❌ Invalid choice. Please enter a number between 1 and ${routes.length}.`));
     }
 }
 
 /**
  * Get XRP amount with validation
  */
-async function selectXrpAmount(rl: readline.Interface): Promise<number> {
+async function selectXrpAmount(rl: readline.Interface, minAmount: number = 2): Promise<number> {
     console.log(chalk.bold(`🚨 Up to 2 XRP (AVG. 0.2 XRP) could be used for gas fees.`));
-    console.log(chalk.bold('\n💰 Enter an XRP amount (min 2 XRP) for each transaction:'));
+    console.log(chalk.bold(`\n💰 Enter an XRP amount (min ${minAmount} XRP) for each transaction:`));
 
     while (true) {
         const answer = await askQuestion(rl, '\nEnter an amount of XRP: ');
 
         const customAmount = parseFloat(answer);
-        if (!isNaN(customAmount) && customAmount >= 2) {
+        if (!isNaN(customAmount) && customAmount >= minAmount) {
             if (customAmount >= 10) {
                 const confirm = await askQuestion(rl,
                     chalk.yellow(`⚠️  You entered ${customAmount} XRP for each transaction. This uses real mainnet funds. Continue? (y/N): `)
@@ -487,7 +495,7 @@ async function selectXrpAmount(rl: readline.Interface): Promise<number> {
             return customAmount;
         }
 
-        console.log(chalk.red('❌ Invalid amount. Please enter a number greater 2 XRP.'));
+        console.log(chalk.red(`❌ Invalid amount. Please enter a number greater ${minAmount} XRP.`));
     }
 }
 
@@ -536,7 +544,7 @@ async function confirmConfiguration(rl: readline.Interface, config: RunConfig):
 }
 
 
-export async function showMenu(): Promise<{ config: RunConfig; bridgeType: string }> {
+export async function showMenu(options: LoadConfigOptions = {}): Promise<{ config: RunConfig; bridgeType: string }> {
     const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout
@@ -549,22 +557,24 @@ export async function showMenu(): Promise<{ config: RunConfig; bridgeType: strin
         const bridgeType = await selectBridgeType(rl);
         const networkDirection = await selectBridgeDirection(rl, bridgeType);
 
-        // FAsset bridge has fixed amount and runs
-        let xrpAmount: number;
-        let nbRuns: number;
+        // Some routes (e.g. FAsset) have a fixed amount and/or number of runs
+        const { bridge, route } = findRouteByDirection(networkDirection)!;
+        const constraints = route.constraints ?? {};
 
-        if (bridgeType === 'fasset') {
-            xrpAmount = 10;
-            nbRuns = 1;
-            console.log(chalk.cyan('\n💰 FAsset bridge uses fixed configuration:'));
-            console.log(chalk.dim('   Amount: 10 XRP/FXRP per transaction'));
-            console.log(chalk.dim('   Runs: 1 (manual bridge operation)'));
-        } else {
-            xrpAmount = await selectXrpAmount(rl);
-            nbRuns = await selectNumberOfRuns(rl);
+        if (constraints.fixedAmount || constraints.fixedRuns) {
+            console.log(chalk.cyan(`\n💰 ${bridge.displayName} bridge uses fixed configuration:`));
+        }
+        if (constraints.fixedAmount) {
+            console.log(chalk.dim(`   Amount: ${route.defaults.amount} ${route.amountUnit} per transaction`));
         }
+        if (constraints.fixedRuns) {
+            console.log(chalk.dim(`   Runs: ${route.defaults.runs}${constraints.manual ? ' (manual bridge operation)' : ''}`));
+        }
+
+        const xrpAmount = constraints.fixedAmount ? route.defaults.amount : await selectXrpAmount(rl, constraints.minAmount);
+        const nbRuns = constraints.fixedRuns ? route.defaults.runs : await selectNumberOfRuns(rl);
 
-        const config = loadConfig(networkDirection, xrpAmount, nbRuns, bridgeType);
+        const config = loadConfig(networkDirection, xrpAmount, nbRuns, bridgeType, options);
 
         // Show summary and get confirmation
         const confirmed = await confirmConfiguration(rl, config);
@@ -586,14 +596,14 @@ export async function showMenu(): Promise<{ config: RunConfig; bridgeType: strin
 /**
  * Display wallet addresses and balances
  */
-async function displayWalletInfo(): Promise<void> {
-    console.log(chalk.bold('💼 Wallet Information'));
+async function displayWalletInfo(accountIndex: number = 0): Promise<void> {
+    console.log(chalk.bold(`💼 Wallet Information${accountIndex > 0 ? ` (account index ${accountIndex})` : ''}`));
     console.log(chalk.dim('─'.repeat(78)));
 
     try {
         // Get wallet instances
-        const xrplWallet = getXrplWallet();
-        const evmAccount = getEvmAccount();
+        const xrplWallet = getXrplWallet(accountIndex);
+        const evmAccount = getEvmAccount(accountIndex);
 
         // Fetch XRPL balance
         let xrplBalance = 'Loading...';
@@ -725,21 +735,21 @@ async function displayWalletInfo(): Promise<void> {
  * Display wallet addresses and balances
  * Returns true (always proceeds)
  */
-export async function displayWalletInfoAndConfirm(): Promise<boolean> {
-    await displayWalletInfo();
+export async function displayWalletInfoAndConfirm(accountIndex: number = 0): Promise<boolean> {
+    await displayWalletInfo(accountIndex);
     return true;
 }
 
 /**
  * Show main menu: Select action (run tests or manage metrics)
  */
-export async function showMainMenu(): Promise<{ action: 'bridge' | 'metrics' }> {
+export async function showMainMenu(accountIndex: number = 0): Promise<{ action: 'bridge' | 'metrics' }> {
     console.log(chalk.bold.cyan('\n╔══════════════════════════════════════════════════════════════════════════════╗'));
     console.log(chalk.bold.cyan('║             XRPL ↔ EVM Bridge Performance & Metrics Tool                     ║'));
     console.log(chalk.bold.cyan('╚══════════════════════════════════════════════════════════════════════════════╝\n'));
 
     // Display wallet addresses and balances, get user confirmation
-    const confirmed = await displayWalletInfoAndConfirm();
+    const confirmed = await displayWalletInfoAndConfirm(accountIndex);
     if (!confirmed) {
         process.exit(0);
     }
@@ -851,6 +861,8 @@ async function recomputeSpecificFolderMetrics(rl: readline.Interface): Promise<v
                     console.log(`   P50:              ${chalk.yellow((summary.latency.p50Ms ?? 0).toFixed(2))} ms`);
                     console.log(`   P90:              ${chalk.yellow((summary.latency.p90Ms ?? 0).toFixed(2))} ms`);
                     console.log(`   P95:              ${chalk.yellow((summary.latency.p95Ms ?? 0).toFixed(2))} ms`);
+                    console.log(`   P99:              ${chalk.yellow((summary.latency.p99Ms ?? 0).toFixed(2))} ms`);
+                    console.log(`   IQR:              ${chalk.yellow((summary.latency.iqrMs ?? 0).toFixed(2))} ms`);
                     console.log(`   Min/Max:          ${chalk.dim((summary.latency.minMs ?? 0).toFixed(2))} / ${chalk.dim((summary.latency.maxMs ?? 0).toFixed(2))} ms`);
                 }
 
@@ -920,6 +932,13 @@ async function recomputeAllTxMetrics(): Promise<void> {
     }
 }
 
+type LatencyKey = 'minMs' | 'p25Ms' | 'p50Ms' | 'p75Ms' | 'p90Ms' | 'p95Ms' | 'p99Ms' | 'maxMs' | 'iqrMs' | 'meanMs' | 'stdDevMs';
+
+/** Render a confidence interval in ms, "N/A" below 2 runs */
+function fxCi(ci?: [number, number] | null): string {
+    return ci ? `[${ci[0].toFixed(0)}, ${ci[1].toFixed(0)}]` : "N/A";
+}
+
 /** Render ms; if > 1000ms, add "(Xs)" hint */
 function fxMs(ms?: number | null): string {
     if (ms == null || Number.isNaN(ms)) return "N/A";
@@ -948,17 +967,56 @@ export function displayMetrics(metrics: MetricsSummary): void {
     console.log(`  Failed:        ${chalk.red(metrics.failureCount)}`);
     console.log(`  Success Rate:  ${chalk[metrics.successCount === metrics.totalRuns ? 'green' : 'yellow']((metrics.successRate * 100) + '%')}`);
     console.log(`  Total Time:    ${chalk.cyan(formatElapsedMs(metrics.batchDurationMs))}`);
+    if (metrics.integrity && metrics.integrity.excludedRuns > 0) {
+        const reasons = Object.entries(metrics.integrity.exclusionReasons).map(([k, n]) => `${k} ×${n}`).join(', ');
+        console.log(`  Excluded:      ${chalk.yellow(metrics.integrity.excludedRuns)} ${chalk.dim(`(${reasons})`)}`);
+    }
+    if (metrics.integrity && metrics.integrity.flaggedRuns > 0) {
+        console.log(`  Flagged:       ${chalk.yellow(metrics.integrity.flaggedRuns)} ${chalk.dim('(kept despite an integrity issue)')}`);
+    }
 
 
     if (metrics.successCount > 0) {
+        const onchain = metrics.latencyOnchain && metrics.latencyOnchain.n > 0 ? metrics.latencyOnchain : undefined;
+        // Observed latency, with the on-chain latency (block/ledger close times) next to it when recorded
+        const row = (label: string, key: LatencyKey, color: (s: string) => string) => {
+            const observed = color(fxMs(metrics.latency[key]).padEnd(22));
+            console.log(`  ${label.padEnd(18)}${observed}${onchain ? chalk.magenta(fxMs(onchain[key])) : ''}`);
+        };
+
+        const ciRow = (label: string, key: 'p50CiMs' | 'meanCiMs') => {
+            const observed = fxCi(metrics.latency[key]).padEnd(22);
+            console.log(`  ${label.padEnd(18)}${chalk.dim(observed)}${onchain ? chalk.magenta(fxCi(onchain[key])) : ''}`);
+        };
+
         console.log(chalk.bold.cyan("\n⏱️ Latency distribution (ms):"));
-        console.log(`  Min:              ${chalk.cyan(fxMs(metrics.latency.minMs))}`);
-        console.log(`  P50 (Median):     ${chalk.cyan(fxMs(metrics.latency.p50Ms))}`);
-        console.log(`  P90:              ${chalk.cyan(fxMs(metrics.latency.p90Ms))}`);
-        console.log(`  P95:              ${chalk.cyan.bold(fxMs(metrics.latency.p95Ms))}`);
-        console.log(`  Max:              ${chalk.cyan(fxMs(metrics.latency.maxMs))}`);
-        console.log(`  Mean:             ${chalk.white(fxMs(metrics.latency.meanMs))}`);
-        console.log(`  Std Dev:          ${chalk.dim(fxMs(metrics.latency.stdDevMs))}`);
+        if (onchain) {
+            console.log(chalk.dim(`  ${''.padEnd(18)}${'Observed'.padEnd(22)}On-chain (n=${onchain.n})`));
+        }
+        row('Min:', 'minMs', chalk.cyan);
+        row('P25:', 'p25Ms', chalk.cyan);
+        row('P50 (Median):', 'p50Ms', chalk.cyan);
+        row('P75:', 'p75Ms', chalk.cyan);
+        row('P90:', 'p90Ms', chalk.cyan);
+        row('P95:', 'p95Ms', chalk.cyan.bold);
+        row('P99:', 'p99Ms', chalk.cyan);
+        row('Max:', 'maxMs', chalk.cyan);
+        row('IQR:', 'iqrMs', chalk.white);
+        row('Mean:', 'meanMs', chalk.white);
+        row('Std Dev:', 'stdDevMs', chalk.dim);
+        ciRow(`P50 ${CONFIDENCE_LEVEL * 100}% CI:`, 'p50CiMs');
+        ciRow(`Mean ${CONFIDENCE_LEVEL * 100}% CI:`, 'meanCiMs');
+
+        const segments = (Object.keys(LATENCY_SEGMENTS) as LatencySegment[])
+            .filter(name => (metrics.latencySegments?.[name].n ?? 0) > 0);
+        if (segments.length > 0) {
+            console.log(chalk.bold.cyan("\n🧩 Latency breakdown (p50 / mean, ms):"));
+            for (const name of segments) {
+                const stats = metrics.latencySegments![name];
+                const [from, to] = LATENCY_SEGMENTS[name];
+                console.log(`  ${name.padEnd(18)}${chalk.cyan(fxMs(stats.p50Ms))} / ${chalk.white(fxMs(stats.meanMs))}  ${chalk.dim(`n=${stats.n}, ${from} → ${to}`)}`);
+            }
+        }
     } else {
         console.log(chalk.red("\n⚠️  No successful runs to analyze."));
     }
@@ -972,4 +1030,91 @@ export function displayMetrics(metrics: MetricsSummary): void {
             console.log(`  Target Fee:    ${chalk.yellow('$' + metrics.costs.meanTargetFeeUsd.toFixed(4))}`);
         }
     }
+
+    const { usd, bpsUsd } = metrics.costs;
+    if (usd && bpsUsd && usd.totalBridgeCost.n > 0) {
+        // USD and basis points of the transferred value, on the same row
+        const costRow = (label: string, dist: CostDistribution, bps: CostDistribution | undefined) => {
+            const fx = (v: number | null, unit: 'usd' | 'bps') => v == null ? 'N/A' : unit === 'usd' ? '$' + v.toFixed(4) : v.toFixed(1);
+            const usdCells = [dist.min, dist.p50, dist.p90, dist.max].map(v => fx(v, 'usd').padEnd(10)).join('');
+            const bpsCell = bps && bps.n > 0 ? chalk.magenta(`${fx(bps.p50, 'bps')} bps`) : '';
+            console.log(`  ${label.padEnd(18)}${chalk.yellow(usdCells)}${chalk.dim(`±${fx(dist.stdDev, 'usd')}`.padEnd(12))}${bpsCell}`);
+        };
+
+        console.log(chalk.bold("\nCost distribution (USD):"));
+        console.log(chalk.dim(`  ${''.padEnd(18)}${'Min'.padEnd(10)}${'P50'.padEnd(10)}${'P90'.padEnd(10)}${'Max'.padEnd(10)}${'Std Dev'.padEnd(12)}P50 of value`));
+        for (const component of FEE_COMPONENTS) {
+            if (usd[component].n > 0) costRow(`${component}:`, usd[component], bpsUsd[component]);
+        }
+        if (usd.totalCost.n > 0) costRow('totalCost:', usd.totalCost, undefined);
+    }
+}
+
+/** Render a compared value in the unit of its metric */
+function fxCompared(metric: ComparedMetric, value: number): string {
+    return metric.endsWith('Usd') ? `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(4)}` : `${value.toFixed(0)}ms`;
+}
+
+/**
+ * Display the pairwise comparisons of direction folders (differences are B - A)
+ */
+export function displayComparison(report: ComparisonReport): void {
+    console.log(chalk.bold("\n📐 Compared folders:"));
+    report.folders.forEach((f, i) => {
+        console.log(`  ${chalk.yellow(String.fromCharCode(65 + i))}  ${f.folder.padEnd(34)}${chalk.dim(`${f.successCount}/${f.totalRuns} successful runs`)}`);
+    });
+
+    const label = (folder: string) => String.fromCharCode(65 + report.folders.findIndex(f => f.folder === folder));
+    const ci = `${report.confidenceLevel * 100}% CI`;
+
+    for (const metric of [...new Set(report.comparisons.map(c => c.metric))]) {
+        console.log(chalk.bold.cyan(`\n⚖️  ${metric}:`));
+        console.log(chalk.dim(`  ${'Pair'.padEnd(8)}${'n'.padEnd(12)}${'Median diff'.padEnd(16)}${ci.padEnd(26)}${'MW p'.padEnd(10)}${'KS p'.padEnd(10)}Cliff's δ`));
+
+        for (const c of report.comparisons.filter(c => c.metric === metric)) {
+            const pair = `${label(c.folderB)}-${label(c.folderA)}`;
+            const range = c.medianDiffCi ? `[${fxCompared(metric, c.medianDiffCi[0])}, ${fxCompared(metric, c.medianDiffCi[1])}]` : 'N/A';
+            const p = (value: number) => (value < 0.05 ? chalk.green : chalk.dim)(value.toFixed(4).padEnd(10));
+            console.log(
+                `  ${pair.padEnd(8)}${`${c.nB} vs ${c.nA}`.padEnd(12)}${chalk.cyan(fxCompared(metric, c.medianDiff).padEnd(16))}${range.padEnd(26)}` +
+                `${p(c.mannWhitney.pValue)}${p(c.ks.pValue)}${c.cliffsDelta.toFixed(3)} ${chalk.dim(`(${c.cliffsMagnitude})`)}`
+            );
+        }
+    }
+}
+
+/** Render a fitted value with its standard error */
+function fxFit(value: number, se: number | null, digits: number): string {
+    return se !== null ? `${value.toFixed(digits)} ± ${se.toFixed(digits)}` : value.toFixed(digits);
+}
+
+/**
+ * Display the fee-vs-amount and latency-vs-amount table of an amount sweep with the fitted fee model
+ */
+export function displaySweepReport(report: SweepReport): void {
+    console.log(chalk.bold.cyan(`\n📈 Amount sweep ${report.sweepId} (${report.bridgeName}, ${report.direction}):`));
+    console.log(chalk.dim(`  ${'Amount'.padEnd(10)}${'Runs'.padEnd(8)}${'Latency P50'.padEnd(22)}${'Cost P50 (USD)'.padEnd(16)}${'Cost P50 (bps)'.padEnd(16)}Bridge fee P50 (USD)`));
+    for (const row of report.rows) {
+        const usd = (v: number | null) => v == null ? 'N/A' : '$' + v.toFixed(4);
+        console.log(
+            `  ${String(row.amount).padEnd(10)}${`${row.successCount}/${row.totalRuns}`.padEnd(8)}${chalk.cyan(fxMs(row.latency.p50Ms).padEnd(22))}` +
+            `${chalk.yellow(usd(row.totalBridgeCostUsd.p50).padEnd(16))}${chalk.magenta((row.totalBridgeCostBps.p50?.toFixed(1) ?? 'N/A').padEnd(16))}${usd(row.bridgeFeeUsd.p50)}`
+        );
+    }
+
+    const model = (label: string, m: FeeModel | null, unit: string) => {
+        if (!m) {
+            console.log(`  ${label.padEnd(10)}${chalk.dim('not enough distinct amounts to fit')}`);
+            return;
+        }
+        console.log(`  ${label.padEnd(10)}fixed ${chalk.yellow(fxFit(m.fixed, m.fixedSe, 4))} ${unit} + ${chalk.magenta(fxFit(m.rateBps, m.rateBpsSe, 1))} bps ${chalk.dim(`(R² ${m.r2?.toFixed(3) ?? 'N/A'}, n=${m.n})`)}`);
+    };
+    console.log(chalk.bold('\nFee model (total bridge cost = fixed + rate × transferred value):'));
+    model('Native:', report.feeModel.native, 'native');
+    model('USD:', report.feeModel.usd, 'USD');
+
+    if (report.latencyVsAmount) {
+        const fit = report.latencyVsAmount;
+        console.log(chalk.dim(`\n  Latency vs amount: ${fxFit(fit.slope, fit.slopeSe, 1)} ms per unit (R² ${fit.r2?.toFixed(3) ?? 'N/A'})`));
+    }
 }
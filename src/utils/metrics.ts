@@ -1,22 +1,77 @@
-import type { RunConfig, RunRecord } from "../types";
+import type { ExcludedRun, RunConfig, RunCosts, RunRecord, RunTimestamps } from "../types";
 
 export interface LatencyStats {
   n: number;
   minMs: number | null;
+  p25Ms: number | null;
   p50Ms: number | null;
+  p75Ms: number | null;
   p90Ms: number | null;
   p95Ms: number | null;
+  p99Ms: number | null;
   maxMs: number | null;
+  iqrMs: number | null;     // p75 - p25
   meanMs: number | null;
-  stdDevMs: number | null;
+  stdDevMs: number | null;  // Sample standard deviation (n - 1), null below 2 runs
+  // Percentile bootstrap confidence intervals (CONFIDENCE_LEVEL), null below 2 runs
+  p50CiMs: [number, number] | null;
+  meanCiMs: [number, number] | null;
+}
+
+/** Confidence level of the bootstrap intervals */
+export const CONFIDENCE_LEVEL = 0.95;
+export const BOOTSTRAP_RESAMPLES = 2000;
+export const BOOTSTRAP_SEED = 0x5eed; // Fixed so that recomputing metrics gives the same intervals
+
+/**
+ * Segments of the end-to-end latency, each between two milestones of RunTimestamps.
+ * A run only contributes to the segments whose both milestones were recorded.
+ */
+export const LATENCY_SEGMENTS = {
+  sourceInclusion: ["t1_submit", "t_source_validated"],            // Source chain: submit -> tx validated (observed)
+  sourceBlock: ["t1_submit", "t_source_block"],                    // Source chain: submit -> block/ledger close time (on-chain)
+  bridge: ["t_source_validated", "t_target_included"],             // Bridge: source validated -> target tx seen
+  bridgeAttestation: ["t_source_validated", "t_bridge_confirmed"], // Bridge validators/relayer confirm the source tx
+  bridgeExecution: ["t_bridge_confirmed", "t_bridge_executed"],    // Bridge approval and execution on the target chain
+  targetInclusion: ["t_bridge_executed", "t_target_included"],     // Target chain: bridge executed -> target tx seen
+  targetBlock: ["t_target_block", "t_target_included"],            // Target chain: block/ledger close -> target tx seen
+  targetMatch: ["t_target_included", "t3_finalized"],              // Observer: target tx first seen -> matched to the run (bridge status)
+} as const satisfies Record<string, readonly [keyof RunTimestamps, keyof RunTimestamps]>;
+
+export type LatencySegment = keyof typeof LATENCY_SEGMENTS;
+
+/**
+ * Cost components of RunCosts. Native values are in the source currency,
+ * or in USD for cross-currency and FAsset bridges (see createRunRecord).
+ */
+export const COST_COMPONENTS = ["sourceFee", "targetFee", "bridgeFee", "totalBridgeCost", "totalCost"] as const;
+export type CostComponent = typeof COST_COMPONENTS[number];
+
+/** Components reported relative to the transferred value (totalCost includes the transferred amount itself) */
+export const FEE_COMPONENTS = ["sourceFee", "targetFee", "bridgeFee", "totalBridgeCost"] as const;
+export type FeeComponent = typeof FEE_COMPONENTS[number];
+
+/** Distribution of a cost over the successful runs, in the unit of its basis (native, USD or bps) */
+export interface CostDistribution {
+  n: number;
+  min: number | null;
+  p50: number | null;
+  p90: number | null;
+  max: number | null;
+  mean: number | null;
+  stdDev: number | null; // Sample standard deviation (n - 1), null below 2 runs
 }
 
 export interface CostsStats {
   n: number;
-  // All cost stats are now in USD for unified metrics
   meanBridgeUsd: number | null;
   meanSourceFeeUsd: number | null;
   meanTargetFeeUsd: number | null;
+  // Distributions (absent in older summaries)
+  native?: Record<CostComponent, CostDistribution>;
+  usd?: Record<CostComponent, CostDistribution>;
+  bpsNative?: Record<FeeComponent, CostDistribution>; // Cost / transferred value, in basis points (1 bps = 0.01%)
+  bpsUsd?: Record<FeeComponent, CostDistribution>;
 }
 
 export interface MetricsSummary {
@@ -26,7 +81,7 @@ export interface MetricsSummary {
 
   direction: string;
   transferAmount: number; // Amount transferred per transaction (native currency)
-  transferAmountUsd: number; // Amount transferred in USD (for comparison)
+  transferAmountUsd: number; // Mean USD value of the amount sent by the successful runs (0 if unknown)
   runsPlanned: number;
 
   totalRuns: number;
@@ -34,21 +89,36 @@ export interface MetricsSummary {
   failureCount: number;
   successRate: number;
 
-  latency: LatencyStats;
+  latency: LatencyStats;             // Observed: submit -> arrival seen by our observer
+  latencyOnchain?: LatencyStats;     // On-chain: source block/ledger close -> target block/ledger close
+  latencySegments?: Record<LatencySegment, LatencyStats>; // Breakdown of the latency (absent in older summaries)
   costs: CostsStats; // All costs in USD
+  integrity?: IntegrityStats; // Absent in older summaries
 
   batchDurationMs: number;
 }
 
+/** Runs excluded from the records, and records kept despite a data integrity issue */
+export interface IntegrityStats {
+  excludedRuns: number;                     // Runs of {batchId}_excluded.jsonl, not counted in totalRuns
+  exclusionReasons: Record<string, number>; // By "{issue}:{action}" ("other:{action}" without an issue)
+  flaggedRuns: number;                      // Records with at least one integrity flag
+  flags: Record<string, number>;            // Flags of the records by "{issue}:{action}:{decidedBy}"
+}
+
 export interface MetricsReport {
   summary: MetricsSummary;
   latenciesMs: number[];
+  latenciesOnchainMs?: number[];
+  transferAmountsUsd?: number[]; // USD value of the amount sent, per successful run (see transferAmountUsd)
   failureReasons: Record<string, number>;
   cfgEcho: {
     tag: string;
     direction: string;
     xrpAmount: number;
     runs: number;
+    sweepId?: string;
+    campaignId?: string;
     xrplUrl: string;
     evmUrl: string;
     xrplAddress?: string;
@@ -56,17 +126,17 @@ export interface MetricsReport {
   };
 }
 
-function byNumberAsc(a: number, b: number) { return a - b; }
-function mean(arr: number[]): number | null {
+export function byNumberAsc(a: number, b: number) { return a - b; }
+export function mean(arr: number[]): number | null {
   return arr.length ? arr.reduce((s, x) => s + x, 0) / arr.length : null;
 }
-function stddev(arr: number[]): number | null {
-  if (!arr.length) return null;
+function sampleStddev(arr: number[]): number | null {
+  if (arr.length < 2) return null;
   const m = mean(arr)!;
-  const v = arr.reduce((s, x) => s + (x - m) ** 2, 0) / arr.length;
+  const v = arr.reduce((s, x) => s + (x - m) ** 2, 0) / (arr.length - 1);
   return Math.sqrt(v);
 }
-function percentile(sortedAsc: number[], p: number): number {
+export function percentile(sortedAsc: number[], p: number): number {
   if (!sortedAsc.length) return NaN;
   const idx = (sortedAsc.length - 1) * p;
   const lo = Math.floor(idx);
@@ -75,6 +145,50 @@ function percentile(sortedAsc: number[], p: number): number {
   return (1 - w) * sortedAsc[lo] + w * sortedAsc[hi];
 }
 
+// mulberry32, a small seeded PRNG (Math.random cannot be seeded)
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Percentile bootstrap confidence interval of the median and the mean:
+ * BOOTSTRAP_RESAMPLES resamples with replacement, interval bounds at the (1 ± CONFIDENCE_LEVEL) / 2 quantiles
+ */
+function bootstrapCis(values: number[]): { p50: [number, number] | null; mean: [number, number] | null } {
+  if (values.length < 2) return { p50: null, mean: null };
+
+  const rand = seededRandom(BOOTSTRAP_SEED);
+  const n = values.length;
+  const medians: number[] = [];
+  const means: number[] = [];
+  const sample = new Array<number>(n);
+
+  for (let b = 0; b < BOOTSTRAP_RESAMPLES; b++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sample[i] = values[Math.floor(rand() * n)];
+      sum += sample[i];
+    }
+    means.push(sum / n);
+    sample.sort(byNumberAsc);
+    medians.push(percentile(sample, 0.50));
+  }
+
+  const alpha = (1 - CONFIDENCE_LEVEL) / 2;
+  const interval = (estimates: number[]): [number, number] => {
+    estimates.sort(byNumberAsc);
+    return [percentile(estimates, alpha), percentile(estimates, 1 - alpha)];
+  };
+  return { p50: interval(medians), mean: interval(means) };
+}
+
 // End-to-end latency: start of submit -> start of observe (both START stamps)
 function e2eLatencyMs(r: RunRecord): number | null {
   const t1 = r.timestamps.t1_submit;
@@ -83,8 +197,163 @@ function e2eLatencyMs(r: RunRecord): number | null {
   return Math.max(0, t3 - t1);
 }
 
+// On-chain latency: block/ledger close time of the source tx -> of the target tx (no polling delay)
+export function onchainLatencyMs(r: RunRecord): number | null {
+  const t0 = r.timestamps.t_source_block;
+  const t1 = r.timestamps.t_target_block;
+  if (typeof t0 !== "number" || typeof t1 !== "number") return null;
+  return Math.max(0, t1 - t0);
+}
+
+/** Duration between two milestones of a run, null if either is missing */
+function segmentLatencyMs(r: RunRecord, [from, to]: readonly [keyof RunTimestamps, keyof RunTimestamps]): number | null {
+  const start = r.timestamps[from];
+  const end = r.timestamps[to];
+  if (typeof start !== "number" || typeof end !== "number") return null;
+  return Math.max(0, end - start);
+}
+
+export function computeLatencyStats(latencies: number[]): LatencyStats {
+  const latSorted = [...latencies].sort(byNumberAsc);
+  const p = (q: number) => latencies.length ? percentile(latSorted, q) : null;
+  const p25 = p(0.25);
+  const p75 = p(0.75);
+  const cis = bootstrapCis(latencies);
+  return {
+    n: latencies.length,
+    minMs: latencies.length ? latSorted[0] : null,
+    p25Ms: p25,
+    p50Ms: p(0.50),
+    p75Ms: p75,
+    p90Ms: p(0.90),
+    p95Ms: p(0.95),
+    p99Ms: p(0.99),
+    maxMs: latencies.length ? latSorted[latSorted.length - 1] : null,
+    iqrMs: p25 !== null && p75 !== null ? p75 - p25 : null,
+    meanMs: mean(latencies),
+    stdDevMs: sampleStddev(latencies),
+    p50CiMs: cis.p50,
+    meanCiMs: cis.mean,
+  };
+}
+
+/** LatencyStats of every segment over the successful runs */
+export function computeLatencySegments(successes: RunRecord[]): Record<LatencySegment, LatencyStats> {
+  const segments = {} as Record<LatencySegment, LatencyStats>;
+  for (const name of Object.keys(LATENCY_SEGMENTS) as LatencySegment[]) {
+    const latencies = successes
+      .map(r => segmentLatencyMs(r, LATENCY_SEGMENTS[name]))
+      .filter((x): x is number => typeof x === "number");
+    segments[name] = computeLatencyStats(latencies);
+  }
+  return segments;
+}
+
+function computeCostDistribution(values: number[]): CostDistribution {
+  const sorted = [...values].sort(byNumberAsc);
+  const p = (q: number) => values.length ? percentile(sorted, q) : null;
+  return {
+    n: values.length,
+    min: values.length ? sorted[0] : null,
+    p50: p(0.50),
+    p90: p(0.90),
+    max: values.length ? sorted[sorted.length - 1] : null,
+    mean: mean(values),
+    stdDev: sampleStddev(values),
+  };
+}
+
+/**
+ * Value transferred by a run in the unit of the basis: totalCost minus the source fee,
+ * i.e. the sent amount net of the gas refund
+ */
+export function transferredValue(costs: RunCosts, basis: "native" | "usd"): number | null {
+  const totalCost = basis === "usd" ? costs.totalCostUsd : costs.totalCost;
+  const sourceFee = basis === "usd" ? costs.sourceFeeUsd : costs.sourceFee;
+  if (typeof totalCost !== "number") return null;
+  const value = totalCost - (sourceFee ?? 0);
+  return value > 0 ? value : null;
+}
+
+/**
+ * USD value of the amount sent by a run, as priced by createRunRecord.
+ * Older records without it fall back to the transferred value of their USD costs.
+ */
+export function transferAmountUsd(record: RunRecord): number | null {
+  if (!record.costs) return null;
+  return record.costs.transferAmountUsd ?? transferredValue(record.costs, "usd");
+}
+
+/** Mean USD value of the amount sent by the runs, 0 when none is known (as in older summaries) */
+export function meanTransferAmountUsd(records: RunRecord[]): number {
+  return mean(records.map(transferAmountUsd).filter((x): x is number => typeof x === "number")) ?? 0;
+}
+
+/** Cost distributions of the successful runs, in native currency, USD and basis points of the transferred value */
+export function computeCostStats(successes: RunRecord[]): CostsStats {
+  const costsOf = (component: CostComponent, basis: "native" | "usd") => successes
+    .map(r => r.costs?.[basis === "usd" ? `${component}Usd` as const : component])
+    .filter((x): x is number => typeof x === "number");
+
+  const bpsOf = (component: FeeComponent, basis: "native" | "usd") => successes
+    .map(r => {
+      const cost = r.costs?.[basis === "usd" ? `${component}Usd` as const : component];
+      const value = r.costs ? transferredValue(r.costs, basis) : null;
+      return typeof cost === "number" && value !== null ? cost / value * 10_000 : null;
+    })
+    .filter((x): x is number => typeof x === "number");
+
+  const native = {} as Record<CostComponent, CostDistribution>;
+  const usd = {} as Record<CostComponent, CostDistribution>;
+  for (const component of COST_COMPONENTS) {
+    native[component] = computeCostDistribution(costsOf(component, "native"));
+    usd[component] = computeCostDistribution(costsOf(component, "usd"));
+  }
+
+  const bpsNative = {} as Record<FeeComponent, CostDistribution>;
+  const bpsUsd = {} as Record<FeeComponent, CostDistribution>;
+  for (const component of FEE_COMPONENTS) {
+    bpsNative[component] = computeCostDistribution(bpsOf(component, "native"));
+    bpsUsd[component] = computeCostDistribution(bpsOf(component, "usd"));
+  }
+
+  return {
+    n: usd.bridgeFee.n,
+    meanBridgeUsd: usd.bridgeFee.mean,
+    meanSourceFeeUsd: usd.sourceFee.mean,
+    meanTargetFeeUsd: usd.targetFee.mean,
+    native,
+    usd,
+    bpsNative,
+    bpsUsd,
+  };
+}
+
+/**
+ * Count the excluded runs and the integrity flags of the records
+ */
+export function computeIntegrityStats(records: RunRecord[], excluded: ExcludedRun[]): IntegrityStats {
+  const exclusionReasons: Record<string, number> = {};
+  for (const e of excluded) {
+    const key = `${e.issue ?? "other"}:${e.action}`;
+    exclusionReasons[key] = (exclusionReasons[key] || 0) + 1;
+  }
 
-export function computeMetrics(cfg: RunConfig, records: RunRecord[], batchDurationMs: number): MetricsReport {
+  const flags: Record<string, number> = {};
+  for (const flag of records.flatMap(r => r.integrityFlags ?? [])) {
+    const key = `${flag.issue}:${flag.action}:${flag.decidedBy}`;
+    flags[key] = (flags[key] || 0) + 1;
+  }
+
+  return {
+    excludedRuns: excluded.length,
+    exclusionReasons,
+    flaggedRuns: records.filter(r => (r.integrityFlags?.length ?? 0) > 0).length,
+    flags,
+  };
+}
+
+export function computeMetrics(cfg: RunConfig, records: RunRecord[], batchDurationMs: number, excluded: ExcludedRun[] = []): MetricsReport {
   const successes = records.filter(r => r.success);
   const failures = records.filter(r => !r.success);
 
@@ -99,70 +368,53 @@ export function computeMetrics(cfg: RunConfig, records: RunRecord[], batchDurati
     return acc;
   }, {});
 
-  const latSorted = [...latencies].sort(byNumberAsc);
-  const latencyStats: LatencyStats = {
-    n: latencies.length,
-    minMs: latencies.length ? latSorted[0] : null,
-    p50Ms: latencies.length ? percentile(latSorted, 0.50) : null,
-    p90Ms: latencies.length ? percentile(latSorted, 0.90) : null,
-    p95Ms: latencies.length ? percentile(latSorted, 0.95) : null,
-    maxMs: latencies.length ? latSorted[latSorted.length - 1] : null,
-    meanMs: mean(latencies),
-    stdDevMs: stddev(latencies),
-  };
-
-  // Extract USD costs from RunCosts
-  const bridgeArrUsd = successes
-    .map(r => r.costs?.bridgeFeeUsd)
-    .filter((x): x is number => typeof x === "number");
-  const sourceArrUsd = successes
-    .map(r => r.costs?.sourceFeeUsd)
-    .filter((x): x is number => typeof x === "number");
-  const targetArrUsd = successes
-    .map(r => r.costs?.targetFeeUsd)
+  const latencyStats = computeLatencyStats(latencies);
+  const onchainLatencies = successes
+    .map(onchainLatencyMs)
     .filter((x): x is number => typeof x === "number");
 
-  const costStats: CostsStats = {
-    n: bridgeArrUsd.length,
-    meanBridgeUsd: mean(bridgeArrUsd),
-    meanSourceFeeUsd: mean(sourceArrUsd),
-    meanTargetFeeUsd: mean(targetArrUsd),
-  };
-
   const totalRuns = records.length;
   const successCount = successes.length;
   const failureCount = totalRuns - successCount;
   const successRate = totalRuns ? successCount / totalRuns : 0;
 
-  // Note: transferAmountUsd will be computed later when we have price data
-  // For now, we'll just use the xrpAmount and set transferAmountUsd to 0
-  // This will be properly set when metrics are saved/displayed
+  const transferAmountsUsd = successes
+    .map(transferAmountUsd)
+    .filter((x): x is number => typeof x === "number");
+
   const summary: MetricsSummary = {
     timestampIso: new Date().toISOString(),
     tag: cfg.tag,
     bridgeName: cfg.bridgeName,
     direction: cfg.direction,
     transferAmount: cfg.xrpAmount, // Native currency amount
-    transferAmountUsd: 0, // Will be computed when displaying metrics
+    transferAmountUsd: mean(transferAmountsUsd) ?? 0,
     runsPlanned: cfg.runs,
     totalRuns,
     successCount,
     failureCount,
     successRate,
     latency: latencyStats,
-    costs: costStats,
+    latencyOnchain: computeLatencyStats(onchainLatencies),
+    latencySegments: computeLatencySegments(successes),
+    costs: computeCostStats(successes),
+    integrity: computeIntegrityStats(records, excluded),
     batchDurationMs,
   };
 
   return {
     summary,
     latenciesMs: latencies,
+    latenciesOnchainMs: onchainLatencies,
+    transferAmountsUsd,
     failureReasons,
     cfgEcho: {
       tag: cfg.tag,
       direction: cfg.direction,
       xrpAmount: cfg.xrpAmount,
       runs: cfg.runs,
+      sweepId: cfg.sweepId,
+      campaignId: cfg.campaignId,
       xrplUrl: cfg.networks.xrpl.wsUrl,
       evmUrl: cfg.networks.evm.rpcUrl,
     },
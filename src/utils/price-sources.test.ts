@@ -0,0 +1,135 @@
+import "./test-env";
+import test, { after, describe } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createFilePriceSource, createOhlcPriceSource, parsePriceSourceSpec } from "./price-sources";
+
+// Prices are cached under data/prices of the working directory
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "price-sources-"));
+process.chdir(workDir);
+after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+function writeFile(name: string, content: string): string {
+    const file = path.join(workDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+}
+
+const T0 = Date.parse("2025-01-31T12:00:00Z");
+const MINUTE = 60_000;
+
+describe("file price source", () => {
+    const csv = writeFile("prices.csv", [
+        "currency,timestamp,price,note",
+        `XRP,${T0 + 2 * MINUTE},3.20,`,
+        `XRP,${T0},3.00,first`,
+        "XRP,2025-01-31T12:01:00Z,3.10,iso",
+        `eth,${T0},3300,lower case`,
+        "",
+    ].join("\n"));
+
+    test("prices a time with the last row at or before it, whatever the row order", async () => {
+        const source = createFilePriceSource(csv);
+        assert.equal((await source.getPrice("XRP", T0)).priceUsd, 3.0);
+        assert.equal((await source.getPrice("XRP", T0 + MINUTE - 1)).priceUsd, 3.0);
+        assert.equal((await source.getPrice("XRP", T0 + MINUTE)).priceUsd, 3.1);
+        assert.equal((await source.getPrice("XRP", T0 + 90 * MINUTE)).priceUsd, 3.2);
+    });
+
+    test("fails before the first row and gives the last row without a time", async () => {
+        const source = createFilePriceSource(csv);
+        await assert.rejects(source.getPrice("XRP", T0 - 1), /No XRP price at or before/);
+        assert.equal((await source.getPrice("XRP")).priceUsd, 3.2);
+    });
+
+    test("keeps the provenance of the row", async () => {
+        const price = await createFilePriceSource(csv).getPrice("XRP", T0 + MINUTE + 5);
+        assert.equal(price.timestamp, T0 + MINUTE);
+        assert.equal(price.source, `file:${csv}`);
+        assert.equal(price.granularity, "file");
+    });
+
+    test("upper-cases currencies, prices FXRP as XRP and stablecoins at $1", async () => {
+        const source = createFilePriceSource(csv);
+        assert.equal((await source.getPrice("ETH", T0)).priceUsd, 3300);
+        assert.equal((await source.getPrice("FXRP", T0)).priceUsd, 3.0);
+        assert.equal((await source.getPrice("USDC", T0)).priceUsd, 1.0);
+        await assert.rejects(source.getPrice("FLR", T0), /No FLR prices/);
+    });
+
+    test("reads JSON files with numeric or ISO timestamps", async () => {
+        const json = writeFile("prices.json", JSON.stringify([
+            { timestamp: T0, currency: "XRP", price: 2.5 },
+            { timestamp: "2025-01-31T12:05:00Z", currency: "XRP", price: "2.75" },
+        ]));
+        const source = createFilePriceSource(json);
+        assert.equal((await source.getPrice("XRP", T0 + 4 * MINUTE)).priceUsd, 2.5);
+        assert.equal((await source.getPrice("XRP", T0 + 5 * MINUTE)).priceUsd, 2.75);
+    });
+
+    test("rejects a CSV without a price column and invalid rows", async () => {
+        const noPrice = writeFile("no-price.csv", `timestamp,currency\n${T0},XRP\n`);
+        await assert.rejects(createFilePriceSource(noPrice).getPrice("XRP", T0), /missing the price column/);
+
+        const invalid = writeFile("invalid.csv", `timestamp,currency,price\n${T0},XRP,3\nyesterday,XRP,3\n`);
+        await assert.rejects(createFilePriceSource(invalid).getPrice("XRP", T0), /Invalid price row 2/);
+    });
+});
+
+describe("ohlc price source", () => {
+    const requests: URL[] = [];
+    const realFetch = globalThis.fetch;
+
+    // Answers every klines request with a candle opened at the requested minute, closing at $2.50
+    const fakeFetch = async (input: string | URL | Request) => {
+        const url = new URL(String(input));
+        requests.push(url);
+        const openTime = Number(url.searchParams.get("startTime") ?? Math.floor(Date.now() / MINUTE) * MINUTE);
+        return new Response(JSON.stringify([[openTime, "2.40", "2.60", "2.30", "2.50", "1000", openTime + MINUTE - 1]]));
+    };
+
+    const cacheLines = () => {
+        const file = path.join("data", "prices", "price_cache.jsonl");
+        return fs.existsSync(file) ? fs.readFileSync(file, "utf-8").trim().split("\n").filter(Boolean) : [];
+    };
+
+    test("caches the close of a finished candle", async (t) => {
+        globalThis.fetch = fakeFetch as typeof fetch;
+        t.after(() => { globalThis.fetch = realFetch; });
+        requests.length = 0;
+
+        const source = createOhlcPriceSource("http://klines.test");
+        const price = await source.getPrice("XRP", T0 + 30_000);
+        assert.equal(price.priceUsd, 2.5);
+        assert.equal(price.timestamp, T0);
+        assert.equal(price.granularity, "1m");
+        assert.equal(requests[0].searchParams.get("symbol"), "XRPUSDT");
+        assert.equal(requests[0].searchParams.get("startTime"), String(T0));
+
+        const cached = await source.getPrice("XRP", T0 + 45_000);
+        assert.equal(cached.priceUsd, 2.5);
+        assert.equal(requests.length, 1);
+        assert.equal(cacheLines().length, 1);
+    });
+
+    test("prices a candle that is still open live, without caching it", async (t) => {
+        globalThis.fetch = fakeFetch as typeof fetch;
+        t.after(() => { globalThis.fetch = realFetch; });
+        requests.length = 0;
+        const cachedBefore = cacheLines().length;
+
+        const price = await createOhlcPriceSource("http://klines.test").getPrice("XRP", Date.now() - 1_000);
+        assert.equal(price.granularity, "live");
+        assert.equal(requests[0].searchParams.get("startTime"), null);
+        assert.equal(cacheLines().length, cachedBefore);
+    });
+});
+
+test("parsePriceSourceSpec", () => {
+    assert.deepEqual(parsePriceSourceSpec("ohlc"), { type: "ohlc" });
+    assert.deepEqual(parsePriceSourceSpec("file:data/prices.csv"), { type: "file", path: "data/prices.csv" });
+    assert.equal(parsePriceSourceSpec("file:"), null);
+    assert.equal(parsePriceSourceSpec("binance"), null);
+});
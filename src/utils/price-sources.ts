@@ -0,0 +1,497 @@
+/**
+ * Price Sources
+ *
+ * USD prices used to convert amounts and fees, behind a common interface so that an
+ * experiment can choose where its prices come from (cfg.priceSource):
+ * - coingecko: CoinGecko simple/price and daily coins/{id}/history (default)
+ * - ohlc: 1-minute candles of an exchange (Binance klines API)
+ * - ftso: Flare FTSO v2 feeds, read on chain (historical prices need an archive RPC)
+ * - file: local CSV/JSON price file, deterministic and offline
+ *
+ * Fetched prices are cached on disk (data/prices/price_cache.jsonl) by source, coin,
+ * granularity and time bucket, and shared by every process.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createPublicClient, http } from 'viem';
+import { flare } from 'viem/chains';
+import type { PricePoint, PriceSourceConfig, RunConfig } from '../types';
+import { appendJsonl, readJsonl } from './fsio';
+
+export interface PriceSource {
+    readonly name: string; // Written next to the USD values (e.g. coingecko, file:prices.csv)
+    /** USD price of a currency at a time, or the latest one when no time is given */
+    getPrice(currency: string, timestampMs?: number): Promise<PricePoint>;
+}
+
+// Transactions younger than this are priced with the current price
+const RECENT_PRICE_WINDOW_MS = 5 * 60 * 1000;
+
+/** USD and stablecoins are worth $1.00 with every source */
+function stablePrice(source: string, currency: string, timestampMs?: number): PricePoint | undefined {
+    if (currency === 'USD' || currency === 'USDC') {
+        return { priceUsd: 1.0, timestamp: timestampMs ?? Date.now(), source, granularity: 'fixed', fetchedAt: Date.now() };
+    }
+    return undefined;
+}
+
+/** Price as returned by a provider, before its provenance is attached */
+type FetchedPrice = Pick<PricePoint, 'priceUsd' | 'timestamp'>;
+
+function withProvenance(fetched: FetchedPrice, source: string, granularity: string): PricePoint {
+    return { ...fetched, source, granularity, fetchedAt: Date.now() };
+}
+
+// ============================================================================
+// Persistent cache
+// ============================================================================
+
+const PRICE_CACHE_FILE = path.join('data', 'prices', 'price_cache.jsonl');
+
+/** One line of the cache file: the price of a coin over a time bucket (e.g. a day, a minute) of a source */
+interface PriceCacheEntry extends PricePoint {
+    coin: string;   // Coin id of the source (CoinGecko id, exchange pair, FTSO feed)
+    bucket: string; // UTC time bucket, ISO prefix of the granularity (2025-01-31, 2025-01-31T12:05...)
+}
+
+let priceCache: Map<string, PricePoint> | undefined;
+const pendingPrices = new Map<string, Promise<PricePoint>>();
+
+const priceCacheKey = (source: string, coin: string, granularity: string, bucket: string) =>
+    [source, coin, granularity, bucket].join('|');
+
+/**
+ * Price of a bucket from the cache file, or fetched once and appended to it.
+ * Concurrent lookups of the same bucket share one fetch.
+ */
+async function cachedPrice(
+    source: string,
+    coin: string,
+    granularity: string,
+    bucket: string,
+    fetchPrice: () => Promise<FetchedPrice>
+): Promise<PricePoint> {
+    if (!priceCache) {
+        priceCache = new Map();
+        for (const { coin, bucket, ...price } of readJsonl<PriceCacheEntry>(PRICE_CACHE_FILE)) {
+            priceCache.set(priceCacheKey(price.source, coin, price.granularity, bucket), price);
+        }
+    }
+
+    const key = priceCacheKey(source, coin, granularity, bucket);
+    const cached = priceCache.get(key);
+    if (cached) return cached;
+
+    let pending = pendingPrices.get(key);
+    if (!pending) {
+        pending = fetchPrice()
+            .then(fetched => {
+                const price = withProvenance(fetched, source, granularity);
+                priceCache!.set(key, price);
+                appendJsonl(PRICE_CACHE_FILE, { ...price, coin, bucket } satisfies PriceCacheEntry);
+                return price;
+            })
+            .finally(() => pendingPrices.delete(key));
+        pendingPrices.set(key, pending);
+    }
+    return pending;
+}
+
+/** UTC bucket of a time: ISO string cut after the day (10), hour (13), minute (16) or second (19) */
+const timeBucket = (timestampMs: number, length: 10 | 13 | 16 | 19) => new Date(timestampMs).toISOString().slice(0, length);
+
+// ============================================================================
+// CoinGecko
+// ============================================================================
+
+const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY; // Optional API key for higher rate limits
+// Currency to CoinGecko ID mapping
+const CURRENCY_TO_COINGECKO_ID: Record<string, string> = {
+    'XRP': 'ripple',
+    'ETH': 'ethereum',
+    'FLR': 'flare-networks',
+    'FXRP': 'ripple', // FXRP tracks XRP price
+    'USDC': 'usd-coin', // Stablecoin, but fetch real price for accuracy
+};
+
+/** Currencies every source can price */
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_TO_COINGECKO_ID);
+
+/**
+ * CoinGecko prices: simple/price for recent transactions (< 5 min),
+ * coins/{id}/history otherwise (daily granularity, falls back to the current price)
+ */
+export function createCoinGeckoPriceSource(): PriceSource {
+    const name = 'coingecko';
+
+    const coinIdOf = (currency: string) => {
+        const coinId = CURRENCY_TO_COINGECKO_ID[currency];
+        if (!coinId) throw new Error(`Unknown currency: ${currency}. Cannot convert to USD.`);
+        return coinId;
+    };
+
+    const withApiKey = (params: URLSearchParams) => {
+        if (COINGECKO_API_KEY) params.set('x_cg_demo_api_key', COINGECKO_API_KEY);
+        return params;
+    };
+
+    /** Current price, cached for the hour */
+    async function getCurrentPrice(currency: string): Promise<PricePoint> {
+        const coinId = coinIdOf(currency);
+
+        try {
+            return await cachedPrice(name, coinId, 'live', timeBucket(Date.now(), 13), async () => {
+                const params = withApiKey(new URLSearchParams({ ids: coinId, vs_currencies: 'usd' }));
+                const response = await fetch(`${COINGECKO_API_BASE}/simple/price?${params}`);
+                if (!response.ok) {
+                    throw new Error(`CoinGecko API returned ${response.status}`);
+                }
+
+                const data = await response.json();
+                const priceUsd = data[coinId]?.usd;
+                if (typeof priceUsd !== 'number') {
+                    throw new Error(`Failed to get USD price for ${currency} (${coinId})`);
+                }
+                return { priceUsd, timestamp: Date.now() };
+            });
+        } catch (error: any) {
+            throw new Error(`CoinGecko API error for ${currency}: ${error.message}`);
+        }
+    }
+
+    async function getHistoricalPrice(currency: string, timestampMs: number): Promise<PricePoint> {
+        const coinId = coinIdOf(currency);
+
+        // Convert timestamp to date string (DD-MM-YYYY format)
+        const date = new Date(timestampMs);
+        const day = String(date.getUTCDate()).padStart(2, '0');
+        const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+        const year = date.getUTCFullYear();
+        const dateStr = `${day}-${month}-${year}`;
+
+        try {
+            return await cachedPrice(name, coinId, '1d', timeBucket(timestampMs, 10), async () => {
+                const params = withApiKey(new URLSearchParams({ date: dateStr, localization: 'false' }));
+                const response = await fetch(`${COINGECKO_API_BASE}/coins/${coinId}/history?${params}`);
+                if (!response.ok) {
+                    throw new Error(`CoinGecko API returned ${response.status}`);
+                }
+
+                const data = await response.json();
+                const priceUsd = data.market_data?.current_price?.usd;
+                if (typeof priceUsd !== 'number') {
+                    throw new Error(`no price in the response`);
+                }
+                // The daily price is the price at 00:00 UTC
+                return { priceUsd, timestamp: Date.UTC(year, date.getUTCMonth(), date.getUTCDate()) };
+            });
+        } catch (error: any) {
+            console.warn(`Failed to get historical price for ${currency} on ${dateStr}: ${error.message}`);
+            console.warn('Falling back to current price');
+            return getCurrentPrice(currency);
+        }
+    }
+
+    return {
+        name,
+        async getPrice(currency: string, timestampMs?: number): Promise<PricePoint> {
+            const stable = stablePrice(name, currency, timestampMs);
+            if (stable) return stable;
+
+            // Daily historical data is less accurate than the current price for very recent transactions
+            if (timestampMs === undefined || Date.now() - timestampMs < RECENT_PRICE_WINDOW_MS) {
+                return getCurrentPrice(currency);
+            }
+            return getHistoricalPrice(currency, timestampMs);
+        },
+    };
+}
+
+// ============================================================================
+// Minute OHLC (exchange candles)
+// ============================================================================
+
+const OHLC_API_BASE = process.env.OHLC_API_URL || 'https://api.binance.com'; // Any Binance-compatible klines API
+
+// Currency to exchange pair mapping (USDT pairs, USDT taken at $1.00)
+const CURRENCY_TO_OHLC_SYMBOL: Record<string, string> = {
+    'XRP': 'XRPUSDT',
+    'ETH': 'ETHUSDT',
+    'FLR': 'FLRUSDT',
+    'FXRP': 'XRPUSDT', // FXRP tracks XRP price
+};
+
+// Wait after the end of a candle before its close is final and can be cached
+const OHLC_CLOSE_DELAY_MS = 60_000;
+
+function isClosedCandle(timestampMs: number): boolean {
+    const candleEnd = Math.floor(timestampMs / 60_000) * 60_000 + 60_000;
+    return Date.now() >= candleEnd + OHLC_CLOSE_DELAY_MS;
+}
+
+/**
+ * Close of the 1-minute candle containing the timestamp.
+ * The current candle (without a timestamp, or while the candle is still open) is priced live and not cached.
+ */
+export function createOhlcPriceSource(baseUrl: string = OHLC_API_BASE): PriceSource {
+    const name = 'ohlc-1m';
+
+    async function fetchCandle(symbol: string, timestampMs?: number): Promise<FetchedPrice> {
+        const params = new URLSearchParams({ symbol, interval: '1m', limit: '1' });
+        if (timestampMs !== undefined) {
+            params.set('startTime', String(Math.floor(timestampMs / 60_000) * 60_000));
+        }
+        const response = await fetch(`${baseUrl}/api/v3/klines?${params}`);
+        if (!response.ok) {
+            throw new Error(`OHLC API returned ${response.status} for ${symbol}`);
+        }
+
+        // [openTime, open, high, low, close, volume, closeTime, ...]
+        const candles = await response.json();
+        const candle = Array.isArray(candles) ? candles[0] : undefined;
+        const priceUsd = Number(candle?.[4]);
+        if (!candle || !Number.isFinite(priceUsd)) {
+            throw new Error(`No 1m candle for ${symbol}${timestampMs !== undefined ? ` at ${new Date(timestampMs).toISOString()}` : ''}`);
+        }
+        return { priceUsd, timestamp: Number(candle[0]) };
+    }
+
+    return {
+        name,
+        async getPrice(currency: string, timestampMs?: number): Promise<PricePoint> {
+            const stable = stablePrice(name, currency, timestampMs);
+            if (stable) return stable;
+
+            const symbol = CURRENCY_TO_OHLC_SYMBOL[currency];
+            if (!symbol) throw new Error(`Unknown currency: ${currency}. Cannot convert to USD.`);
+
+            if (timestampMs === undefined || !isClosedCandle(timestampMs)) {
+                return withProvenance(await fetchCandle(symbol), name, 'live');
+            }
+            return cachedPrice(name, symbol, '1m', timeBucket(timestampMs, 16), () => fetchCandle(symbol, timestampMs));
+        },
+    };
+}
+
+// ============================================================================
+// Flare FTSO v2 (on-chain oracle)
+// ============================================================================
+
+const FLARE_CONTRACT_REGISTRY = '0xaD67FE66660Fb8dFE9d6b1b4240d8650e30F6019';
+
+const contractRegistryAbi = [{
+    type: 'function',
+    name: 'getContractAddressByName',
+    stateMutability: 'view',
+    inputs: [{ name: '_name', type: 'string' }],
+    outputs: [{ name: '', type: 'address' }],
+}] as const;
+
+// getFeedById is payable on chain, the crypto feeds are free and read with eth_call
+const ftsoV2Abi = [{
+    type: 'function',
+    name: 'getFeedById',
+    stateMutability: 'view',
+    inputs: [{ name: '_feedId', type: 'bytes21' }],
+    outputs: [
+        { name: '_value', type: 'uint256' },
+        { name: '_decimals', type: 'int8' },
+        { name: '_timestamp', type: 'uint64' },
+    ],
+}] as const;
+
+// Currency to FTSO feed name (crypto category)
+const CURRENCY_TO_FTSO_FEED: Record<string, string> = {
+    'XRP': 'XRP/USD',
+    'ETH': 'ETH/USD',
+    'FLR': 'FLR/USD',
+    'FXRP': 'XRP/USD', // FXRP tracks XRP price
+};
+
+/** FTSO feed id: category byte (01 = crypto) + feed name, right-padded to 21 bytes */
+function ftsoFeedId(feed: string): `0x${string}` {
+    return `0x01${Buffer.from(feed, 'utf-8').toString('hex').padEnd(40, '0')}`;
+}
+
+/**
+ * FTSO v2 feeds on Flare. A historical price is read at the last block before the timestamp
+ * (found by binary search on block times), which needs an archive RPC.
+ */
+export function createFtsoPriceSource(rpcUrl?: string): PriceSource {
+    const client = createPublicClient({ chain: flare, transport: http(rpcUrl) });
+    let ftsoV2: `0x${string}` | undefined;
+
+    async function blockAtOrBefore(timestampMs: number): Promise<bigint> {
+        const target = BigInt(Math.floor(timestampMs / 1000));
+        let hi = await client.getBlockNumber();
+        let lo = 0n;
+        while (lo < hi) {
+            const mid = (lo + hi + 1n) / 2n;
+            const block = await client.getBlock({ blockNumber: mid });
+            if (block.timestamp <= target) lo = mid;
+            else hi = mid - 1n;
+        }
+        return lo;
+    }
+
+    async function readFeed(feed: string, timestampMs?: number): Promise<FetchedPrice> {
+        ftsoV2 ??= await client.readContract({
+            address: FLARE_CONTRACT_REGISTRY,
+            abi: contractRegistryAbi,
+            functionName: 'getContractAddressByName',
+            args: ['FtsoV2'],
+        });
+
+        try {
+            const [value, decimals, timestamp] = await client.readContract({
+                address: ftsoV2,
+                abi: ftsoV2Abi,
+                functionName: 'getFeedById',
+                args: [ftsoFeedId(feed)],
+                blockNumber: timestampMs !== undefined ? await blockAtOrBefore(timestampMs) : undefined,
+            });
+            return { priceUsd: Number(value) / 10 ** decimals, timestamp: Number(timestamp) * 1000 };
+        } catch (error: any) {
+            const hint = timestampMs !== undefined ? ' (historical prices need an archive RPC for flare)' : '';
+            throw new Error(`FTSO error for ${feed}${hint}: ${error.shortMessage ?? error.message}`);
+        }
+    }
+
+    return {
+        name: 'ftso',
+        async getPrice(currency: string, timestampMs?: number): Promise<PricePoint> {
+            const stable = stablePrice('ftso', currency, timestampMs);
+            if (stable) return stable;
+
+            const feed = CURRENCY_TO_FTSO_FEED[currency];
+            if (!feed) throw new Error(`Unknown currency: ${currency}. Cannot convert to USD.`);
+
+            // Recent transactions are priced with the latest round, not cached
+            if (timestampMs === undefined || Date.now() - timestampMs < RECENT_PRICE_WINDOW_MS) {
+                return withProvenance(await readFeed(feed), 'ftso', 'live');
+            }
+            return cachedPrice('ftso', feed, '1s', timeBucket(timestampMs, 19), () => readFeed(feed, timestampMs));
+        },
+    };
+}
+
+// ============================================================================
+// Local price file
+// ============================================================================
+
+/**
+ * Prices from a local file, for offline runs and deterministic re-pricing:
+ * - CSV with a header: timestamp,currency,price (extra columns are ignored)
+ * - JSON: [{ "timestamp": ..., "currency": "XRP", "price": 0.52 }, ...]
+ * Timestamps are ms since epoch or ISO dates. A time is priced with the last row at or before it.
+ */
+export function createFilePriceSource(file: string): PriceSource {
+    const name = `file:${file}`;
+    let series: Map<string, PricePoint[]> | undefined;
+
+    const load = () => {
+        const fetchedAt = Date.now();
+        const raw = fs.readFileSync(file, 'utf-8');
+        const rows: Array<{ timestamp: unknown; currency: unknown; price: unknown }> = file.toLowerCase().endsWith('.json')
+            ? JSON.parse(raw)
+            : parsePriceCsv(raw);
+
+        const loaded = new Map<string, PricePoint[]>();
+        rows.forEach((row, i) => {
+            const timestamp = typeof row.timestamp === 'number' ? row.timestamp : Date.parse(String(row.timestamp));
+            const priceUsd = Number(row.price);
+            if (!Number.isFinite(timestamp) || !Number.isFinite(priceUsd) || typeof row.currency !== 'string') {
+                throw new Error(`Invalid price row ${i + 1} in ${file}`);
+            }
+            const currency = row.currency.toUpperCase();
+            if (!loaded.has(currency)) loaded.set(currency, []);
+            loaded.get(currency)!.push({ priceUsd, timestamp, source: name, granularity: 'file', fetchedAt });
+        });
+        for (const points of loaded.values()) points.sort((a, b) => a.timestamp - b.timestamp);
+        return loaded;
+    };
+
+    return {
+        name,
+        async getPrice(currency: string, timestampMs?: number): Promise<PricePoint> {
+            series ??= load();
+            const points = series.get(currency) ?? (currency === 'FXRP' ? series.get('XRP') : undefined); // FXRP tracks XRP price
+            if (!points) {
+                const stable = stablePrice(name, currency, timestampMs);
+                if (stable) return stable;
+                throw new Error(`No ${currency} prices in ${file}`);
+            }
+
+            if (timestampMs === undefined) return points[points.length - 1];
+            let found: PricePoint | undefined;
+            for (const point of points) {
+                if (point.timestamp > timestampMs) break;
+                found = point;
+            }
+            if (!found) {
+                throw new Error(`No ${currency} price at or before ${new Date(timestampMs).toISOString()} in ${file}`);
+            }
+            return found;
+        },
+    };
+}
+
+function parsePriceCsv(raw: string): Array<{ timestamp: unknown; currency: unknown; price: unknown }> {
+    const [header, ...lines] = raw.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const columns = (header ?? '').split(',').map(c => c.trim().toLowerCase());
+    const col = (name: string) => {
+        const index = columns.indexOf(name);
+        if (index < 0) throw new Error(`Price CSV is missing the ${name} column (expected: timestamp,currency,price)`);
+        return index;
+    };
+    const [t, c, p] = [col('timestamp'), col('currency'), col('price')];
+
+    return lines.map(line => {
+        const cells = line.split(',').map(cell => cell.trim());
+        const timestamp = /^\d+$/.test(cells[t]) ? Number(cells[t]) : cells[t];
+        return { timestamp, currency: cells[c], price: cells[p] };
+    });
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+export function createPriceSource(config: PriceSourceConfig = { type: 'coingecko' }, flareRpcUrl?: string): PriceSource {
+    switch (config.type) {
+        case 'ohlc':
+            return createOhlcPriceSource();
+        case 'ftso':
+            return createFtsoPriceSource(flareRpcUrl);
+        case 'file':
+            return createFilePriceSource(config.path);
+        default:
+            return createCoinGeckoPriceSource();
+    }
+}
+
+/** Price source given on the command line: coingecko, ohlc, ftso or file:<path> */
+export function parsePriceSourceSpec(spec: string): PriceSourceConfig | null {
+    if (spec.startsWith('file:')) {
+        const file = spec.slice('file:'.length);
+        return file ? { type: 'file', path: file } : null;
+    }
+    return spec === 'coingecko' || spec === 'ohlc' || spec === 'ftso' ? { type: spec } : null;
+}
+
+// Sources are shared by the runs of a process, so that their in-memory state (caches, loaded files) is reused
+const sources = new Map<string, PriceSource>();
+
+/** Price source of a batch (cfg.priceSource, CoinGecko by default) */
+export function priceSourceFor(cfg?: RunConfig): PriceSource {
+    const flareRpcUrl = cfg?.networks.evmRpcUrls?.flare;
+    const key = JSON.stringify([cfg?.priceSource ?? null, flareRpcUrl ?? null]);
+    let source = sources.get(key);
+    if (!source) {
+        source = createPriceSource(cfg?.priceSource, flareRpcUrl);
+        sources.set(key, source);
+    }
+    return source;
+}
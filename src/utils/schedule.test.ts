@@ -0,0 +1,73 @@
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+import { nextCronTime, parseCron } from "./schedule";
+
+const range = (from: number, to: number, step = 1) => {
+  const values: number[] = [];
+  for (let v = from; v <= to; v += step) values.push(v);
+  return values;
+};
+
+const next = (expression: string, afterIso: string) => {
+  const time = nextCronTime(parseCron(expression), Date.parse(afterIso));
+  return time === null ? null : new Date(time).toISOString();
+};
+
+describe("parseCron", () => {
+  test("wildcards, ranges, steps and lists", () => {
+    const schedule = parseCron("*/15 9-17 1,15 * 1-5");
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hours], range(9, 17));
+    assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+    assert.deepEqual([...schedule.months], range(1, 12));
+    assert.deepEqual([...schedule.daysOfWeek], range(1, 5));
+    assert.equal(schedule.anyDayOfMonth, false);
+    assert.equal(schedule.anyDayOfWeek, false);
+  });
+
+  test("a step from a single value runs to the end of the field", () => {
+    assert.deepEqual([...parseCron("5/20 0-12/6 * * *").minutes], [5, 25, 45]);
+    assert.deepEqual([...parseCron("5/20 0-12/6 * * *").hours], [0, 6, 12]);
+  });
+
+  test("7 is also Sunday", () => {
+    const schedule = parseCron("0 0 * * 7");
+    assert.ok(schedule.daysOfWeek.has(0));
+    assert.equal(schedule.anyDayOfMonth, true);
+  });
+
+  test("rejects invalid expressions", () => {
+    assert.throws(() => parseCron("* * * *"), /expected 5 fields/);
+    assert.throws(() => parseCron("60 * * * *"), /Invalid value "60" in cron minute/);
+    assert.throws(() => parseCron("* * 0 * *"), /cron day of month/);
+    assert.throws(() => parseCron("*/0 * * * *"), /Invalid step/);
+    assert.throws(() => parseCron("* 17-9 * * *"), /Invalid value "17-9"/);
+    assert.throws(() => parseCron("* * * jan *"), /cron month/);
+  });
+});
+
+describe("nextCronTime", () => {
+  test("first matching minute strictly after the time", () => {
+    assert.equal(next("*/15 * * * *", "2025-01-31T12:07:30Z"), "2025-01-31T12:15:00.000Z");
+    assert.equal(next("*/15 * * * *", "2025-01-31T12:15:00Z"), "2025-01-31T12:30:00.000Z");
+    assert.equal(next("*/15 * * * *", "2025-01-31T23:59:00Z"), "2025-02-01T00:00:00.000Z");
+  });
+
+  test("weekdays only: Friday after 9:00 goes to Monday", () => {
+    // 2025-01-31 is a Friday
+    assert.equal(next("0 9 * * 1-5", "2025-01-31T08:00:00Z"), "2025-01-31T09:00:00.000Z");
+    assert.equal(next("0 9 * * 1-5", "2025-01-31T10:00:00Z"), "2025-02-03T09:00:00.000Z");
+  });
+
+  test("restricted day of month and day of week match either one", () => {
+    // 13th of the month or Friday
+    assert.equal(next("0 0 13 * 5", "2025-02-01T00:00:00Z"), "2025-02-07T00:00:00.000Z");
+    assert.equal(next("0 0 13 * 5", "2025-02-07T00:00:00Z"), "2025-02-13T00:00:00.000Z");
+  });
+
+  test("skips months without the day, null beyond a year", () => {
+    assert.equal(next("0 0 31 * *", "2025-02-01T00:00:00Z"), "2025-03-31T00:00:00.000Z");
+    assert.equal(next("30 6 29 2 *", "2027-03-01T00:00:00Z"), "2028-02-29T06:30:00.000Z");
+    assert.equal(next("0 0 29 2 *", "2025-03-01T00:00:00Z"), null);
+  });
+});
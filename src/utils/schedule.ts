@@ -0,0 +1,95 @@
+/**
+ * Minimal cron schedule: "minute hour day-of-month month day-of-week", evaluated in UTC.
+ * Each field accepts *, numbers, lists (1,15), ranges (9-17) and steps (*\/10, 0-30/5).
+ * Day of week: 0-6, 0 = Sunday (7 is also Sunday).
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const MAX_CRON_LOOKAHEAD_MIN = 366 * 24 * 60;
+
+function parseCronField(field: string, { name, min, max }: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step <= 0) throw new Error(`Invalid step "${part}" in cron ${name}`);
+
+    let from = min;
+    let to = max;
+    if (range !== "*") {
+      const [a, b] = range.split("-").map(Number);
+      from = a;
+      to = b ?? (stepText === undefined ? a : max);
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw new Error(`Invalid value "${part}" in cron ${name} (${min}-${max})`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseCronField(f, CRON_FIELDS[i]));
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+/**
+ * First minute strictly after `after` (ms) matching the schedule, or null within a year.
+ * As in cron, when both day fields are restricted a day matching either of them is enough.
+ */
+export function nextCronTime(schedule: CronSchedule, after: number): number | null {
+  const t = new Date(after);
+  t.setUTCSeconds(0, 0);
+
+  for (let i = 0; i < MAX_CRON_LOOKAHEAD_MIN; i++) {
+    t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+    const domMatch = schedule.daysOfMonth.has(t.getUTCDate());
+    const dowMatch = schedule.daysOfWeek.has(t.getUTCDay());
+    const dayMatch = schedule.anyDayOfMonth || schedule.anyDayOfWeek
+      ? domMatch && dowMatch
+      : domMatch || dowMatch;
+
+    if (dayMatch &&
+      schedule.months.has(t.getUTCMonth() + 1) &&
+      schedule.hours.has(t.getUTCHours()) &&
+      schedule.minutes.has(t.getUTCMinutes())) {
+      return t.getTime();
+    }
+  }
+  return null;
+}
@@ -0,0 +1,145 @@
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+import { cliffsDelta, cliffsMagnitude, compareSamples, fitLinear, hodgesLehmann, ksTest, mannWhitneyTest } from "./stats";
+
+// Reference values: rank-sum formulas and the Kolmogorov series computed independently of this module
+const A = [1, 2, 3, 4, 5];
+const B = [6, 7, 8, 9, 10];
+const TIED_A = [1, 2, 2, 3, 5];
+const TIED_B = [2, 3, 3, 4, 6, 7];
+
+function assertClose(actual: number | null | undefined, expected: number, tolerance = 1e-6) {
+  assert.ok(typeof actual === "number" && Math.abs(actual - expected) <= tolerance, `expected ${expected} ± ${tolerance}, got ${actual}`);
+}
+
+describe("mannWhitneyTest", () => {
+  test("separated samples", () => {
+    const { u, z, pValue } = mannWhitneyTest(A, B);
+    assert.equal(u, 25);
+    assertClose(z, 2.5067182457620487);
+    assertClose(pValue, 0.012185780355344818);
+  });
+
+  test("ties count half and shrink the variance", () => {
+    const { u, z, pValue } = mannWhitneyTest(TIED_A, TIED_B);
+    assert.equal(u, 23);
+    assertClose(z, 1.3949031210020042);
+    assertClose(pValue, 0.16304505585423731);
+  });
+
+  test("is symmetric and gives p = 1 for identical constant samples", () => {
+    const reversed = mannWhitneyTest(B, A);
+    assert.equal(reversed.u, 0);
+    assertClose(reversed.z, -2.5067182457620487);
+    assert.deepEqual(mannWhitneyTest([3, 3], [3, 3, 3]), { u: 3, z: 0, pValue: 1 });
+  });
+});
+
+describe("ksTest", () => {
+  test("separated samples", () => {
+    const { d, pValue } = ksTest(A, B);
+    assert.equal(d, 1);
+    assertClose(pValue, 0.0037813540593701006);
+  });
+
+  test("overlapping samples with ties", () => {
+    const { d, pValue } = ksTest(TIED_A, TIED_B);
+    assertClose(d, 13 / 30, 1e-12);
+    assertClose(pValue, 0.5498636282435323);
+  });
+
+  test("identical samples", () => {
+    assert.deepEqual(ksTest(A, [...A].reverse()), { d: 0, pValue: 1 });
+  });
+});
+
+describe("effect sizes", () => {
+  test("Cliff's delta counts the pairs where B is above and below A", () => {
+    // B > A in 6 pairs, B < A in 1, 2 ties
+    assertClose(cliffsDelta([1, 2, 3], [2, 3, 4]), 5 / 9, 1e-12);
+    assert.equal(cliffsDelta(A, B), 1);
+    assert.equal(cliffsDelta(B, A), -1);
+    assert.equal(cliffsDelta([1, 2], [2, 1]), 0);
+  });
+
+  test("Cliff's delta magnitudes follow Romano et al. (2006)", () => {
+    assert.equal(cliffsMagnitude(0.146), "negligible");
+    assert.equal(cliffsMagnitude(-0.147), "small");
+    assert.equal(cliffsMagnitude(0.33), "medium");
+    assert.equal(cliffsMagnitude(-0.474), "large");
+  });
+
+  test("Hodges-Lehmann is the median of the pairwise differences", () => {
+    // Differences B - A: -1, 0, 0, 1, 1, 1, 2, 2, 3
+    assert.equal(hodgesLehmann([1, 2, 3], [2, 3, 4]), 1);
+    assert.equal(hodgesLehmann(A, B), 5);
+    // Even number of differences (-1, 1, 9, 11): midpoint of the two middle ones
+    assert.equal(hodgesLehmann([1, 11], [10, 12]), 5);
+  });
+});
+
+describe("compareSamples", () => {
+  test("medians, tests and effect sizes of B against A", () => {
+    const comparison = compareSamples(A, B)!;
+    assert.equal(comparison.nA, 5);
+    assert.equal(comparison.nB, 5);
+    assert.equal(comparison.medianA, 3);
+    assert.equal(comparison.medianB, 8);
+    assert.equal(comparison.medianDiff, 5);
+    assert.equal(comparison.hodgesLehmann, 5);
+    assert.equal(comparison.cliffsDelta, 1);
+    assert.equal(comparison.cliffsMagnitude, "large");
+    assert.deepEqual(comparison.mannWhitney, mannWhitneyTest(A, B));
+    assert.deepEqual(comparison.ks, ksTest(A, B));
+  });
+
+  test("bootstrap CIs are seeded and contain the estimates", () => {
+    const comparison = compareSamples(TIED_A, TIED_B)!;
+    const [low, high] = comparison.medianDiffCi!;
+    assert.ok(low <= comparison.medianDiff && comparison.medianDiff <= high);
+    const [deltaLow, deltaHigh] = comparison.cliffsDeltaCi!;
+    assert.ok(-1 <= deltaLow && deltaLow <= comparison.cliffsDelta && comparison.cliffsDelta <= deltaHigh && deltaHigh <= 1);
+    assert.deepEqual(compareSamples(TIED_A, TIED_B), comparison);
+  });
+
+  test("bootstrap CIs of constant samples collapse on the difference", () => {
+    const comparison = compareSamples([1, 1, 1], [3, 3, 3, 3])!;
+    assert.deepEqual(comparison.medianDiffCi, [2, 2]);
+    assert.deepEqual(comparison.cliffsDeltaCi, [1, 1]);
+  });
+
+  test("no CIs below 2 values per sample, null for an empty sample", () => {
+    const comparison = compareSamples([1], B)!;
+    assert.equal(comparison.medianDiffCi, null);
+    assert.equal(comparison.cliffsDeltaCi, null);
+    assert.equal(compareSamples([], B), null);
+  });
+});
+
+describe("fitLinear", () => {
+  test("coefficients, standard errors and r2", () => {
+    // y = 2.2 + 0.6 x, residual variance 0.8 (3 degrees of freedom)
+    const fit = fitLinear([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])!;
+    assert.equal(fit.n, 5);
+    assertClose(fit.intercept, 2.2, 1e-12);
+    assertClose(fit.slope, 0.6, 1e-12);
+    assertClose(fit.slopeSe, Math.sqrt(0.08), 1e-12);
+    assertClose(fit.interceptSe, Math.sqrt(0.88), 1e-12);
+    assertClose(fit.r2, 0.6, 1e-12);
+  });
+
+  test("exact fits, short samples and degenerate inputs", () => {
+    const exact = fitLinear([0, 1, 2], [1, 3, 5])!;
+    assertClose(exact.slope, 2, 1e-12);
+    assertClose(exact.slopeSe, 0, 1e-12);
+    assert.equal(exact.r2, 1);
+
+    const twoPoints = fitLinear([0, 2], [1, 2])!;
+    assert.equal(twoPoints.slopeSe, null);
+    assert.equal(twoPoints.interceptSe, null);
+
+    assert.equal(fitLinear([1, 2, 3], [4, 4, 4])!.r2, null);
+    assert.equal(fitLinear([2, 2, 2], [1, 2, 3]), null);
+    assert.equal(fitLinear([1], [1]), null);
+  });
+});
@@ -0,0 +1,220 @@
+import { BOOTSTRAP_RESAMPLES, BOOTSTRAP_SEED, byNumberAsc, CONFIDENCE_LEVEL, percentile, seededRandom } from "./metrics";
+
+export type EffectMagnitude = "negligible" | "small" | "medium" | "large";
+
+/** Two-sample comparison of B against A (differences are B - A) */
+export interface SampleComparison {
+  nA: number;
+  nB: number;
+  medianA: number;
+  medianB: number;
+  medianDiff: number;                    // median(B) - median(A)
+  medianDiffCi: [number, number] | null; // Bootstrap CI (CONFIDENCE_LEVEL), null below 2 values per sample
+  hodgesLehmann: number;                 // Median of all pairwise differences B - A (location shift)
+  mannWhitney: { u: number; z: number; pValue: number };
+  ks: { d: number; pValue: number };
+  cliffsDelta: number;                   // P(B > A) - P(B < A), in [-1, 1]
+  cliffsDeltaCi: [number, number] | null;
+  cliffsMagnitude: EffectMagnitude;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, absolute error < 1.5e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Number of values of a sorted sample strictly below / at most x */
+function countBelow(sortedAsc: number[], x: number, inclusive: boolean): number {
+  let lo = 0;
+  let hi = sortedAsc.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sortedAsc[mid] < x || (inclusive && sortedAsc[mid] === x)) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Mann-Whitney U of B (pairs where B > A, ties count half) */
+function mannWhitneyU(sortedA: number[], b: number[]): number {
+  let u = 0;
+  for (const x of b) {
+    const below = countBelow(sortedA, x, false);
+    const ties = countBelow(sortedA, x, true) - below;
+    u += below + ties / 2;
+  }
+  return u;
+}
+
+/**
+ * Mann-Whitney U test, two-sided, normal approximation with tie and continuity corrections
+ */
+export function mannWhitneyTest(a: number[], b: number[]): { u: number; z: number; pValue: number } {
+  const nA = a.length;
+  const nB = b.length;
+  const u = mannWhitneyU([...a].sort(byNumberAsc), b);
+
+  const n = nA + nB;
+  const counts = new Map<number, number>();
+  for (const x of [...a, ...b]) counts.set(x, (counts.get(x) ?? 0) + 1);
+  const tieTerm = [...counts.values()].reduce((s, t) => s + t ** 3 - t, 0);
+  const variance = (nA * nB / 12) * ((n + 1) - tieTerm / (n * (n - 1)));
+  if (!(variance > 0)) return { u, z: 0, pValue: 1 };
+
+  const diff = u - nA * nB / 2;
+  const z = (diff - Math.sign(diff) * 0.5) / Math.sqrt(variance);
+  return { u, z, pValue: Math.min(1, 2 * normalCdf(-Math.abs(z))) };
+}
+
+/**
+ * Two-sample Kolmogorov-Smirnov test: largest gap between the empirical CDFs,
+ * asymptotic p-value (Stephens' small-sample correction)
+ */
+export function ksTest(a: number[], b: number[]): { d: number; pValue: number } {
+  const sortedA = [...a].sort(byNumberAsc);
+  const sortedB = [...b].sort(byNumberAsc);
+
+  let d = 0;
+  for (const x of [...sortedA, ...sortedB]) {
+    const gap = Math.abs(countBelow(sortedA, x, true) / sortedA.length - countBelow(sortedB, x, true) / sortedB.length);
+    if (gap > d) d = gap;
+  }
+
+  const en = Math.sqrt(sortedA.length * sortedB.length / (sortedA.length + sortedB.length));
+  const lambda = (en + 0.12 + 0.11 / en) * d;
+  if (lambda < 1e-3) return { d, pValue: 1 };
+
+  let pValue = 0;
+  for (let j = 1; j <= 100; j++) {
+    const term = 2 * (j % 2 ? 1 : -1) * Math.exp(-2 * j * j * lambda * lambda);
+    pValue += term;
+    if (Math.abs(term) < 1e-10) break;
+  }
+  return { d, pValue: Math.min(1, Math.max(0, pValue)) };
+}
+
+/** Cliff's delta of B against A, from the Mann-Whitney U */
+export function cliffsDelta(a: number[], b: number[]): number {
+  const u = mannWhitneyU([...a].sort(byNumberAsc), b);
+  return 2 * u / (a.length * b.length) - 1;
+}
+
+/** Magnitude of a Cliff's delta (Romano et al. 2006 thresholds) */
+export function cliffsMagnitude(delta: number): EffectMagnitude {
+  const abs = Math.abs(delta);
+  if (abs < 0.147) return "negligible";
+  if (abs < 0.33) return "small";
+  if (abs < 0.474) return "medium";
+  return "large";
+}
+
+/** Hodges-Lehmann estimate of the shift of B against A: median of all pairwise differences */
+export function hodgesLehmann(a: number[], b: number[]): number {
+  const diffs: number[] = [];
+  for (const y of b) {
+    for (const x of a) diffs.push(y - x);
+  }
+  return percentile(diffs.sort(byNumberAsc), 0.5);
+}
+
+/**
+ * Percentile bootstrap CIs of the median difference and of Cliff's delta:
+ * both samples are resampled independently, BOOTSTRAP_RESAMPLES times
+ */
+function bootstrapDiffCis(a: number[], b: number[]): { medianDiff: [number, number] | null; cliffsDelta: [number, number] | null } {
+  if (a.length < 2 || b.length < 2) return { medianDiff: null, cliffsDelta: null };
+
+  const rand = seededRandom(BOOTSTRAP_SEED);
+  const resample = (values: number[]) => values.map(() => values[Math.floor(rand() * values.length)]);
+  const medianDiffs: number[] = [];
+  const deltas: number[] = [];
+
+  for (let i = 0; i < BOOTSTRAP_RESAMPLES; i++) {
+    const sampleA = resample(a).sort(byNumberAsc);
+    const sampleB = resample(b).sort(byNumberAsc);
+    medianDiffs.push(percentile(sampleB, 0.5) - percentile(sampleA, 0.5));
+    deltas.push(2 * mannWhitneyU(sampleA, sampleB) / (a.length * b.length) - 1);
+  }
+
+  const alpha = (1 - CONFIDENCE_LEVEL) / 2;
+  const interval = (values: number[]): [number, number] => {
+    const sorted = values.sort(byNumberAsc);
+    return [percentile(sorted, alpha), percentile(sorted, 1 - alpha)];
+  };
+  return { medianDiff: interval(medianDiffs), cliffsDelta: interval(deltas) };
+}
+
+/**
+ * Compare two samples with non-parametric tests (no normality assumption), null if either is empty
+ */
+export function compareSamples(a: number[], b: number[]): SampleComparison | null {
+  if (a.length === 0 || b.length === 0) return null;
+
+  const medianA = percentile([...a].sort(byNumberAsc), 0.5);
+  const medianB = percentile([...b].sort(byNumberAsc), 0.5);
+  const delta = cliffsDelta(a, b);
+  const cis = bootstrapDiffCis(a, b);
+
+  return {
+    nA: a.length,
+    nB: b.length,
+    medianA,
+    medianB,
+    medianDiff: medianB - medianA,
+    medianDiffCi: cis.medianDiff,
+    hodgesLehmann: hodgesLehmann(a, b),
+    mannWhitney: mannWhitneyTest(a, b),
+    ks: ksTest(a, b),
+    cliffsDelta: delta,
+    cliffsDeltaCi: cis.cliffsDelta,
+    cliffsMagnitude: cliffsMagnitude(delta),
+  };
+}
+
+/** Ordinary least squares fit y = intercept + slope * x */
+export interface LinearFit {
+  n: number;
+  intercept: number;
+  slope: number;
+  interceptSe: number | null; // Standard errors, null below 3 points
+  slopeSe: number | null;
+  r2: number | null;          // Null when y is constant
+}
+
+/**
+ * Fit a line by ordinary least squares, null with fewer than 2 points or a single distinct x
+ */
+export function fitLinear(xs: number[], ys: number[]): LinearFit | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+
+  const meanX = xs.slice(0, n).reduce((s, x) => s + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((s, y) => s + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = Math.max(0, syy - slope * sxy);
+
+  let interceptSe: number | null = null;
+  let slopeSe: number | null = null;
+  if (n > 2) {
+    const s2 = sse / (n - 2);
+    slopeSe = Math.sqrt(s2 / sxx);
+    interceptSe = Math.sqrt(s2 * (1 / n + meanX ** 2 / sxx));
+  }
+
+  return { n, intercept, slope, interceptSe, slopeSe, r2: syy > 0 ? 1 - sse / syy : null };
+}
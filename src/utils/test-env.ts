@@ -0,0 +1,7 @@
+/**
+ * Placeholder credentials for the tests of modules that load utils/environment (e.g. through fsio).
+ * Import it before those modules: no test derives a wallet or sends a transaction.
+ */
+process.env.MNEMONIC ??= "test test test test test test test test test test test junk";
+process.env.ONE_CLICK_JWT ??= "test";
+process.env.SQUID_INTEGRATOR_ID ??= "test";
@@ -1,3 +1,5 @@
+import type { PublicClient } from "viem";
+
 /**
  * Format an elapsed duration (in milliseconds) as "MMm SSs" or "HHh MMm SSs".
  *
@@ -69,4 +71,33 @@ export async function waitWithCountdown(
     
     updateCountdown();
   });
-}
\ No newline at end of file
+}
+
+/** Seconds between the Unix epoch and the Ripple epoch (2000-01-01), origin of the XRPL `date` fields */
+export const RIPPLE_EPOCH_OFFSET_S = 946684800;
+
+/**
+ * Ledger close time (ms) of a validated XRPL transaction, from `close_time_iso` or the `date` field.
+ * Accepts submitAndWait results, account_tx entries and `transaction` stream messages.
+ * Returns undefined when the transaction carries no close time.
+ */
+export function xrplCloseTimeMs(result: any): number | undefined {
+  if (typeof result?.close_time_iso === "string") return Date.parse(result.close_time_iso);
+  const date = result?.tx_json?.date ?? result?.date;
+  return typeof date === "number" ? (date + RIPPLE_EPOCH_OFFSET_S) * 1000 : undefined;
+}
+
+/**
+ * Block timestamp (ms) of an EVM block, best-effort: undefined when the RPC call fails.
+ * Used after a submit, where a failed lookup must not fail a run whose funds already left.
+ */
+export async function evmBlockTimeMs(
+  publicClient: Pick<PublicClient, "getBlock">,
+  blockNumber: bigint
+): Promise<number | undefined> {
+  try {
+    return Number((await publicClient.getBlock({ blockNumber })).timestamp) * 1000;
+  } catch {
+    return undefined;
+  }
+}
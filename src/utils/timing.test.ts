@@ -0,0 +1,40 @@
+import "./test-env";
+import test, { describe } from "node:test";
+import assert from "node:assert/strict";
+import type { RunConfig } from "../types";
+import { getRoute } from "../runners/registry";
+import { backoffDelayMs, DEFAULT_TIMINGS, resolveTimings } from "./timing";
+
+const cfg = (timings?: RunConfig["timings"]) => ({ timings }) as RunConfig;
+
+describe("resolveTimings", () => {
+  const minting = getRoute("fasset", "xrpl_to_flare")!.route.timings;
+  const redemption = getRoute("fasset", "flare_to_xrpl")!.route.timings;
+
+  test("the timings of the route override the defaults", () => {
+    const timings = resolveTimings({ cfg: cfg(), routeTimings: minting });
+    assert.equal(timings.observeTimeoutMs, 30 * 60_000);
+    assert.equal(timings.pollIntervalMs, 3000);
+    assert.equal(timings.retries, DEFAULT_TIMINGS.retries);
+    assert.equal(resolveTimings({ cfg: cfg(), routeTimings: redemption }).observeTimeoutMs, 60 * 60_000);
+  });
+
+  test("the timings of the batch override the route, unset fields do not", () => {
+    const timings = resolveTimings({ cfg: cfg({ observeTimeoutMs: 45 * 60_000, pollIntervalMs: undefined }), routeTimings: minting });
+    assert.equal(timings.observeTimeoutMs, 45 * 60_000);
+    assert.equal(timings.pollIntervalMs, 3000);
+  });
+
+  test("routes without timings use the defaults", () => {
+    const axelar = getRoute("axelar", "xrpl_to_xrpl_evm")!.route.timings;
+    assert.deepEqual(resolveTimings({ cfg: cfg(), routeTimings: axelar }), DEFAULT_TIMINGS);
+  });
+});
+
+test("backoffDelayMs", () => {
+  const timings = (backoff: "fixed" | "linear" | "exponential") => ({ ...DEFAULT_TIMINGS, backoff });
+  assert.deepEqual([1, 2, 3].map(attempt => backoffDelayMs(timings("fixed"), attempt, 1000)), [1000, 1000, 1000]);
+  assert.deepEqual([1, 2, 3].map(attempt => backoffDelayMs(timings("linear"), attempt, 1000)), [1000, 2000, 3000]);
+  assert.deepEqual([1, 2, 3].map(attempt => backoffDelayMs(timings("exponential"), attempt, 1000)), [1000, 2000, 4000]);
+  assert.equal(backoffDelayMs({ ...timings("fixed"), backoffBaseMs: 250 }, 2, 1000), 250);
+});
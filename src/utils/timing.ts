@@ -0,0 +1,37 @@
+import type { BackoffStrategy, RouteTimings, RunContext } from "../types";
+
+/** Timings shared by every adapter, unless set by the route or the batch */
+export const DEFAULT_TIMINGS = {
+  observeTimeoutMs: 10 * 60_000,
+  retries: 3,
+  backoff: "linear" as BackoffStrategy,
+};
+
+export type ResolvedTimings = RouteTimings & typeof DEFAULT_TIMINGS;
+
+/**
+ * Timings of a run: cfg.timings over the timings of its route (ctx.routeTimings) over DEFAULT_TIMINGS.
+ * gasRefundTimeoutMs, pollIntervalMs and backoffBaseMs fall back on the default of each call site when unset.
+ */
+export function resolveTimings(ctx: Pick<RunContext, "cfg" | "routeTimings">): ResolvedTimings {
+  const set = (timings?: RouteTimings): RouteTimings =>
+    Object.fromEntries(Object.entries(timings ?? {}).filter(([, value]) => value !== undefined));
+  return {
+    ...DEFAULT_TIMINGS,
+    ...set(ctx.routeTimings),
+    ...set(ctx.cfg.timings),
+  };
+}
+
+/** Wait after the failed attempt number `attempt` (from 1) */
+export function backoffDelayMs(timings: ResolvedTimings, attempt: number, defaultBaseMs: number): number {
+  const base = timings.backoffBaseMs ?? defaultBaseMs;
+  switch (timings.backoff) {
+    case "fixed":
+      return base;
+    case "exponential":
+      return base * 2 ** (attempt - 1);
+    default:
+      return base * attempt;
+  }
+}
@@ -0,0 +1,99 @@
+import type { Client } from "xrpl";
+
+/**
+ * Replay the validated transactions of an account from a ledger index, oldest first,
+ * as messages shaped like the `transaction` stream ({ validated, tx_json, meta, hash })
+ * so that observe handlers can process history and live transactions the same way.
+ * Replayed messages carry `backfilled: true`. Paging stops as soon as shouldStop() is true.
+ * Returns the number of replayed transactions.
+ */
+export async function replayAccountTransactions(
+    client: Client,
+    account: string,
+    fromLedger: number,
+    onTx: (data: any) => void,
+    shouldStop: () => boolean = () => false
+): Promise<number> {
+    let marker: unknown = undefined;
+    let count = 0;
+
+    do {
+        const res = await client.request({
+            command: "account_tx",
+            account,
+            ledger_index_min: fromLedger,
+            ledger_index_max: -1,
+            forward: true,
+            limit: 200,
+            marker,
+        });
+
+        for (const entry of res.result.transactions) {
+            if (shouldStop()) return count;
+            count++;
+            onTx({ ...entry, backfilled: true });
+        }
+
+        marker = res.result.marker;
+    } while (marker && !shouldStop());
+
+    return count;
+}
+
+/** Ordered feed of the transactions of an account: history first, then the live stream. */
+export interface AccountTxFeed {
+    /** Listener for the client `transaction` event (buffered while the history is replayed) */
+    onStream: (data: any) => void;
+    /**
+     * Replay the history from a ledger index (if any), then deliver the buffered
+     * stream messages and switch to live delivery. Call once subscribed.
+     */
+    start: (fromLedger?: number) => Promise<void>;
+}
+
+/**
+ * Wrap an observe handler so that a payment validated before the subscription was active
+ * is still delivered, in ledger order, and every transaction is handled only once.
+ */
+export function createAccountTxFeed(
+    client: Client,
+    account: string,
+    onTx: (data: any) => void,
+    shouldStop: () => boolean = () => false
+): AccountTxFeed {
+    const seen = new Set<string>();
+    let buffer: any[] | undefined = [];
+
+    const deliver = (data: any) => {
+        const hash = data?.hash ?? data?.tx_json?.hash;
+        if (hash) {
+            if (seen.has(hash)) return;
+            seen.add(hash);
+        }
+        onTx(data);
+    };
+
+    return {
+        onStream: (data: any) => {
+            if (buffer) {
+                buffer.push(data);
+            } else {
+                deliver(data);
+            }
+        },
+        start: async (fromLedger?: number) => {
+            try {
+                if (fromLedger !== undefined) {
+                    await replayAccountTransactions(client, account, fromLedger, deliver, shouldStop);
+                }
+            } finally {
+                const pending = buffer ?? [];
+                buffer = undefined;
+                for (const data of pending) {
+                    if (shouldStop()) break;
+                    deliver(data);
+                }
+            }
+        },
+    };
+}